@@ -1,45 +1,341 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
 import { BatchResults } from './components/BatchResults';
 import { ConfigPanel } from './components/ConfigPanel';
 import { DisclaimerModal } from './components/DisclaimerModal';
-import { generateStockMetadata, refineMetadata } from './services/geminiService';
-import { AnalysisState, PromptConfig, StockMetadata, BatchItem } from './types';
+import { RestoreSessionModal } from './components/RestoreSessionModal';
+import { KeywordVocabularyModal } from './components/KeywordVocabularyModal';
+import { generateStockMetadata, refineMetadata, classifyLivingBeings, isRetryableError } from './services/metadataService';
+import { AnalysisState, PromptConfig, StockMetadata, BatchItem, QueueSettings, ProviderConfig, MetadataLanguage, ConfigPreset, GenerationSettings, MetadataChange, BulkUpdate, BulkRefineResult, KeywordVocabulary, DuplicateDecision, ExportProfileId, AnalysisImageSettings } from './types';
 import { convertPdfToImages } from './utils/pdfUtils';
+import { readEmbeddedMetadata } from './utils/metadataReader';
+import { saveSession, loadSession, clearSession, SavedSession } from './services/sessionStore';
+import { createJobQueue, JobQueue, JobSkippedError, mapWithConcurrency } from './utils/jobQueue';
+import { loadPromptTemplates, savePromptTemplates } from './utils/promptTemplates';
+import { DEFAULT_MODEL_PARAMETERS } from './utils/modelParameters';
+import { loadConfigPresets, saveConfigPresets, applyGenerationSettings, toGenerationSettings } from './utils/configPresets';
+import { recordVersion, moveInHistory, restoreVersion } from './utils/metadataHistory';
+import { computeImageFingerprint, getHeldDuplicateIds, isWaitingOnDuplicate, DEFAULT_DUPLICATE_THRESHOLD } from './utils/nearDuplicates';
+import { readImageTechnicalInfo } from './utils/imageTechnical';
+import { loadAnalysisImageSettings, saveAnalysisImageSettings, prepareAnalysisImage, PreparedAnalysisImage } from './utils/analysisImage';
+import { AUTO_ASPECT_RATIO, resolveAspectRatio, withItemAspectRatio } from './utils/aspectRatio';
+import { evaluatePreflight, isPreflightBlocked, PREFLIGHT_REQUIREMENTS } from './utils/preflight';
+import { loadKeywordVocabulary, saveKeywordVocabulary, recordKeywordUsage, unrecordKeywordUsage, normalizeMetadataKeywords } from './utils/keywordVocabulary';
+import { METADATA_LANGUAGES } from './utils/languages';
+import { PROVIDER_DEFAULTS } from './services/providers';
+import { useI18n } from './components/I18nProvider';
 import { MessageCircle, Heart, Coffee, Loader2 } from 'lucide-react';
 
 // Simple ID generator if uuid is not available in environment
 const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 
+const PROVIDER_STORAGE_KEY = 'stockprompt_provider';
+const DISCLAIMER_STORAGE_KEY = 'stockprompt_sharia_accepted';
+// Stored next to the disclaimer acceptance, which is where the mode is first offered
+const INANIMATE_ONLY_STORAGE_KEY = 'stockprompt_sharia_inanimate_only';
+const LANGUAGES_STORAGE_KEY = 'stockprompt_target_languages';
+const DUPLICATE_THRESHOLD_STORAGE_KEY = 'stockprompt_duplicate_threshold';
+const PREFLIGHT_PROFILE_STORAGE_KEY = 'stockprompt_preflight_profile';
+const HOLD_FAILED_PREFLIGHT_STORAGE_KEY = 'stockprompt_hold_failed_preflight';
+// Files read and decoded at once while preparing an upload; each holds a full-size bitmap in memory
+const FILE_PREPARE_CONCURRENCY = 3;
+
+// Provider settings (including API keys) stay in this browser only
+const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as ProviderConfig;
+  } catch (e) {
+    console.error("Invalid saved provider config", e);
+  }
+  const { label, isLocal, ...defaults } = PROVIDER_DEFAULTS.gemini;
+  return defaults;
+};
+
+const loadTargetLanguages = (): MetadataLanguage[] => {
+  try {
+    const saved = localStorage.getItem(LANGUAGES_STORAGE_KEY);
+    if (saved) return (JSON.parse(saved) as MetadataLanguage[]).filter(lang => lang in METADATA_LANGUAGES);
+  } catch (e) {
+    console.error("Invalid saved target languages", e);
+  }
+  return [];
+};
+
 export default function App() {
+  const { t } = useI18n();
   const [state, setState] = useState<AnalysisState>({
     items: [],
     isProcessing: false,
+    isPaused: false,
     activeItemId: null,
   });
 
-  const [promptConfig, setPromptConfig] = useState<PromptConfig>({
+  const [promptConfig, setPromptConfig] = useState<PromptConfig>(() => ({
     targetModel: 'midjourney',
-    aspectRatio: '16:9',
+    aspectRatio: AUTO_ASPECT_RATIO,
     includeTechnical: true,
     keywordDensity: 'standard',
+    provider: loadProviderConfig(),
+    inanimateOnly: localStorage.getItem(INANIMATE_ONLY_STORAGE_KEY) === 'true',
+    promptTemplates: loadPromptTemplates(),
+    modelParams: DEFAULT_MODEL_PARAMETERS,
+    targetLanguages: loadTargetLanguages(),
+  }));
+  const [presets, setPresets] = useState<ConfigPreset[]>(loadConfigPresets);
+  const [vocabulary, setVocabulary] = useState<KeywordVocabulary>(loadKeywordVocabulary);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [duplicateThreshold, setDuplicateThreshold] = useState(() => {
+    const saved = Number(localStorage.getItem(DUPLICATE_THRESHOLD_STORAGE_KEY));
+    return localStorage.getItem(DUPLICATE_THRESHOLD_STORAGE_KEY) !== null && Number.isFinite(saved) ? saved : DEFAULT_DUPLICATE_THRESHOLD;
+  });
+
+  const [preflightProfileId, setPreflightProfileId] = useState<ExportProfileId>(() => {
+    const saved = localStorage.getItem(PREFLIGHT_PROFILE_STORAGE_KEY);
+    return saved && saved in PREFLIGHT_REQUIREMENTS ? saved as ExportProfileId : 'generic';
   });
 
+  const [holdFailedPreflight, setHoldFailedPreflight] = useState(() => localStorage.getItem(HOLD_FAILED_PREFLIGHT_STORAGE_KEY) === 'true');
+
+  const [analysisImageSettings, setAnalysisImageSettings] = useState<AnalysisImageSettings>(loadAnalysisImageSettings);
+
   const [isRefining, setIsRefining] = useState(false);
   const [showDisclaimer, setShowDisclaimer] = useState(false);
   const [isPreparingFiles, setIsPreparingFiles] = useState(false);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  // Auto-save stays off until the user has decided whether to restore the previous session
+  const [isSessionReady, setIsSessionReady] = useState(false);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>({
+    concurrency: 2,
+    maxRetries: 3,
+  });
+
+  // The queue outlives renders, so it reads the latest config through a ref
+  const promptConfigRef = useRef(promptConfig);
+  promptConfigRef.current = promptConfig;
+  const tRef = useRef(t);
+  tRef.current = t;
+  const vocabularyRef = useRef(vocabulary);
+  vocabularyRef.current = vocabulary;
+  const analysisImageSettingsRef = useRef(analysisImageSettings);
+  analysisImageSettingsRef.current = analysisImageSettings;
+  const itemsRef = useRef(state.items);
+  itemsRef.current = state.items;
+  // Keywords already counted towards the vocabulary, per item, so edits and re-renders don't count twice
+  const countedKeywordsRef = useRef(new Map<string, Set<string>>());
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => i.id === id ? { ...i, ...changes } : i)
+    }));
+  };
+
+  // For changes derived from the item's latest state, such as its version history
+  const updateItemFrom = (id: string, getChanges: (item: BatchItem) => Partial<BatchItem> | null) => {
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => {
+        if (i.id !== id) return i;
+        const changes = getChanges(i);
+        return changes ? { ...i, ...changes } : i;
+      })
+    }));
+  };
+
+  // One prepared copy per item, shared by retries and the visual tagger; redone when the settings change
+  const analysisImagesRef = useRef(new Map<string, { settings: AnalysisImageSettings; prepared: Promise<PreparedAnalysisImage> }>());
+  const getAnalysisImage = (item: BatchItem): Promise<PreparedAnalysisImage> => {
+    const settings = analysisImageSettingsRef.current;
+    const cached = analysisImagesRef.current.get(item.id);
+    if (cached && cached.settings === settings) return cached.prepared;
+    const prepared = prepareAnalysisImage(item.file, settings);
+    const entry = { settings, prepared };
+    analysisImagesRef.current.set(item.id, entry);
+    // A failed attempt isn't cached, so a retry prepares again
+    prepared.catch(() => {
+      if (analysisImagesRef.current.get(item.id) === entry) analysisImagesRef.current.delete(item.id);
+    });
+    return prepared;
+  };
+
+  const queueRef = useRef<JobQueue<BatchItem> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue<BatchItem, StockMetadata>({
+      concurrency: queueSettings.concurrency,
+      maxRetries: queueSettings.maxRetries,
+      baseDelayMs: 2000,
+      run: async (item) => {
+        // A near-duplicate skipped while it was already running stops before the next API call
+        const stopIfSkipped = () => {
+          if (itemsRef.current.find(i => i.id === item.id)?.duplicate === 'skipped') throw new JobSkippedError();
+        };
+        stopIfSkipped();
+        const config = withItemAspectRatio(item.config ? applyGenerationSettings(promptConfigRef.current, item.config) : promptConfigRef.current, item);
+        // The model sees a smaller copy; item.file stays the original for export
+        const { file: analysisFile, stats } = await getAnalysisImage(item);
+        updateItem(item.id, { analysisImage: stats });
+        if (config.inanimateOnly) {
+          const livingBeings = await classifyLivingBeings(analysisFile, config.provider);
+          updateItem(item.id, { livingBeings });
+        }
+        stopIfSkipped();
+        const requestStarted = performance.now();
+        const { metadata, visibleLogos } = await generateStockMetadata(analysisFile, config, item.embedded);
+        updateItem(item.id, {
+          analysisImage: { ...stats, requestMs: Math.round(performance.now() - requestStarted) },
+          visibleLogos,
+        });
+        return normalizeMetadataKeywords(metadata, vocabularyRef.current);
+      },
+      isRetryable: isRetryableError,
+      onStart: (item, attempt) => updateItem(item.id, { status: 'processing', attempts: attempt, error: null }),
+      onRetry: (item, attempt, delayMs, error: any) => updateItem(item.id, {
+        attempts: attempt,
+        error: tRef.current('queue.retrying', {
+          error: error?.message || tRef.current('queue.requestFailed'),
+          seconds: Math.round(delayMs / 1000),
+        })
+      }),
+      onSuccess: (item, result) => updateItemFrom(item.id, current => ({
+        ...recordVersion(current, result, { kind: 'generated' }),
+        status: 'completed',
+        error: null,
+      })),
+      onFailure: (item, error: any) => updateItem(item.id, { status: 'error', error: error?.message || tRef.current('queue.failed') }),
+      onCancel: (item) => updateItem(item.id, { status: 'pending', attempts: 0, error: null }),
+      onIdle: () => setState(prev => ({ ...prev, isProcessing: false, isPaused: false })),
+    });
+  }
+  const queue = queueRef.current;
 
   useEffect(() => {
     // Check if user has accepted the disclaimer previously
-    const hasAccepted = localStorage.getItem('stockprompt_sharia_accepted');
+    const hasAccepted = localStorage.getItem(DISCLAIMER_STORAGE_KEY);
     if (!hasAccepted) {
       setShowDisclaimer(true);
     }
   }, []);
 
-  const handleAcceptDisclaimer = () => {
-    localStorage.setItem('stockprompt_sharia_accepted', 'true');
+  useEffect(() => {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(promptConfig.provider));
+  }, [promptConfig.provider]);
+
+  useEffect(() => {
+    localStorage.setItem(INANIMATE_ONLY_STORAGE_KEY, String(promptConfig.inanimateOnly));
+  }, [promptConfig.inanimateOnly]);
+
+  useEffect(() => {
+    localStorage.setItem(LANGUAGES_STORAGE_KEY, JSON.stringify(promptConfig.targetLanguages));
+  }, [promptConfig.targetLanguages]);
+
+  useEffect(() => {
+    savePromptTemplates(promptConfig.promptTemplates);
+  }, [promptConfig.promptTemplates]);
+
+  useEffect(() => {
+    saveConfigPresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveKeywordVocabulary(vocabulary);
+  }, [vocabulary]);
+
+  useEffect(() => {
+    localStorage.setItem(DUPLICATE_THRESHOLD_STORAGE_KEY, String(duplicateThreshold));
+  }, [duplicateThreshold]);
+
+  useEffect(() => {
+    localStorage.setItem(PREFLIGHT_PROFILE_STORAGE_KEY, preflightProfileId);
+  }, [preflightProfileId]);
+
+  useEffect(() => {
+    localStorage.setItem(HOLD_FAILED_PREFLIGHT_STORAGE_KEY, String(holdFailedPreflight));
+  }, [holdFailedPreflight]);
+
+  useEffect(() => {
+    saveAnalysisImageSettings(analysisImageSettings);
+  }, [analysisImageSettings]);
+
+  // Every keyword that stays on a completed result counts as accepted, once per item;
+  // deleting it again (by hand, a lint fix or a re-run) takes the count back
+  useEffect(() => {
+    if (!isSessionReady) return;
+    const accepted: string[] = [];
+    const rejected: string[] = [];
+    state.items.forEach(item => {
+      if (item.status !== 'completed' || !item.data) return;
+      const counted = countedKeywordsRef.current.get(item.id) || new Set<string>();
+      const current = new Set(item.data.keywords.map(keyword => keyword.trim().toLowerCase()));
+      item.data.keywords.forEach(keyword => {
+        const key = keyword.trim().toLowerCase();
+        if (key && !counted.has(key)) {
+          counted.add(key);
+          accepted.push(keyword);
+        }
+      });
+      counted.forEach(key => {
+        if (!current.has(key)) {
+          counted.delete(key);
+          rejected.push(key);
+        }
+      });
+      countedKeywordsRef.current.set(item.id, counted);
+    });
+    if (accepted.length > 0 || rejected.length > 0) {
+      setVocabulary(prev => unrecordKeywordUsage(recordKeywordUsage(prev, accepted), rejected));
+    }
+  }, [state.items, isSessionReady]);
+
+  useEffect(() => {
+    loadSession().then(session => {
+      if (session) {
+        setSavedSession(session);
+      } else {
+        setIsSessionReady(true);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isSessionReady) return;
+    // Debounce so rapid keyword edits don't hammer IndexedDB
+    const timer = setTimeout(() => {
+      if (state.items.length === 0) {
+        clearSession();
+      } else {
+        saveSession(state.items, state.activeItemId);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [state.items, state.activeItemId, isSessionReady]);
+
+  const handleRestoreSession = () => {
+    if (!savedSession) return;
+    // Restored keywords were counted in the session that produced them
+    savedSession.items.forEach(item => {
+      if (item.data) countedKeywordsRef.current.set(item.id, new Set(item.data.keywords.map(k => k.trim().toLowerCase())));
+    });
+    setState({
+      items: savedSession.items,
+      isProcessing: false,
+      isPaused: false,
+      activeItemId: savedSession.activeItemId,
+    });
+    setSavedSession(null);
+    setIsSessionReady(true);
+  };
+
+  const handleDiscardSession = () => {
+    clearSession();
+    setSavedSession(null);
+    setIsSessionReady(true);
+  };
+
+  const handleAcceptDisclaimer = (inanimateOnly: boolean) => {
+    localStorage.setItem(DISCLAIMER_STORAGE_KEY, 'true');
+    setPromptConfig(prev => ({ ...prev, inanimateOnly }));
     setShowDisclaimer(false);
   };
 
@@ -47,46 +343,86 @@ export default function App() {
     setShowDisclaimer(true);
   };
 
-  const processBatchQueue = async (itemsToProcess: BatchItem[]) => {
-    setState(prev => ({ ...prev, isProcessing: true }));
+  // Items keep the settings they were first queued with, so panel edits mid-batch only affect new uploads
+  const processBatchQueue = (itemsToProcess: BatchItem[]) => {
+    const settings = toGenerationSettings(promptConfigRef.current);
+    const unstampedIds = new Set(itemsToProcess.filter(i => !i.config).map(i => i.id));
+    setState(prev => ({
+      ...prev,
+      isProcessing: true,
+      items: unstampedIds.size > 0
+        ? prev.items.map(i => unstampedIds.has(i.id) ? { ...i, config: settings } : i)
+        : prev.items
+    }));
+    queue.enqueue(itemsToProcess.map(i => i.config ? i : { ...i, config: settings }));
+  };
 
-    // Process sequentially to be safe with rate limits, though parallel is possible
-    for (const item of itemsToProcess) {
-      // Update status to processing
-      setState(prev => ({
-        ...prev,
-        items: prev.items.map(i => i.id === item.id ? { ...i, status: 'processing' } : i)
-      }));
+  const handlePauseQueue = () => {
+    queue.pause();
+    setState(prev => ({ ...prev, isPaused: true }));
+  };
 
-      try {
-        const result = await generateStockMetadata(item.file, promptConfig);
-        
-        setState(prev => ({
-          ...prev,
-          items: prev.items.map(i => i.id === item.id ? { 
-            ...i, 
-            status: 'completed', 
-            data: result 
-          } : i)
-        }));
-      } catch (error: any) {
-        setState(prev => ({
-          ...prev,
-          items: prev.items.map(i => i.id === item.id ? { 
-            ...i, 
-            status: 'error', 
-            error: error.message || "Failed to process" 
-          } : i)
-        }));
-      }
-    }
+  const handleResumeQueue = () => {
+    queue.resume();
+    setState(prev => ({ ...prev, isPaused: false }));
+  };
+
+  const handleCancelQueue = () => {
+    queue.cancel();
+  };
+
+  const handleRetryItem = (id: string) => {
+    const item = state.items.find(i => i.id === id);
+    if (!item) return;
+    updateItem(id, { status: 'pending', attempts: 0, error: null });
+    processBatchQueue([item]);
+  };
+
+  const handleRetryFailed = () => {
+    const failedItems = state.items.filter(i => i.status === 'error');
+    if (failedItems.length === 0) return;
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => i.status === 'error' ? { ...i, status: 'pending', attempts: 0, error: null } : i)
+    }));
+    processBatchQueue(failedItems);
+  };
+
+  const handleRerunItems = (ids: string[], settings: GenerationSettings) => {
+    const targets = state.items
+      .filter(i => ids.includes(i.id) && i.status !== 'processing')
+      .map(i => ({ ...i, config: settings }));
+    if (targets.length === 0) return;
+    const targetIds = new Set(targets.map(i => i.id));
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => targetIds.has(i.id)
+        ? { ...i, config: settings, status: 'pending', attempts: 0, error: null }
+        : i)
+    }));
+    processBatchQueue(targets);
+  };
 
-    setState(prev => ({ ...prev, isProcessing: false }));
+  const handleWaiveLintIssue = (id: string, issueKey: string) => {
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(item => item.id === id
+        ? { ...item, lintWaivers: [...(item.lintWaivers || []).filter(k => k !== issueKey), issueKey] }
+        : item)
+    }));
+  };
+
+  const handleQueueSettingsChange = (settings: QueueSettings) => {
+    setQueueSettings(settings);
+    queue.setConcurrency(settings.concurrency);
+    queue.setMaxRetries(settings.maxRetries);
   };
 
   const handleFilesSelect = async (files: File[]) => {
     setIsPreparingFiles(true);
     const finalFiles: File[] = [];
+    // Page renders aren't what gets submitted to an agency, so they skip pre-flight
+    const pdfPages = new Set<File>();
 
     // Pre-process PDFs: Convert to images (one per page)
     try {
@@ -95,6 +431,7 @@ export default function App() {
           try {
             const images = await convertPdfToImages(file);
             finalFiles.push(...images);
+            images.forEach(image => pdfPages.add(image));
           } catch (e) {
             console.error("Skipping bad PDF", e);
             // Fallback: push original file if conversion fails (Gemini might handle it, though less effectively for Multi-page)
@@ -105,13 +442,38 @@ export default function App() {
         }
       }
 
-      const newItems: BatchItem[] = finalFiles.map(file => ({
-        id: generateId(),
-        file,
-        status: 'pending',
-        data: null,
-        error: null
-      }));
+      const newItems: BatchItem[] = await mapWithConcurrency(finalFiles, FILE_PREPARE_CONCURRENCY, async file => {
+        // Decoded once and shared by the fingerprint and the pre-flight checks
+        let bitmap: ImageBitmap | undefined;
+        if (file.type.startsWith('image/')) {
+          try {
+            bitmap = await createImageBitmap(file);
+          } catch (e) {
+            console.error("Could not decode image", e);
+          }
+        }
+        try {
+          const technical = pdfPages.has(file) ? null : await readImageTechnicalInfo(file, bitmap);
+          return {
+            id: generateId(),
+            file,
+            status: 'pending' as const,
+            data: null,
+            error: null,
+            embedded: await readEmbeddedMetadata(file),
+            fingerprint: await computeImageFingerprint(file, bitmap),
+            preflight: technical ? evaluatePreflight(technical, preflightProfileId) : null
+          };
+        } finally {
+          bitmap?.close();
+        }
+      });
+      // Near-duplicates wait for a keep/skip/series decision instead of costing API calls straight away
+      const heldIds = getHeldDuplicateIds(state.items, newItems, duplicateThreshold);
+      heldIds.forEach(id => {
+        const item = newItems.find(i => i.id === id);
+        if (item) item.duplicate = 'held';
+      });
 
       setState(prev => {
         const updatedItems = [...prev.items, ...newItems];
@@ -124,7 +486,7 @@ export default function App() {
       });
 
       // Start processing only the new items
-      processBatchQueue(newItems);
+      processBatchQueue(newItems.filter(item => !heldIds.has(item.id) && !isPreflightBlocked(item, holdFailedPreflight)));
     } catch (error) {
       console.error("File preparation error", error);
     } finally {
@@ -132,10 +494,79 @@ export default function App() {
     }
   };
 
+  const handleResumePending = () => {
+    const pendingItems = state.items.filter(i => i.status === 'pending' && !isWaitingOnDuplicate(i) && !isPreflightBlocked(i, holdFailedPreflight));
+    if (pendingItems.length > 0) {
+      processBatchQueue(pendingItems);
+    }
+  };
+
+  // Items being processed (including ones waiting to retry) are left alone
+  const handleRemoveItems = (ids: string[]) => {
+    const removable = new Set(state.items.filter(i => ids.includes(i.id) && i.status !== 'processing').map(i => i.id));
+    queue.remove(Array.from(removable));
+    removable.forEach(id => analysisImagesRef.current.delete(id));
+    setState(prev => {
+      const items = prev.items.filter(i => !removable.has(i.id));
+      return {
+        ...prev,
+        items,
+        activeItemId: items.some(i => i.id === prev.activeItemId) ? prev.activeItemId : items[0]?.id || null,
+      };
+    });
+  };
+
+  // A null decision releases the item as an ordinary upload; released and series items are queued, skipped ones aren't
+  const handleResolveDuplicates = (ids: string[], decision: Exclude<DuplicateDecision, 'held'> | null) => {
+    const duplicate = decision || undefined;
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => ids.includes(i.id) ? { ...i, duplicate } : i)
+    }));
+    if (decision === 'skipped') {
+      queue.remove(ids);
+    } else {
+      const toQueue = state.items.filter(i => ids.includes(i.id) && i.status === 'pending' && isWaitingOnDuplicate(i) && !isPreflightBlocked(i, holdFailedPreflight));
+      if (toQueue.length > 0) processBatchQueue(toQueue.map(i => ({ ...i, duplicate })));
+    }
+  };
+
+  // Re-grades every item; queued files that are now held leave the queue, files that now pass wait for "start pending"
+  const regradePreflight = (profileId: ExportProfileId, holdFailed: boolean) => {
+    const regrade = (item: BatchItem): BatchItem =>
+      item.preflight ? { ...item, preflight: evaluatePreflight(item.preflight.info, profileId) } : item;
+    queue.remove(state.items.map(regrade).filter(i => i.status === 'pending' && isPreflightBlocked(i, holdFailed)).map(i => i.id));
+    setState(prev => ({ ...prev, items: prev.items.map(regrade) }));
+  };
+
+  const handlePreflightProfileChange = (profileId: ExportProfileId) => {
+    setPreflightProfileId(profileId);
+    regradePreflight(profileId, holdFailedPreflight);
+  };
+
+  const handleHoldFailedPreflightChange = (holdFailed: boolean) => {
+    setHoldFailedPreflight(holdFailed);
+    regradePreflight(preflightProfileId, holdFailed);
+  };
+
+  const handleOverridePreflight = (ids: string[]) => {
+    const held = state.items.filter(i => ids.includes(i.id) && isPreflightBlocked(i, holdFailedPreflight));
+    const heldIds = new Set(held.map(i => i.id));
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(i => heldIds.has(i.id) ? { ...i, preflightOverride: true } : i)
+    }));
+    const toQueue = held.filter(i => i.status === 'pending' && !isWaitingOnDuplicate(i));
+    if (toQueue.length > 0) processBatchQueue(toQueue.map(i => ({ ...i, preflightOverride: true })));
+  };
+
   const handleClear = () => {
+    queue.cancel();
+    analysisImagesRef.current.clear();
     setState({
       items: [],
       isProcessing: false,
+      isPaused: false,
       activeItemId: null,
     });
   };
@@ -144,13 +575,50 @@ export default function App() {
     setState(prev => ({ ...prev, activeItemId: id }));
   };
 
-  const handleUpdateItem = (id: string, newData: StockMetadata) => {
+  const handleUpdateItem = (id: string, newData: StockMetadata, change: MetadataChange = { kind: 'manual' }) => {
+    updateItemFrom(id, item => recordVersion(item, newData, change));
+  };
+
+  const handleBulkUpdate = (updates: BulkUpdate[]) => {
+    const byId = new Map<string, BulkUpdate>(updates.map(update => [update.id, update]));
     setState(prev => ({
       ...prev,
-      items: prev.items.map(item => item.id === id ? { ...item, data: newData } : item)
+      items: prev.items.map(item => {
+        const update = byId.get(item.id);
+        return update ? { ...item, ...recordVersion(item, update.data, update.change) } : item;
+      })
     }));
   };
 
+  // Refines one item at a time and returns the results for preview; nothing is applied here
+  const handleBulkRefine = async (ids: string[], instruction: string, onProgress: (done: number) => void): Promise<BulkRefineResult[]> => {
+    setIsRefining(true);
+    const results: BulkRefineResult[] = [];
+    try {
+      for (const id of ids) {
+        const item = state.items.find(i => i.id === id);
+        if (item?.data) {
+          const itemConfig = withItemAspectRatio(item.config ? applyGenerationSettings(promptConfig, item.config) : promptConfig, item);
+          try {
+            results.push({ id, data: normalizeMetadataKeywords(await refineMetadata(item.data, instruction, itemConfig), vocabulary) });
+          } catch (error: any) {
+            results.push({ id, error: error?.message || t('queue.requestFailed') });
+          }
+        }
+        onProgress(results.length);
+      }
+    } finally {
+      setIsRefining(false);
+    }
+    return results;
+  };
+
+  const handleUndoItem = (id: string) => updateItemFrom(id, item => moveInHistory(item, -1));
+
+  const handleRedoItem = (id: string) => updateItemFrom(id, item => moveInHistory(item, 1));
+
+  const handleRestoreVersion = (id: string, versionId: string) => updateItemFrom(id, item => restoreVersion(item, versionId));
+
   const handleRefineItem = async (id: string, instruction: string, newAspectRatio: string) => {
     const item = state.items.find(i => i.id === id);
     if (!item || !item.data) return;
@@ -158,22 +626,19 @@ export default function App() {
     setIsRefining(true);
 
     try {
-      const refineConfig: PromptConfig = {
-        ...promptConfig,
-        aspectRatio: newAspectRatio
-      };
+      const itemConfig = item.config ? applyGenerationSettings(promptConfig, item.config) : promptConfig;
+      const refineConfig: PromptConfig = { ...itemConfig, aspectRatio: newAspectRatio };
+      // Refining at the item's own detected ratio leaves it on auto
+      const keepsRatio = newAspectRatio === resolveAspectRatio(itemConfig, item);
 
-      const refinedResult = await refineMetadata(item.data, instruction, refineConfig);
+      const refinedResult = normalizeMetadataKeywords(await refineMetadata(item.data, instruction, refineConfig), vocabulary);
 
-      // Update the specific item
-      setState(prev => ({
-        ...prev,
-        items: prev.items.map(i => i.id === id ? { ...i, data: refinedResult } : i)
+      // The new aspect ratio only belongs to this item; the global config stays as it is
+      updateItemFrom(id, current => ({
+        ...recordVersion(current, refinedResult, { kind: 'refine', detail: instruction }),
+        config: toGenerationSettings(keepsRatio ? itemConfig : refineConfig),
       }));
 
-      // Update global config if needed, though strictly we might only want to update local
-      setPromptConfig(prev => ({ ...prev, aspectRatio: newAspectRatio }));
-
     } catch (error) {
       console.error("Refine failed", error);
       // Optional: set a temporary error state or notification
@@ -184,20 +649,35 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
-      {showDisclaimer && <DisclaimerModal onAccept={handleAcceptDisclaimer} />}
+      {showDisclaimer && <DisclaimerModal onAccept={handleAcceptDisclaimer} initialInanimateOnly={promptConfig.inanimateOnly} />}
+      {!showDisclaimer && savedSession && (
+        <RestoreSessionModal
+          session={savedSession}
+          onRestore={handleRestoreSession}
+          onDiscard={handleDiscardSession}
+        />
+      )}
       
+      {showVocabulary && (
+        <KeywordVocabularyModal
+          vocabulary={vocabulary}
+          onChange={setVocabulary}
+          onClose={() => setShowVocabulary(false)}
+        />
+      )}
+
       {/* Global Loader for PDF Processing */}
       {isPreparingFiles && (
         <div className="fixed inset-0 z-[70] bg-white/80 backdrop-blur-sm flex items-center justify-center">
           <div className="bg-white p-6 rounded-2xl shadow-xl border border-indigo-100 flex flex-col items-center animate-in zoom-in-95">
             <Loader2 className="w-10 h-10 text-indigo-600 animate-spin mb-3" />
-            <h3 className="text-lg font-bold text-slate-800">Mengekstrak Halaman PDF...</h3>
-            <p className="text-sm text-slate-500">Mohon tunggu sebentar, kami sedang memisahkan halaman.</p>
+            <h3 className="text-lg font-bold text-slate-800">{t('app.extractingPdf')}</h3>
+            <p className="text-sm text-slate-500">{t('app.extractingPdfHint')}</p>
           </div>
         </div>
       )}
       
-      <Header />
+      <Header modelLabel={promptConfig.provider.model} onOpenVocabulary={() => setShowVocabulary(true)} />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-10 flex-grow w-full">
         
@@ -205,10 +685,10 @@ export default function App() {
         {state.items.length === 0 && (
           <div className="text-center mb-16 mt-10 animate-in fade-in slide-in-from-top-4 duration-700">
             <h2 className="text-3xl sm:text-4xl font-extrabold text-slate-900 tracking-tight mb-4">
-              Buat Aset Stock <span className="text-indigo-600">Best-Seller</span>
+              {t('app.heroTitle')} <span className="text-indigo-600">{t('app.heroHighlight')}</span> {t('app.heroTitleEnd')}
             </h2>
             <p className="text-lg text-slate-600 max-w-xl mx-auto">
-              Upload multiple images or PDFs. Our AI generates high-converting prompts and metadata for Adobe Stock & Shutterstock instantly.
+              {t('app.heroSubtitle')}
             </p>
           </div>
         )}
@@ -218,6 +698,8 @@ export default function App() {
           config={promptConfig} 
           onChange={setPromptConfig} 
           disabled={state.isProcessing || isRefining || isPreparingFiles}
+          presets={presets}
+          onPresetsChange={setPresets}
         />
 
         {/* Upload Section */}
@@ -226,6 +708,12 @@ export default function App() {
             onFilesSelect={handleFilesSelect} 
             isProcessing={state.isProcessing || isPreparingFiles} 
             onClear={state.items.length > 0 ? handleClear : undefined}
+            preflightProfileId={preflightProfileId}
+            onPreflightProfileChange={handlePreflightProfileChange}
+            holdFailedPreflight={holdFailedPreflight}
+            onHoldFailedPreflightChange={handleHoldFailedPreflightChange}
+            analysisImageSettings={analysisImageSettings}
+            onAnalysisImageSettingsChange={setAnalysisImageSettings}
           />
         </div>
 
@@ -237,8 +725,35 @@ export default function App() {
             onSelectItem={handleSelectItem}
             config={promptConfig}
             onUpdateItem={handleUpdateItem}
+            onUndoItem={handleUndoItem}
+            onRedoItem={handleRedoItem}
+            onRestoreVersion={handleRestoreVersion}
             onRefineItem={handleRefineItem}
             isRefining={isRefining}
+            isProcessing={state.isProcessing}
+            isPaused={state.isPaused}
+            onResumePending={handleResumePending}
+            onPauseQueue={handlePauseQueue}
+            onResumeQueue={handleResumeQueue}
+            onCancelQueue={handleCancelQueue}
+            onRetryItem={handleRetryItem}
+            onRetryFailed={handleRetryFailed}
+            queueSettings={queueSettings}
+            onQueueSettingsChange={handleQueueSettingsChange}
+            onWaiveLintIssue={handleWaiveLintIssue}
+            presets={presets}
+            onPresetsChange={setPresets}
+            onRerunItems={handleRerunItems}
+            onBulkUpdate={handleBulkUpdate}
+            onBulkRefine={handleBulkRefine}
+            vocabulary={vocabulary}
+            duplicateThreshold={duplicateThreshold}
+            onDuplicateThresholdChange={setDuplicateThreshold}
+            onRemoveItems={handleRemoveItems}
+            onResolveDuplicates={handleResolveDuplicates}
+            holdFailedPreflight={holdFailedPreflight}
+            onOverridePreflight={handleOverridePreflight}
+            getAnalysisFile={item => getAnalysisImage(item).then(prepared => prepared.file)}
           />
         )}
       </main>
@@ -250,7 +765,7 @@ export default function App() {
             <div>
               <p className="text-sm font-bold text-slate-900">StockPrompt Pro</p>
               <p className="text-xs text-slate-500 mt-1">
-                Membantu Microstocker menghasilkan aset berkualitas dengan AI.
+                {t('app.footerTagline')}
               </p>
             </div>
             
@@ -264,7 +779,7 @@ export default function App() {
                 <div className="bg-green-100 p-2 rounded-full text-green-600 group-hover:bg-green-600 group-hover:text-white transition-colors">
                    <MessageCircle size={16} />
                 </div>
-                <span>Saran & Kritik: 0811553393</span>
+                <span>{t('app.feedback', { phone: '0811553393' })}</span>
               </a>
 
               <a 
@@ -276,17 +791,17 @@ export default function App() {
                  <div className="bg-pink-100 p-2 rounded-full text-pink-600 group-hover:bg-pink-600 group-hover:text-white transition-colors">
                     <Coffee size={16} />
                  </div>
-                 <span>Traktir Pengembang</span>
+                 <span>{t('app.treatDeveloper')}</span>
               </a>
             </div>
           </div>
           <div className="mt-8 pt-8 border-t border-slate-100 flex flex-col md:flex-row justify-between items-center gap-4 text-xs text-slate-400">
-            <p>&copy; {new Date().getFullYear()} StockPrompt Pro. All rights reserved.</p>
+            <p>&copy; {new Date().getFullYear()} StockPrompt Pro. {t('app.rightsReserved')}</p>
             <button 
               onClick={handleOpenDisclaimer}
               className="hover:text-indigo-600 transition-colors underline"
             >
-              Baca Disclaimer & Peringatan
+              {t('app.readDisclaimer')}
             </button>
           </div>
         </div>
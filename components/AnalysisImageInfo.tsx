@@ -0,0 +1,58 @@
+import React from 'react';
+import { ImageDown, Timer } from 'lucide-react';
+import { AnalysisImageStats } from '../types';
+import { AnalysisImageSummary } from '../utils/analysisImage';
+import { formatFileSize } from '../utils/preflight';
+import { useI18n } from './I18nProvider';
+
+interface AnalysisImageInfoProps {
+  stats: AnalysisImageStats;
+  summary: AnalysisImageSummary;
+}
+
+const formatSeconds = (ms: number) => (ms / 1000).toFixed(1);
+
+export const AnalysisImageInfo: React.FC<AnalysisImageInfoProps> = ({ stats, summary }) => {
+  const { t } = useI18n();
+  const savedPercent = Math.round((1 - stats.sentBytes / stats.originalBytes) * 100);
+  const { downscaled, original } = summary.averageRequestMs;
+
+  return (
+    <div className="mb-4 px-4 py-2.5 rounded-xl border border-slate-200 bg-white text-xs text-slate-600 space-y-1">
+      <p className="flex flex-wrap items-center gap-2">
+        <ImageDown size={14} className="text-indigo-600 flex-shrink-0" />
+        <span className="font-semibold text-slate-700">{t('analysisImage.title')}</span>
+        {stats.downscaled ? (
+          <span>
+            {t('analysisImage.sent', {
+              size: formatFileSize(stats.sentBytes),
+              original: formatFileSize(stats.originalBytes),
+              percent: savedPercent,
+            })}
+            {stats.width !== stats.originalWidth && (
+              <span className="text-slate-400"> · {stats.originalWidth}×{stats.originalHeight} → {stats.width}×{stats.height}</span>
+            )}
+          </span>
+        ) : (
+          <span>{t('analysisImage.sentOriginal', { size: formatFileSize(stats.originalBytes) })}</span>
+        )}
+      </p>
+      <p className="flex flex-wrap items-center gap-2 text-slate-500">
+        <Timer size={14} className="text-slate-400 flex-shrink-0" />
+        <span>{t('analysisImage.prepared', { ms: stats.prepareMs })}</span>
+        {stats.requestMs !== undefined && (
+          <span>· {t('analysisImage.request', { seconds: formatSeconds(stats.requestMs) })}</span>
+        )}
+        {/* Only comparable once the batch has finished requests both ways */}
+        {downscaled !== undefined && original !== undefined && (
+          <span className="text-slate-400">
+            · {t('analysisImage.average', { downscaled: formatSeconds(downscaled), original: formatSeconds(original) })}
+          </span>
+        )}
+        {summary.savedBytes > 0 && (
+          <span className="ml-auto text-green-700">{t('analysisImage.batchSaved', { size: formatFileSize(summary.savedBytes) })}</span>
+        )}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { BarChart3, AlertTriangle, Copy, Tags, X } from 'lucide-react';
+import { AnalyticsFilter, AnalyticsFilterKind, BatchAnalytics, TermUsage } from '../utils/batchAnalytics';
+import { useI18n } from './I18nProvider';
+
+interface BatchAnalyticsPanelProps {
+  analytics: BatchAnalytics;
+  itemNames: Map<string, string>;
+  activeFilter: AnalyticsFilter | null;
+  onFilter: (filter: AnalyticsFilter | null) => void;
+  onClose: () => void;
+}
+
+const LIST_LIMIT = 15;
+
+export const BatchAnalyticsPanel: React.FC<BatchAnalyticsPanelProps> = ({ analytics, itemNames, activeFilter, onFilter, onClose }) => {
+  const { t } = useI18n();
+
+  const isActive = (kind: AnalyticsFilterKind, value: string) =>
+    activeFilter?.kind === kind && activeFilter.value.toLowerCase() === value.toLowerCase();
+
+  // Clicking the active term again clears the filter
+  const toggleFilter = (kind: AnalyticsFilterKind, value: string) => {
+    onFilter(isActive(kind, value) ? null : { kind, value });
+  };
+
+  const renderBars = (usages: TermUsage[], kind: AnalyticsFilterKind) => (
+    <ul className="space-y-1">
+      {usages.map(usage => (
+        <li key={usage.term}>
+          <button
+            onClick={() => toggleFilter(kind, usage.term)}
+            className={`w-full flex items-center gap-2 px-2 py-1 rounded text-xs text-left transition-colors
+              ${isActive(kind, usage.term) ? 'bg-indigo-100 text-indigo-800' : 'hover:bg-slate-50 text-slate-700'}
+            `}
+            title={t('analytics.usedOn', { count: usage.count, total: analytics.analyzedCount })}
+          >
+            <span className="w-28 truncate flex-shrink-0">{usage.term}</span>
+            <span className="flex-1 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+              <span className="block h-full bg-indigo-400" style={{ width: `${(usage.count / analytics.analyzedCount) * 100}%` }} />
+            </span>
+            <span className="w-8 text-right font-mono text-slate-500">{usage.count}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const sectionTitle = "text-xs font-bold text-slate-500 uppercase mb-2";
+  // Least used ends with the rarest terms; shown rarest-first
+  const leastUsed = analytics.keywords.slice(-LIST_LIMIT).reverse();
+  const hasFindings = analytics.genericKeywords.length > 0 || analytics.duplicateTitles.length > 0 || analytics.sparseItems.length > 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 mb-6 overflow-hidden animate-in fade-in duration-300">
+      <div className="px-5 py-3 border-b border-slate-100 flex items-center gap-2">
+        <BarChart3 size={18} className="text-indigo-600" />
+        <h3 className="font-semibold text-slate-800">{t('analytics.title')}</h3>
+        <span className="text-xs text-slate-400">
+          {t('analytics.summary', { count: analytics.analyzedCount, keywords: analytics.keywords.length })}
+        </span>
+        <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600" title={t('common.close')}>
+          <X size={18} />
+        </button>
+      </div>
+
+      {analytics.analyzedCount === 0 ? (
+        <p className="p-5 text-sm text-slate-500">{t('analytics.empty')}</p>
+      ) : (
+        <div className="p-5 space-y-5">
+          {hasFindings ? (
+            <div className="space-y-3">
+              {analytics.genericKeywords.length > 0 && (
+                <div className="px-3 py-2.5 rounded-lg bg-amber-50 border border-amber-100 text-xs text-amber-800">
+                  <p className="flex items-center gap-1.5 font-semibold mb-1.5">
+                    <AlertTriangle size={14} />
+                    {t('analytics.generic', { count: analytics.genericKeywords.length })}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {analytics.genericKeywords.map(usage => (
+                      <button
+                        key={usage.term}
+                        onClick={() => toggleFilter('keyword', usage.term)}
+                        className={`px-2 py-0.5 rounded-full border transition-colors
+                          ${isActive('keyword', usage.term) ? 'bg-amber-600 border-amber-600 text-white' : 'bg-white border-amber-200 hover:border-amber-400'}
+                        `}
+                      >
+                        {usage.term} <span className="opacity-70">{usage.count}/{analytics.analyzedCount}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {analytics.sparseItems.length > 0 && (
+                <button
+                  onClick={() => toggleFilter('sparse', '')}
+                  className={`w-full text-left px-3 py-2.5 rounded-lg border text-xs transition-colors
+                    ${isActive('sparse', '') ? 'bg-amber-100 border-amber-300 text-amber-900' : 'bg-amber-50 border-amber-100 text-amber-800 hover:border-amber-300'}
+                  `}
+                >
+                  <p className="flex items-center gap-1.5 font-semibold">
+                    <Tags size={14} />
+                    {t('analytics.sparse', { count: analytics.sparseItems.length, median: Math.round(analytics.medianDistinctKeywords) })}
+                  </p>
+                  <p className="mt-1 text-amber-700 truncate">
+                    {analytics.sparseItems
+                      .map(item => t('analytics.sparseItem', { name: itemNames.get(item.itemId) || '', count: item.distinctKeywords }))
+                      .join(' · ')}
+                  </p>
+                </button>
+              )}
+
+              {analytics.duplicateTitles.length > 0 && (
+                <div className="px-3 py-2.5 rounded-lg bg-red-50 border border-red-100 text-xs text-red-800">
+                  <p className="flex items-center gap-1.5 font-semibold mb-1.5">
+                    <Copy size={14} />
+                    {t('analytics.duplicateTitles', { count: analytics.duplicateTitles.length })}
+                  </p>
+                  <ul className="space-y-1">
+                    {analytics.duplicateTitles.map(usage => (
+                      <li key={usage.term}>
+                        <button
+                          onClick={() => toggleFilter('title', usage.term)}
+                          className={`w-full text-left px-2 py-1 rounded transition-colors
+                            ${isActive('title', usage.term) ? 'bg-red-100' : 'hover:bg-red-100/60'}
+                          `}
+                        >
+                          <span className="font-mono mr-1.5">×{usage.count}</span>
+                          {usage.term}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-green-700">{t('analytics.noFindings')}</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            <div>
+              <p className={sectionTitle}>{t('analytics.mostUsed')}</p>
+              {renderBars(analytics.keywords.slice(0, LIST_LIMIT), 'keyword')}
+            </div>
+            <div>
+              <p className={sectionTitle}>{t('analytics.leastUsed')}</p>
+              {renderBars(leastUsed, 'keyword')}
+            </div>
+            <div>
+              <p className={sectionTitle}>{t('analytics.categories')}</p>
+              {analytics.categories.length > 0
+                ? renderBars(analytics.categories, 'category')
+                : <p className="text-xs text-slate-400">{t('analytics.noCategories')}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,65 +1,317 @@
-import React, { useMemo } from 'react';
-import { BatchItem, StockMetadata, PromptConfig } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import { BatchItem, StockMetadata, PromptConfig, ExportProfileId, ExportOptions, QueueSettings, ConfigPreset, GenerationSettings, KeywordDensity, MetadataChange, BulkUpdate, BulkRefineResult, KeywordVocabulary, DuplicateDecision } from '../types';
 import { ResultCard } from './ResultCard';
-import { CheckCircle2, CircleDashed, AlertCircle, FileText, Image as ImageIcon, Loader2, Layers, FileSpreadsheet } from 'lucide-react';
+import { EmbeddedMetadataInfo } from './EmbeddedMetadataInfo';
+import { QueueControls } from './QueueControls';
+import { ComplianceSummary } from './ComplianceSummary';
+import { ItemConfigModal } from './ItemConfigModal';
+import { BulkEditPanel } from './BulkEditPanel';
+import { BatchAnalyticsPanel } from './BatchAnalyticsPanel';
+import { DuplicateClustersPanel } from './DuplicateClustersPanel';
+import { PreflightReportPanel } from './PreflightReportPanel';
+import { AnalysisImageInfo } from './AnalysisImageInfo';
+import { EXPORT_PROFILES, buildCsvContent } from '../utils/exportProfiles';
+import { canEmbedMetadata, embedMetadataInJpeg } from '../utils/metadataWriter';
+import { createZip, ZipEntry } from '../utils/zipUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+import { lintKeywords, getBlockingIssues, KeywordLintIssue } from '../utils/keywordLinter';
+import { hasLivingBeings } from '../utils/contentPolicy';
+import { applyGenerationSettings, findMatchingPreset, isSameSettings, toGenerationSettings } from '../utils/configPresets';
+import { TARGET_MODEL_LABELS } from '../utils/promptTemplates';
+import { canUndo, canRedo } from '../utils/metadataHistory';
+import { findDuplicateClusters, isWaitingOnDuplicate, DuplicateCluster } from '../utils/nearDuplicates';
+import { isPreflightBlocked } from '../utils/preflight';
+import { summarizeAnalysisImages } from '../utils/analysisImage';
+import { AUTO_ASPECT_RATIO, resolveAspectRatio, withItemAspectRatio } from '../utils/aspectRatio';
+import { analyzeBatch, getFilteredItemIds, AnalyticsFilter } from '../utils/batchAnalytics';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../utils/i18n';
+import { CheckCircle2, CircleDashed, AlertCircle, FileText, Image as ImageIcon, Loader2, Layers, FileSpreadsheet, FileArchive, RotateCcw, PersonStanding, SlidersHorizontal, BarChart3, FilterX, Play } from 'lucide-react';
 
 interface BatchResultsProps {
   items: BatchItem[];
   activeItemId: string | null;
   onSelectItem: (id: string) => void;
   config: PromptConfig;
-  onUpdateItem: (id: string, data: StockMetadata) => void;
+  onUpdateItem: (id: string, data: StockMetadata, change?: MetadataChange) => void;
+  onUndoItem: (id: string) => void;
+  onRedoItem: (id: string) => void;
+  onRestoreVersion: (id: string, versionId: string) => void;
   onRefineItem: (id: string, instruction: string, newAspectRatio: string) => Promise<void>;
   isRefining: boolean;
+  isProcessing: boolean;
+  isPaused: boolean;
+  onResumePending: () => void;
+  onPauseQueue: () => void;
+  onResumeQueue: () => void;
+  onCancelQueue: () => void;
+  onRetryItem: (id: string) => void;
+  onRetryFailed: () => void;
+  queueSettings: QueueSettings;
+  onQueueSettingsChange: (settings: QueueSettings) => void;
+  onWaiveLintIssue: (id: string, issueKey: string) => void;
+  presets: ConfigPreset[];
+  onPresetsChange: (presets: ConfigPreset[]) => void;
+  onRerunItems: (ids: string[], settings: GenerationSettings) => void;
+  onBulkUpdate: (updates: BulkUpdate[]) => void;
+  onBulkRefine: (ids: string[], instruction: string, onProgress: (done: number) => void) => Promise<BulkRefineResult[]>;
+  vocabulary: KeywordVocabulary;
+  duplicateThreshold: number;
+  onDuplicateThresholdChange: (threshold: number) => void;
+  onRemoveItems: (ids: string[]) => void;
+  onResolveDuplicates: (ids: string[], decision: Exclude<DuplicateDecision, 'held'> | null) => void;
+  holdFailedPreflight: boolean;
+  onOverridePreflight: (ids: string[]) => void;
+  getAnalysisFile: (item: BatchItem) => Promise<File>;
 }
 
+const DENSITY_KEYS: Record<KeywordDensity, MessageKey> = {
+  low: 'config.densityLow',
+  standard: 'config.densityStandard',
+  high: 'config.densityHigh',
+};
+
 export const BatchResults: React.FC<BatchResultsProps> = ({
   items,
   activeItemId,
   onSelectItem,
   config,
   onUpdateItem,
+  onUndoItem,
+  onRedoItem,
+  onRestoreVersion,
   onRefineItem,
-  isRefining
+  isRefining,
+  isProcessing,
+  isPaused,
+  onResumePending,
+  onPauseQueue,
+  onResumeQueue,
+  onCancelQueue,
+  onRetryItem,
+  onRetryFailed,
+  queueSettings,
+  onQueueSettingsChange,
+  onWaiveLintIssue,
+  presets,
+  onPresetsChange,
+  onRerunItems,
+  onBulkUpdate,
+  onBulkRefine,
+  vocabulary,
+  duplicateThreshold,
+  onDuplicateThresholdChange,
+  onRemoveItems,
+  onResolveDuplicates,
+  holdFailedPreflight,
+  onOverridePreflight,
+  getAnalysisFile
 }) => {
+  const { t, locale } = useI18n();
   const activeItem = useMemo(() => 
     items.find(item => item.id === activeItemId) || items[0], 
     [items, activeItemId]
   );
 
+  // Items queued before settings were recorded fall back to the live config
+  const activeConfig = useMemo(() =>
+    activeItem?.config ? applyGenerationSettings(config, activeItem.config) : config,
+    [activeItem, config]
+  );
+  // What the card previews and refines with: the item's own ratio when the setting is auto
+  const activeItemConfig = useMemo(() => withItemAspectRatio(activeConfig, activeItem), [activeConfig, activeItem]);
+  const [overrideItemIds, setOverrideItemIds] = useState<string[] | null>(null);
+  const overrideConfig = useMemo(() => {
+    const first = overrideItemIds && items.find(item => item.id === overrideItemIds[0]);
+    return first?.config ? applyGenerationSettings(config, first.config) : config;
+  }, [overrideItemIds, items, config]);
+
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [analyticsFilter, setAnalyticsFilter] = useState<AnalyticsFilter | null>(null);
+  const analytics = useMemo(() => analyzeBatch(items), [items]);
+  const analysisImageSummary = useMemo(() => summarizeAnalysisImages(items), [items]);
+  const itemNames = useMemo(() => new Map<string, string>(items.map(item => [item.id, item.file.name])), [items]);
+  // The list shows only items matching the term clicked in the analytics panel
+  const visibleItems = useMemo(() => {
+    if (!analyticsFilter) return items;
+    const ids = new Set(getFilteredItemIds(analytics, analyticsFilter));
+    return items.filter(item => ids.has(item.id));
+  }, [items, analytics, analyticsFilter]);
+
+  // Multi-selection for bulk edits; independent of the item shown in detail
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const lastToggledId = useRef<string | null>(null);
+  const selectedItems = items.filter(item => selectedIds.includes(item.id));
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every(item => selectedIds.includes(item.id));
+  const someVisibleSelected = visibleItems.some(item => selectedIds.includes(item.id));
+
+  // Shift-click selects everything between the last toggled item and this one, as currently listed
+  const toggleSelected = (id: string, shiftKey: boolean) => {
+    const select = !selectedIds.includes(id);
+    let ids = [id];
+    if (shiftKey && lastToggledId.current) {
+      const from = visibleItems.findIndex(item => item.id === lastToggledId.current);
+      const to = visibleItems.findIndex(item => item.id === id);
+      if (from !== -1 && to !== -1) {
+        ids = visibleItems.slice(Math.min(from, to), Math.max(from, to) + 1).map(item => item.id);
+      }
+    }
+    lastToggledId.current = id;
+    setSelectedIds(prev => select
+      ? [...prev, ...ids.filter(i => !prev.includes(i))]
+      : prev.filter(i => !ids.includes(i)));
+  };
+
+  // Applies to the listed items only, so a filter can be turned into a selection
+  const toggleSelectAll = () => {
+    const visibleIds = visibleItems.map(item => item.id);
+    setSelectedIds(prev => allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : [...prev, ...visibleIds.filter(id => !prev.includes(id))]);
+  };
+
   const completedCount = items.filter(i => i.status === 'completed').length;
+  const pendingCount = items.filter(i => i.status === 'pending' && !isWaitingOnDuplicate(i) && !isPreflightBlocked(i, holdFailedPreflight)).length;
+  const preflightHeldIds = items.filter(i => i.status === 'pending' && isPreflightBlocked(i, holdFailedPreflight)).map(i => i.id);
 
-  const handleExportCSV = () => {
-    const completedItems = items.filter(i => i.status === 'completed' && i.data);
-    if (completedItems.length === 0) return;
-
-    const headers = ['Filename', 'Title', 'Description', 'Keywords', 'Category', 'AI Prompt', 'Technical Settings'];
-    const rows = completedItems.map(item => {
-      const d = item.data!;
-      // Escape quotes for CSV
-      const escape = (text: string) => `"${(text || '').replace(/"/g, '""')}"`;
-      
-      return [
-        escape(item.file.name),
-        escape(d.title),
-        escape(d.description),
-        escape(d.keywords.join(', ')),
-        escape(d.category),
-        escape(d.ai_prompt),
-        escape(d.technical_settings || '')
-      ].join(',');
+  const duplicateClusters = useMemo(() => findDuplicateClusters(items, duplicateThreshold), [items, duplicateThreshold]);
+  const hashedCount = items.filter(item => item.fingerprint).length;
+  const othersInCluster = (cluster: DuplicateCluster) => cluster.itemIds.filter(id => id !== cluster.bestId);
+
+  // Keeping the best one releases it if it was held along with the rest. Members that already
+  // have results are only deleted after asking; the others are skipped if the user says no
+  const handleKeepBest = (cluster: DuplicateCluster) => {
+    const others = items.filter(item => othersInCluster(cluster).includes(item.id));
+    const withResults = others.filter(item => item.data);
+    const removeAll = withResults.length === 0
+      || window.confirm(t('duplicates.keepBestConfirm', { count: withResults.length }));
+    const unstarted = others.filter(item => !item.data && item.status !== 'processing');
+    onRemoveItems((removeAll ? others.filter(item => item.status !== 'processing') : unstarted).map(item => item.id));
+    const running = others.filter(item => item.status === 'processing').map(item => item.id);
+    if (running.length > 0) onResolveDuplicates(running, 'skipped');
+    onResolveDuplicates([cluster.bestId], null);
+  };
+
+  // Running members are marked too, so they stop before their main request
+  const handleSkipRest = (cluster: DuplicateCluster) => {
+    onResolveDuplicates(othersInCluster(cluster).filter(id => {
+      const status = items.find(item => item.id === id)?.status;
+      return status === 'pending' || status === 'processing';
+    }), 'skipped');
+    onResolveDuplicates([cluster.bestId], null);
+  };
+  const errorCount = items.filter(i => i.status === 'error').length;
+
+  const [exportProfileId, setExportProfileId] = useState<ExportProfileId>('generic');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    editorial: false,
+    mature: false,
+    illustration: false,
+  });
+  const [isEmbedding, setIsEmbedding] = useState(false);
+  // Files left out of the last tagged ZIP, with the reason each one failed
+  const [taggedSkipped, setTaggedSkipped] = useState<{ name: string; reason: string }[]>([]);
+
+  // Lint messages are localized when the lint runs, so a locale switch re-runs it
+  const lintResults = useMemo(() => {
+    const results = new Map<string, KeywordLintIssue[]>();
+    items.forEach(item => {
+      if (item.status === 'completed' && item.data) {
+        results.set(item.id, lintKeywords(item.data, exportProfileId));
+      }
     });
+    return results;
+  }, [items, exportProfileId, locale]);
 
-    const csvContent = [headers.join(','), ...rows].join('\n');
+  const blockedCount = items.filter(item =>
+    getBlockingIssues(lintResults.get(item.id) || [], item.lintWaivers).length > 0
+  ).length;
+
+  const handleExportCSV = () => {
+    if (completedCount === 0 || blockedCount > 0) return;
+
+    const csvContent = buildCsvContent(items, exportProfileId, exportOptions);
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `stockprompt_export_${new Date().toISOString().slice(0, 10)}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `stockprompt_${exportProfileId}_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const taggableItems = items.filter(i => i.status === 'completed' && i.data && canEmbedMetadata(i.file));
+
+  const handleExportTaggedZip = async () => {
+    if (taggableItems.length === 0) return;
+    setIsEmbedding(true);
+    setTaggedSkipped([]);
+    try {
+      const entries: ZipEntry[] = [];
+      const skipped: { name: string; reason: string }[] = [];
+      const usedNames = new Set<string>();
+      for (const item of taggableItems) {
+        // One unreadable JPEG shouldn't cost the user the rest of the ZIP
+        let data: Uint8Array;
+        try {
+          const tagged = await embedMetadataInJpeg(item.file, item.data!);
+          data = new Uint8Array(await tagged.arrayBuffer());
+        } catch (e) {
+          console.error("Could not embed metadata", item.file.name, e);
+          skipped.push({ name: item.file.name, reason: e instanceof Error ? e.message : String(e) });
+          continue;
+        }
+        // Avoid collisions when several uploads share a file name
+        let name = item.file.name;
+        for (let n = 2; usedNames.has(name); n++) {
+          name = item.file.name.replace(/(\.[^.]+)?$/, `_${n}$1`);
+        }
+        usedNames.add(name);
+        entries.push({ name, data });
+      }
+      setTaggedSkipped(skipped);
+      if (entries.length > 0) {
+        downloadBlob(createZip(entries), `stockprompt_tagged_${new Date().toISOString().slice(0, 10)}.zip`);
+      }
+    } catch (e) {
+      console.error("Tagged export failed", e);
+    } finally {
+      setIsEmbedding(false);
+    }
+  };
+
+  const handleRerun = (settings: GenerationSettings) => {
+    if (overrideItemIds) onRerunItems(overrideItemIds, settings);
+    setOverrideItemIds(null);
+  };
+
+  const renderItemSettings = (item: BatchItem) => {
+    const settings = toGenerationSettings(activeConfig);
+    const preset = findMatchingPreset(presets, settings);
+    const isOverridden = !isSameSettings(settings, toGenerationSettings(config));
+
+    return (
+      <div className="mb-4 px-4 py-2.5 rounded-xl border border-slate-200 bg-white text-xs text-slate-600 flex flex-wrap items-center gap-2">
+        <SlidersHorizontal size={14} className="text-indigo-600 flex-shrink-0" />
+        <span className="font-semibold text-slate-700">{t('itemConfig.settings')}</span>
+        <span>
+          {TARGET_MODEL_LABELS[settings.targetModel] || settings.targetModel} · {settings.aspectRatio === AUTO_ASPECT_RATIO
+            ? t('aspect.autoDetected', { ratio: resolveAspectRatio(settings, item) })
+            : settings.aspectRatio} · {t(DENSITY_KEYS[settings.keywordDensity])}
+        </span>
+        {preset && (
+          <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 font-medium">{preset.name}</span>
+        )}
+        {isOverridden && (
+          <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 font-medium" title={t('itemConfig.differsTitle')}>
+            {t('itemConfig.differs')}
+          </span>
+        )}
+        <button
+          onClick={() => setOverrideItemIds([item.id])}
+          disabled={item.status === 'processing'}
+          className="ml-auto flex items-center gap-1 px-2.5 py-1.5 rounded-md border border-slate-200 font-medium text-slate-700 hover:border-indigo-200 hover:text-indigo-600 transition-colors disabled:opacity-50"
+        >
+          <RotateCcw size={12} />
+          {t('itemConfig.override')}
+        </button>
+      </div>
+    );
   };
 
   const getStatusIcon = (status: BatchItem['status']) => {
@@ -76,6 +328,29 @@ export const BatchResults: React.FC<BatchResultsProps> = ({
     return <ImageIcon size={16} />;
   };
 
+  const renderLintBadges = (item: BatchItem) => {
+    const issues = lintResults.get(item.id);
+    if (!issues) return null;
+    const errors = getBlockingIssues(issues, item.lintWaivers).length;
+    const warnings = issues.filter(issue => issue.severity === 'warning').length;
+    if (errors === 0 && warnings === 0) return null;
+
+    return (
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {errors > 0 && (
+          <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-100 text-red-600" title={t('batch.keywordErrors')}>
+            {errors}
+          </span>
+        )}
+        {warnings > 0 && (
+          <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-600" title={t('batch.keywordWarnings')}>
+            {warnings}
+          </span>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-in slide-in-from-bottom-8 duration-500">
       
@@ -85,52 +360,249 @@ export const BatchResults: React.FC<BatchResultsProps> = ({
           <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
             <h3 className="font-semibold text-slate-800 flex items-center gap-2">
               <Layers size={18} className="text-indigo-600" />
-              <span>File Queue ({items.length})</span>
+              <span>{t('batch.fileQueue', { count: items.length })}</span>
             </h3>
             {completedCount > 0 && (
+              <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowAnalytics(prev => !prev)}
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 border rounded-md text-xs font-medium transition-colors shadow-sm
+                  ${showAnalytics ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 hover:border-indigo-200 hover:text-indigo-600 text-slate-700'}
+                `}
+                title={t('analytics.openTitle')}
+              >
+                <BarChart3 size={14} />
+                <span className="hidden xl:inline">{t('analytics.open')}</span>
+              </button>
+              {taggableItems.length > 0 && (
+                <button 
+                  onClick={handleExportTaggedZip}
+                  disabled={isEmbedding}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 bg-white border border-slate-200 hover:border-indigo-200 hover:text-indigo-600 text-slate-700 rounded-md text-xs font-medium transition-colors shadow-sm disabled:opacity-50"
+                  title={t('batch.taggedTitle')}
+                >
+                  {isEmbedding ? <Loader2 size={14} className="animate-spin" /> : <FileArchive size={14} />}
+                  <span>{t('batch.tagged')}</span>
+                </button>
+              )}
               <button 
                 onClick={handleExportCSV}
-                className="flex items-center gap-1.5 px-2.5 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-md text-xs font-medium transition-colors shadow-sm"
-                title="Download all completed as CSV"
+                disabled={blockedCount > 0}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-md text-xs font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-green-600"
+                title={blockedCount > 0
+                  ? t('batch.csvBlocked', { count: blockedCount })
+                  : t('batch.csvTitle')}
               >
                 <FileSpreadsheet size={14} />
                 <span>CSV</span>
               </button>
+              </div>
             )}
           </div>
-          <div className="max-h-[600px] overflow-y-auto scrollbar-thin">
-            {items.map((item) => (
+          <QueueControls
+            isProcessing={isProcessing}
+            isPaused={isPaused}
+            pendingCount={pendingCount}
+            errorCount={errorCount}
+            settings={queueSettings}
+            onSettingsChange={onQueueSettingsChange}
+            onStartPending={onResumePending}
+            onPause={onPauseQueue}
+            onResume={onResumeQueue}
+            onCancel={onCancelQueue}
+            onRetryFailed={onRetryFailed}
+          />
+          {taggedSkipped.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-100 bg-amber-50 text-xs text-amber-800 flex items-start gap-2">
+              <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">
+                  {t('batch.taggedSkipped', { count: taggedSkipped.length })}
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {taggedSkipped.map((entry, index) => (
+                    <li key={index} className="truncate" title={entry.reason}>
+                      {entry.name} <span className="text-amber-600">— {entry.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
               <button
+                onClick={() => setTaggedSkipped([])}
+                className="text-amber-600 hover:text-amber-800 font-medium"
+              >
+                {t('common.close')}
+              </button>
+            </div>
+          )}
+          {preflightHeldIds.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-100">
+              <button
+                onClick={() => onOverridePreflight(preflightHeldIds)}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium bg-red-50 border border-red-200 text-red-700 hover:bg-red-100 transition-colors shadow-sm"
+                title={t('preflight.holdFailedHint')}
+              >
+                <Play size={14} />
+                {t('preflight.processAllHeld', { count: preflightHeldIds.length })}
+              </button>
+            </div>
+          )}
+          {config.inanimateOnly && <ComplianceSummary items={items} />}
+          {hashedCount > 1 && (
+            <DuplicateClustersPanel
+              clusters={duplicateClusters}
+              items={items}
+              threshold={duplicateThreshold}
+              onThresholdChange={onDuplicateThresholdChange}
+              onSelectItem={onSelectItem}
+              onKeepBest={handleKeepBest}
+              onSkipRest={handleSkipRest}
+              onProcessSeries={(cluster) => onResolveDuplicates(cluster.itemIds, 'series')}
+            />
+          )}
+          {completedCount > 0 && (
+            <div className="px-4 py-3 border-b border-slate-100 space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase block">{t('batch.exportProfile')}</label>
+              <select
+                value={exportProfileId}
+                onChange={(e) => setExportProfileId(e.target.value as ExportProfileId)}
+                className="w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2 cursor-pointer"
+              >
+                {EXPORT_PROFILES.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.id === 'generic' ? t('batch.genericProfile') : profile.label}</option>
+                ))}
+              </select>
+              {(exportProfileId === 'shutterstock' || exportProfileId === 'dreamstime') && (
+                <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+                  <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.editorial}
+                      onChange={(e) => setExportOptions({ ...exportOptions, editorial: e.target.checked })}
+                    />
+                    {t('batch.editorial')}
+                  </label>
+                  {exportProfileId === 'shutterstock' && (
+                    <>
+                      <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={exportOptions.mature}
+                          onChange={(e) => setExportOptions({ ...exportOptions, mature: e.target.checked })}
+                        />
+                        {t('batch.mature')}
+                      </label>
+                      <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={exportOptions.illustration}
+                          onChange={(e) => setExportOptions({ ...exportOptions, illustration: e.target.checked })}
+                        />
+                        {t('batch.illustration')}
+                      </label>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {analyticsFilter && (
+            <div className="px-4 py-2 border-b border-indigo-100 bg-indigo-50 flex items-center gap-2 text-xs text-indigo-800">
+              <span className="font-semibold truncate">
+                {analyticsFilter.kind === 'sparse'
+                  ? t('analytics.filter.sparse')
+                  : t(`analytics.filter.${analyticsFilter.kind}` as MessageKey, { value: analyticsFilter.value })}
+              </span>
+              <span className="text-indigo-600 flex-shrink-0">{t('analytics.filtered', { shown: visibleItems.length, total: items.length })}</span>
+              <button
+                onClick={() => setAnalyticsFilter(null)}
+                className="ml-auto text-indigo-400 hover:text-indigo-700 flex-shrink-0"
+                title={t('analytics.clearFilter')}
+              >
+                <FilterX size={14} />
+              </button>
+            </div>
+          )}
+          {visibleItems.length > 0 && (
+            <label className="px-4 py-2 border-b border-slate-100 flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                ref={(el) => { if (el) el.indeterminate = someVisibleSelected && !allVisibleSelected; }}
+                onChange={toggleSelectAll}
+              />
+              {selectedItems.length > 0 ? t('bulk.selected', { count: selectedItems.length }) : t('bulk.selectAll')}
+            </label>
+          )}
+          <div className="max-h-[600px] overflow-y-auto scrollbar-thin">
+            {visibleItems.map((item) => (
+              <div
                 key={item.id}
-                onClick={() => onSelectItem(item.id)}
-                className={`w-full text-left p-3 border-b border-slate-50 hover:bg-slate-50 transition-colors flex items-center gap-3
-                  ${activeItem?.id === item.id ? 'bg-indigo-50/60 border-indigo-100' : ''}
+                className={`flex items-stretch border-b border-slate-50 transition-colors
+                  ${activeItem?.id === item.id ? 'bg-indigo-50/60 border-indigo-100' : selectedIds.includes(item.id) ? 'bg-slate-50' : ''}
                 `}
               >
-                <div className={`
-                  w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0
-                  ${item.status === 'error' ? 'bg-red-50 text-red-500' : 'bg-slate-100 text-slate-500'}
-                `}>
-                  {getFileIcon(item.file.type)}
-                </div>
+                <label className="pl-3 flex items-center cursor-pointer" title={t('bulk.selectItem')}>
+                  {/* Checkbox changes come from a click, so the native event carries the shift key */}
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(item.id)}
+                    onChange={(e) => toggleSelected(item.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                  />
+                </label>
+                <button
+                  onClick={() => onSelectItem(item.id)}
+                  className="flex-1 min-w-0 text-left p-3 hover:bg-slate-50 transition-colors flex items-center gap-3"
+                >
+                  <div className={`
+                    w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0
+                    ${item.status === 'error' ? 'bg-red-50 text-red-500' : 'bg-slate-100 text-slate-500'}
+                  `}>
+                    {getFileIcon(item.file.type)}
+                  </div>
                 
-                <div className="flex-1 min-w-0">
-                  <p className={`text-sm font-medium truncate ${activeItem?.id === item.id ? 'text-indigo-900' : 'text-slate-700'}`}>
-                    {item.file.name}
-                  </p>
-                  <p className="text-xs text-slate-400 capitalize">
-                    {item.status === 'processing' ? 'Generating...' : item.status}
-                  </p>
-                </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium truncate ${activeItem?.id === item.id ? 'text-indigo-900' : 'text-slate-700'}`}>
+                      {item.file.name}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {item.status === 'processing'
+                        ? (item.attempts ? t('batch.retrying', { attempt: item.attempts, max: queueSettings.maxRetries }) : t('batch.generating'))
+                        : item.status === 'pending' && isWaitingOnDuplicate(item)
+                          ? t(item.duplicate === 'held' ? 'status.held' : 'status.skipped')
+                          : item.status === 'pending' && isPreflightBlocked(item, holdFailedPreflight)
+                            ? t('status.preflightFailed')
+                            : t(`status.${item.status}` as MessageKey)}
+                    </p>
+                  </div>
 
-                <div className="flex-shrink-0">
-                  {getStatusIcon(item.status)}
-                </div>
-              </button>
+                  {hasLivingBeings(item) && (
+                    <span
+                      className="flex-shrink-0 text-amber-500"
+                      title={t('batch.containsLiving', {
+                        subjects: item.livingBeings!.subjects.join(', ') || t(item.livingBeings!.people ? 'batch.people' : 'batch.animals'),
+                      })}
+                    >
+                      <PersonStanding size={14} />
+                    </span>
+                  )}
+                  {item.preflight && item.preflight.status !== 'pass' && (
+                    <span
+                      className={`flex-shrink-0 w-2 h-2 rounded-full ${item.preflight.status === 'fail' ? 'bg-red-500' : 'bg-amber-400'}`}
+                      title={t('preflight.badge', { status: t(item.preflight.status === 'fail' ? 'preflight.status.fail' : 'preflight.status.warn') })}
+                    />
+                  )}
+                  {renderLintBadges(item)}
+
+                  <div className="flex-shrink-0">
+                    {getStatusIcon(item.status)}
+                  </div>
+                </button>
+              </div>
             ))}
-            {items.length === 0 && (
+            {visibleItems.length === 0 && (
               <div className="p-8 text-center text-slate-400 text-sm">
-                No files in queue
+                {t(analyticsFilter ? 'analytics.noMatches' : 'batch.emptyQueue')}
               </div>
             )}
           </div>
@@ -139,49 +611,121 @@ export const BatchResults: React.FC<BatchResultsProps> = ({
 
       {/* Main Content Detail */}
       <div className="lg:col-span-8">
+        {showAnalytics && (
+          <BatchAnalyticsPanel
+            analytics={analytics}
+            itemNames={itemNames}
+            activeFilter={analyticsFilter}
+            onFilter={setAnalyticsFilter}
+            onClose={() => setShowAnalytics(false)}
+          />
+        )}
+        {selectedItems.length > 0 && (
+          <BulkEditPanel
+            items={selectedItems}
+            onApply={onBulkUpdate}
+            onRefinePreview={onBulkRefine}
+            onOverrideSettings={() => setOverrideItemIds(selectedItems.filter(item => item.status !== 'processing').map(item => item.id))}
+            onClearSelection={() => setSelectedIds([])}
+            disabled={isRefining}
+          />
+        )}
         {activeItem ? (
           <>
+            {activeItem.preflight && (
+              <PreflightReportPanel
+                report={activeItem.preflight}
+                onOverride={activeItem.status === 'pending' && isPreflightBlocked(activeItem, holdFailedPreflight) ? () => onOverridePreflight([activeItem.id]) : undefined}
+              />
+            )}
+            {activeItem.embedded && <EmbeddedMetadataInfo metadata={activeItem.embedded} />}
+            {activeItem.analysisImage && <AnalysisImageInfo stats={activeItem.analysisImage} summary={analysisImageSummary} />}
+            {renderItemSettings(activeItem)}
+            {config.inanimateOnly && hasLivingBeings(activeItem) && (
+              <div className="mb-4 px-4 py-3 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800 flex items-start gap-2">
+                <PersonStanding size={16} className="mt-0.5 flex-shrink-0" />
+                <span>
+                  {t('batch.livingBanner', { subjects: activeItem.livingBeings!.subjects.join(', ') || t('batch.peopleOrAnimals') })}
+                </span>
+              </div>
+            )}
             {activeItem.status === 'completed' && activeItem.data ? (
               <div key={activeItem.id} className="animate-in fade-in duration-300">
                 <ResultCard
                   data={activeItem.data}
-                  config={config}
-                  onUpdate={(newData) => onUpdateItem(activeItem.id, newData)}
+                  config={activeItemConfig}
+                  onUpdate={(newData, change) => onUpdateItem(activeItem.id, newData, change)}
+                  history={activeItem.history || []}
+                  historyIndex={activeItem.historyIndex}
+                  canUndo={canUndo(activeItem)}
+                  canRedo={canRedo(activeItem)}
+                  onUndo={() => onUndoItem(activeItem.id)}
+                  onRedo={() => onRedoItem(activeItem.id)}
+                  onRestoreVersion={(versionId) => onRestoreVersion(activeItem.id, versionId)}
                   onRefine={(instruction, ratio) => onRefineItem(activeItem.id, instruction, ratio)}
                   isRefining={isRefining}
                   file={activeItem.file}
+                  exportProfileId={exportProfileId}
+                  lintWaivers={activeItem.lintWaivers}
+                  onWaiveLint={(issueKey) => onWaiveLintIssue(activeItem.id, issueKey)}
+                  visibleLogos={activeItem.visibleLogos}
+                  vocabulary={vocabulary}
+                  getAnalysisFile={() => getAnalysisFile(activeItem)}
                 />
               </div>
             ) : activeItem.status === 'processing' ? (
               <div className="bg-white rounded-xl border border-slate-200 p-12 text-center h-[400px] flex flex-col items-center justify-center">
                  <Loader2 className="w-10 h-10 text-indigo-600 animate-spin mb-4" />
-                 <h3 className="text-lg font-semibold text-slate-800">Generating Metadata...</h3>
+                 <h3 className="text-lg font-semibold text-slate-800">{t('batch.generatingTitle')}</h3>
                  <p className="text-slate-500 max-w-xs mx-auto mt-2">
-                   Analyzing {activeItem.file.name} to create optimized stock assets.
+                   {t('batch.analyzing', { name: activeItem.file.name })}
                  </p>
+                 {activeItem.error && (
+                   <p className="text-xs text-amber-600 max-w-sm mx-auto mt-3">{activeItem.error}</p>
+                 )}
               </div>
             ) : activeItem.status === 'error' ? (
               <div className="bg-white rounded-xl border border-red-200 p-12 text-center h-[300px] flex flex-col items-center justify-center">
                 <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mb-4 text-red-600">
                   <AlertCircle size={24} />
                 </div>
-                <h3 className="text-lg font-semibold text-red-800">Processing Failed</h3>
+                <h3 className="text-lg font-semibold text-red-800">{t('batch.failedTitle')}</h3>
                 <p className="text-red-600 max-w-md mx-auto mt-2">
-                  {activeItem.error || "Unknown error occurred while processing this file."}
+                  {activeItem.error || t('batch.unknownError')}
                 </p>
+                <button
+                  onClick={() => onRetryItem(activeItem.id)}
+                  className="mt-4 flex items-center gap-1.5 px-4 py-2 bg-white border border-red-200 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 transition-colors"
+                >
+                  <RotateCcw size={14} />
+                  {t('common.retry')}
+                </button>
               </div>
             ) : (
-              <div className="bg-slate-50 border border-slate-200 border-dashed rounded-xl h-[300px] flex items-center justify-center text-slate-400">
-                Pending...
+              <div className="bg-slate-50 border border-slate-200 border-dashed rounded-xl h-[300px] flex items-center justify-center text-slate-400 text-center px-8">
+                {isWaitingOnDuplicate(activeItem)
+                  ? t(activeItem.duplicate === 'held' ? 'duplicates.heldBanner' : 'duplicates.skippedBanner')
+                  : t('batch.pending')}
               </div>
             )}
           </>
         ) : (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
-            <p className="text-slate-500">Select a file from the list to view details.</p>
+            <p className="text-slate-500">{t('batch.selectFile')}</p>
           </div>
         )}
       </div>
+
+      {overrideItemIds && (
+        <ItemConfigModal
+          itemCount={overrideItemIds.length}
+          initialConfig={overrideConfig}
+          presets={presets}
+          onPresetsChange={onPresetsChange}
+          onRun={handleRerun}
+          onClose={() => setOverrideItemIds(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { ListChecks, PencilLine, Sparkles, Eye, Check, X, Loader2, SlidersHorizontal, AlertCircle } from 'lucide-react';
+import { BatchItem, BulkRefineResult, BulkUpdate, MetadataChange } from '../types';
+import { BulkEditOperations, BulkEditPreview, BulkTextField, EMPTY_BULK_EDIT, applyBulkEdit, parseKeywordInput, previewBulkEdit } from '../utils/bulkEdit';
+import { diffMetadata } from '../utils/metadataHistory';
+import { MetadataDiffView } from './MetadataDiffView';
+import { useI18n } from './I18nProvider';
+
+interface BulkEditPanelProps {
+  items: BatchItem[];
+  onApply: (updates: BulkUpdate[]) => void;
+  onRefinePreview: (ids: string[], instruction: string, onProgress: (done: number) => void) => Promise<BulkRefineResult[]>;
+  onOverrideSettings: () => void;
+  onClearSelection: () => void;
+  disabled: boolean;
+}
+
+type BulkMode = 'edit' | 'refine';
+
+const FIND_FIELDS: BulkTextField[] = ['title', 'description', 'ai_prompt'];
+
+export const BulkEditPanel: React.FC<BulkEditPanelProps> = ({ items, onApply, onRefinePreview, onOverrideSettings, onClearSelection, disabled }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<BulkMode>('edit');
+  const [operations, setOperations] = useState<BulkEditOperations>(EMPTY_BULK_EDIT);
+  // Keyword inputs stay raw text until preview so typing a comma doesn't fight the parser
+  const [addInput, setAddInput] = useState('');
+  const [removeInput, setRemoveInput] = useState('');
+  const [instruction, setInstruction] = useState('');
+  const [preview, setPreview] = useState<BulkEditPreview[] | null>(null);
+  const [refineErrors, setRefineErrors] = useState<BulkRefineResult[]>([]);
+  const [refineProgress, setRefineProgress] = useState<number | null>(null);
+  // Files left out of the last apply because they were edited after the preview was made
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+
+  const editableItems = items.filter(item => item.status === 'completed' && item.data);
+  const itemNames = useMemo(() => new Map<string, string>(items.map(item => [item.id, item.file.name])), [items]);
+  const categories = Array.from(new Set(editableItems.map(item => item.data!.category).filter(Boolean)));
+
+  // Any edit to the form makes an existing preview stale
+  const updateOperations = (changes: Partial<BulkEditOperations>) => {
+    setOperations(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const toggleFindField = (field: BulkTextField) => {
+    updateOperations({
+      findFields: operations.findFields.includes(field)
+        ? operations.findFields.filter(f => f !== field)
+        : [...operations.findFields, field],
+    });
+  };
+
+  const switchMode = (next: BulkMode) => {
+    setMode(next);
+    setPreview(null);
+    setRefineErrors([]);
+    setSkippedIds([]);
+  };
+
+  const handlePreviewEdit = () => {
+    const ops = { ...operations, addKeywords: parseKeywordInput(addInput), removeKeywords: parseKeywordInput(removeInput) };
+    setOperations(ops);
+    setPreview(previewBulkEdit(editableItems, ops));
+    setSkippedIds([]);
+  };
+
+  const handlePreviewRefine = async () => {
+    if (!instruction.trim() || editableItems.length === 0) return;
+    setPreview(null);
+    setRefineErrors([]);
+    setSkippedIds([]);
+    setRefineProgress(0);
+    try {
+      const results = await onRefinePreview(editableItems.map(item => item.id), instruction.trim(), setRefineProgress);
+      const byId = new Map<string, BatchItem>(editableItems.map(item => [item.id, item]));
+      setPreview(results
+        .filter(result => result.data && byId.has(result.id))
+        .map(result => {
+          const before = byId.get(result.id)!.data!;
+          return { itemId: result.id, before, after: result.data!, diffs: diffMetadata(before, result.data!) };
+        })
+        .filter(entry => entry.diffs.length > 0));
+      setRefineErrors(results.filter(result => result.error));
+    } finally {
+      setRefineProgress(null);
+    }
+  };
+
+  // A file edited since the preview gets the edit operations re-run on its current data;
+  // a refine result was written from the old text, so that file is skipped instead
+  const handleApply = () => {
+    if (!preview || preview.length === 0) return;
+    const currentData = new Map<string, BatchItem['data']>(items.map(item => [item.id, item.data]));
+    const change: MetadataChange = mode === 'refine' ? { kind: 'refine', detail: instruction.trim() } : { kind: 'bulk' };
+    const updates: BulkUpdate[] = [];
+    const skipped: string[] = [];
+    preview.forEach(entry => {
+      const data = currentData.get(entry.itemId);
+      if (data === entry.before) {
+        updates.push({ id: entry.itemId, data: entry.after, change });
+      } else if (data && mode === 'edit') {
+        const after = applyBulkEdit(data, operations);
+        if (diffMetadata(data, after).length > 0) updates.push({ id: entry.itemId, data: after, change });
+      } else {
+        skipped.push(entry.itemId);
+      }
+    });
+    if (updates.length > 0) onApply(updates);
+    setSkippedIds(skipped);
+    setPreview(null);
+    setRefineErrors([]);
+    if (mode === 'refine') {
+      setInstruction('');
+    } else {
+      setOperations(EMPTY_BULK_EDIT);
+      setAddInput('');
+      setRemoveInput('');
+    }
+  };
+
+  const isRunning = refineProgress !== null;
+  const inputClass = "w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2 transition-colors";
+  const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-indigo-200 mb-6 overflow-hidden animate-in fade-in duration-300">
+      <div className="px-5 py-3 bg-indigo-50 border-b border-indigo-100 flex flex-wrap items-center gap-2">
+        <ListChecks size={18} className="text-indigo-600" />
+        <h3 className="font-semibold text-indigo-900">{t('bulk.title')}</h3>
+        <span className="text-xs text-indigo-700">
+          {t('bulk.selected', { count: items.length })}
+          {editableItems.length < items.length && ` · ${t('bulk.editable', { count: editableItems.length })}`}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={onOverrideSettings}
+            disabled={disabled || isRunning}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-md bg-white border border-indigo-200 text-xs font-medium text-indigo-700 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+          >
+            <SlidersHorizontal size={12} />
+            {t('itemConfig.override')}
+          </button>
+          <button onClick={onClearSelection} disabled={isRunning} className="text-indigo-400 hover:text-indigo-700 disabled:opacity-50" title={t('bulk.clearSelection')}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex border-b border-slate-100 text-sm">
+        {([['edit', PencilLine, t('bulk.editTab')], ['refine', Sparkles, t('bulk.refineTab')]] as const).map(([id, Icon, label]) => (
+          <button
+            key={id}
+            onClick={() => switchMode(id)}
+            disabled={isRunning}
+            className={`flex items-center gap-1.5 px-4 py-2.5 font-medium border-b-2 transition-colors
+              ${mode === id ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-slate-500 hover:text-slate-700'}
+            `}
+          >
+            <Icon size={14} />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-5 space-y-4">
+        {mode === 'edit' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('bulk.addKeywords')}</label>
+              <input
+                type="text"
+                value={addInput}
+                onChange={(e) => { setAddInput(e.target.value); setPreview(null); }}
+                placeholder={t('bulk.keywordsPlaceholder')}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('bulk.removeKeywords')}</label>
+              <input
+                type="text"
+                value={removeInput}
+                onChange={(e) => { setRemoveInput(e.target.value); setPreview(null); }}
+                placeholder={t('bulk.keywordsPlaceholder')}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('bulk.find')}</label>
+              <input type="text" value={operations.find} onChange={(e) => updateOperations({ find: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('bulk.replaceWith')}</label>
+              <input type="text" value={operations.replace} onChange={(e) => updateOperations({ replace: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-2 flex flex-wrap items-center gap-4 text-xs text-slate-600 -mt-2">
+              <span className="font-medium">{t('bulk.replaceIn')}</span>
+              {FIND_FIELDS.map(field => (
+                <label key={field} className="inline-flex items-center gap-1.5 cursor-pointer">
+                  <input type="checkbox" checked={operations.findFields.includes(field)} onChange={() => toggleFindField(field)} />
+                  {t(`history.field.${field}`)}
+                </label>
+              ))}
+              <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={operations.matchCase} onChange={(e) => updateOperations({ matchCase: e.target.checked })} />
+                {t('bulk.matchCase')}
+              </label>
+            </div>
+            <div>
+              <label className={labelClass}>{t('bulk.setCategory')}</label>
+              <input
+                type="text"
+                list="bulk-categories"
+                value={operations.category}
+                onChange={(e) => updateOperations({ category: e.target.value })}
+                placeholder={t('bulk.unchanged')}
+                className={inputClass}
+              />
+              <datalist id="bulk-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>{t('bulk.promptSuffix')}</label>
+              <input
+                type="text"
+                value={operations.promptSuffix}
+                onChange={(e) => updateOperations({ promptSuffix: e.target.value })}
+                placeholder={t('bulk.promptSuffixPlaceholder')}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <label className={labelClass}>{t('bulk.refineInstruction')}</label>
+            <textarea
+              value={instruction}
+              onChange={(e) => { setInstruction(e.target.value); setPreview(null); }}
+              disabled={isRunning}
+              rows={2}
+              placeholder={t('result.refinePlaceholder')}
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-500 mt-1">{t('bulk.refineHint', { count: editableItems.length })}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={mode === 'edit' ? handlePreviewEdit : handlePreviewRefine}
+            disabled={disabled || isRunning || editableItems.length === 0 || (mode === 'refine' && !instruction.trim())}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-indigo-200 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-50 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+            {isRunning
+              ? t('bulk.refining', { done: refineProgress!, total: editableItems.length })
+              : t('bulk.preview')}
+          </button>
+          {preview && (
+            <>
+              <span className="text-xs text-slate-500">{t('bulk.willChange', { count: preview.length })}</span>
+              <button
+                onClick={handleApply}
+                disabled={disabled || preview.length === 0}
+                className="ml-auto flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+              >
+                <Check size={16} />
+                {t('bulk.apply', { count: preview.length })}
+              </button>
+              <button
+                onClick={() => setPreview(null)}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+              >
+                {t('bulk.discard')}
+              </button>
+            </>
+          )}
+        </div>
+
+        {skippedIds.length > 0 && (
+          <div className="px-3 py-2 rounded-lg bg-amber-50 border border-amber-100 text-xs text-amber-800 space-y-1">
+            <p className="flex items-start gap-1.5">
+              <AlertCircle size={12} className="mt-0.5 flex-shrink-0" />
+              <span>{t('bulk.skippedChanged', { count: skippedIds.length })}</span>
+            </p>
+            <p className="pl-4 text-amber-700">{skippedIds.map(id => itemNames.get(id)).join(', ')}</p>
+          </div>
+        )}
+
+        {refineErrors.length > 0 && (
+          <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-700 space-y-1">
+            {refineErrors.map(result => (
+              <p key={result.id} className="flex items-start gap-1.5">
+                <AlertCircle size={12} className="mt-0.5 flex-shrink-0" />
+                <span><strong>{itemNames.get(result.id)}</strong>: {result.error}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {preview && preview.length > 0 && (
+          <div className="border border-slate-100 rounded-lg divide-y divide-slate-100 max-h-[480px] overflow-y-auto scrollbar-thin">
+            {preview.map(entry => (
+              <div key={entry.itemId} className="p-3 space-y-2">
+                <p className="text-sm font-semibold text-slate-800 truncate">{itemNames.get(entry.itemId)}</p>
+                <MetadataDiffView diffs={entry.diffs} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Mountain, PersonStanding, PawPrint, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { BatchItem } from '../types';
+import { getComplianceSummary } from '../utils/contentPolicy';
+import { useI18n } from './I18nProvider';
+
+interface ComplianceSummaryProps {
+  items: BatchItem[];
+}
+
+export const ComplianceSummary: React.FC<ComplianceSummaryProps> = ({ items }) => {
+  const { t } = useI18n();
+  const summary = getComplianceSummary(items);
+  if (summary.checked === 0 && summary.compliant + summary.promptViolations === 0) return null;
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-100 bg-emerald-50/40 space-y-2">
+      <div className="flex items-center gap-1.5 text-xs font-bold text-emerald-700 uppercase">
+        <Mountain size={14} />
+        {t('config.inanimateMode')}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="flex items-center gap-1.5 text-slate-600" title={t('compliance.peopleTitle')}>
+          <PersonStanding size={14} className={summary.withPeople > 0 ? 'text-amber-600' : 'text-slate-300'} />
+          {t('compliance.people')} <span className="font-semibold">{summary.withPeople}/{summary.checked}</span>
+        </div>
+        <div className="flex items-center gap-1.5 text-slate-600" title={t('compliance.animalsTitle')}>
+          <PawPrint size={14} className={summary.withAnimals > 0 ? 'text-amber-600' : 'text-slate-300'} />
+          {t('compliance.animals')} <span className="font-semibold">{summary.withAnimals}/{summary.checked}</span>
+        </div>
+        <div className="flex items-center gap-1.5 text-slate-600" title={t('compliance.compliantTitle')}>
+          <CheckCircle2 size={14} className="text-green-500" />
+          {t('compliance.compliant')} <span className="font-semibold">{summary.compliant}</span>
+        </div>
+        <div className="flex items-center gap-1.5 text-slate-600" title={t('compliance.violationsTitle')}>
+          <AlertTriangle size={14} className={summary.promptViolations > 0 ? 'text-red-500' : 'text-slate-300'} />
+          {t('compliance.violations')} <span className="font-semibold">{summary.promptViolations}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
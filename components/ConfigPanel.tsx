@@ -1,68 +1,202 @@
-import React from 'react';
-import { Settings, Cpu, Ratio, Camera, Hash } from 'lucide-react';
-import { PromptConfig } from '../types';
+import React, { useState } from 'react';
+import { Settings, Cpu, Ratio, Camera, Hash, Server, KeyRound, ShieldCheck, Mountain, FileCode2, SlidersHorizontal, Languages } from 'lucide-react';
+import { PromptConfig, ProviderConfig, ProviderId, TargetModel, ModelParameters, MetadataLanguage, ConfigPreset, IdeogramStyle, MagicPromptMode, PersonGeneration } from '../types';
+import { PROVIDER_DEFAULTS } from '../services/providers';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { PresetBar } from './PresetBar';
+import { TARGET_MODEL_LABELS } from '../utils/promptTemplates';
+import {
+  SD_SAMPLERS,
+  IDEOGRAM_STYLE_LABELS,
+  MAGIC_PROMPT_LABELS,
+  PERSON_GENERATION_LABELS,
+  LEONARDO_PRESETS,
+  formatModelParameters,
+  getModelFamily,
+  hasNativeParameters,
+} from '../utils/modelParameters';
+import { ALL_METADATA_LANGUAGES, METADATA_LANGUAGES } from '../utils/languages';
+import { AUTO_ASPECT_RATIO, PRESET_ASPECT_RATIOS, isValidAspectRatio, resolveAspectRatio } from '../utils/aspectRatio';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../utils/i18n';
 
 interface ConfigPanelProps {
   config: PromptConfig;
   onChange: (config: PromptConfig) => void;
   disabled: boolean;
+  presets?: ConfigPreset[];
+  onPresetsChange?: (presets: ConfigPreset[]) => void;
+  // Per-item overrides only cover generation settings; the provider stays global
+  hideProvider?: boolean;
 }
 
-export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disabled }) => {
+// Select value that reveals the free-form w:h input; never stored in the config
+const CUSTOM_RATIO_OPTION = 'custom';
+
+export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disabled, presets, onPresetsChange, hideProvider = false }) => {
+  const { t } = useI18n();
+  const [isEditingTemplates, setIsEditingTemplates] = useState(false);
+  const isCustomRatio = config.aspectRatio !== AUTO_ASPECT_RATIO && !PRESET_ASPECT_RATIOS.includes(config.aspectRatio);
+  const [isTypingRatio, setIsTypingRatio] = useState(false);
+  const [customRatioDraft, setCustomRatioDraft] = useState('');
+  // A preset can bring in a custom ratio too, so the input also opens for that
+  const showCustomRatio = isTypingRatio || isCustomRatio;
+  const ratioDraft = isTypingRatio ? customRatioDraft : config.aspectRatio;
+
   const handleChange = (key: keyof PromptConfig, value: any) => {
     onChange({ ...config, [key]: value });
   };
 
+  const handleParamChange = <K extends keyof ModelParameters>(key: K, value: ModelParameters[K]) => {
+    onChange({ ...config, modelParams: { ...config.modelParams, [key]: value } });
+  };
+
+  // Keep the canonical order so prompts and CSV columns don't depend on click order
+  const toggleLanguage = (lang: MetadataLanguage) => {
+    const next = config.targetLanguages.includes(lang)
+      ? config.targetLanguages.filter(l => l !== lang)
+      : ALL_METADATA_LANGUAGES.filter(l => l === lang || config.targetLanguages.includes(l));
+    handleChange('targetLanguages', next);
+  };
+
+  const modelFamily = getModelFamily(config.targetModel);
+  // With auto the real ratio differs per image; the preview shows the fallback one
+  const parameterPreview = formatModelParameters({ ...config, aspectRatio: resolveAspectRatio(config) });
+
+  const handleAspectRatioSelect = (value: string) => {
+    if (value === CUSTOM_RATIO_OPTION) {
+      setCustomRatioDraft(isCustomRatio ? config.aspectRatio : '');
+      setIsTypingRatio(true);
+      return;
+    }
+    setIsTypingRatio(false);
+    handleChange('aspectRatio', value);
+  };
+
+  // The config only takes well-formed ratios; the draft keeps whatever is being typed
+  const handleCustomRatioChange = (value: string) => {
+    setCustomRatioDraft(value);
+    setIsTypingRatio(true);
+    if (isValidAspectRatio(value)) handleChange('aspectRatio', value.replace(/\s/g, ''));
+  };
+
+  const handleProviderChange = (key: keyof ProviderConfig, value: string) => {
+    onChange({ ...config, provider: { ...config.provider, [key]: value } });
+  };
+
+  // Switching provider resets model/URL to that provider's defaults
+  const handleProviderSelect = (id: ProviderId) => {
+    const { label, isLocal, ...defaults } = PROVIDER_DEFAULTS[id];
+    onChange({ ...config, provider: { ...defaults, apiKey: id === config.provider.provider ? config.provider.apiKey : '' } });
+  };
+
+  const isLocalProvider = PROVIDER_DEFAULTS[config.provider.provider].isLocal
+    || /^https?:\/\/(localhost|127\.0\.0\.1)/.test(config.provider.baseUrl || '');
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 transition-colors";
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5 mb-6 animate-in fade-in slide-in-from-bottom-4">
       <div className="flex items-center gap-2 mb-4 pb-3 border-b border-slate-100">
         <Settings size={18} className="text-indigo-600" />
-        <h3 className="font-semibold text-slate-800">Konfigurasi Generasi</h3>
+        <h3 className="font-semibold text-slate-800">{t('config.title')}</h3>
+        <label
+          className="ml-auto inline-flex items-center cursor-pointer group"
+          title={t('config.inanimateHint')}
+        >
+          <input
+            type="checkbox"
+            checked={config.inanimateOnly}
+            onChange={(e) => handleChange('inanimateOnly', e.target.checked)}
+            disabled={disabled}
+            className="sr-only peer"
+          />
+          <div className="relative w-9 h-5 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-emerald-600"></div>
+          <span className="ms-2 text-xs font-medium text-slate-600 group-hover:text-slate-900 flex items-center gap-1">
+            <Mountain size={12} /> {t('config.inanimateMode')}
+          </span>
+        </label>
       </div>
+
+      {presets && onPresetsChange && (
+        <PresetBar config={config} onChange={onChange} presets={presets} onPresetsChange={onPresetsChange} disabled={disabled} />
+      )}
       
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
         {/* Model Selection */}
         <div className="space-y-2">
-          <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
-            <Cpu size={14} /> Target AI Model
-          </label>
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+              <Cpu size={14} /> {t('config.targetModel')}
+            </label>
+            <button
+              onClick={() => setIsEditingTemplates(true)}
+              disabled={disabled}
+              className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline disabled:opacity-50"
+              title={t('config.editTemplates')}
+            >
+              <FileCode2 size={12} />
+              {t('config.template')}{config.promptTemplates[config.targetModel] !== undefined ? ' •' : ''}
+            </button>
+          </div>
           <select
             value={config.targetModel}
             onChange={(e) => handleChange('targetModel', e.target.value)}
             disabled={disabled}
             className="w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 transition-colors cursor-pointer hover:bg-slate-50"
           >
-            <option value="midjourney">Midjourney v6</option>
-            <option value="stable_diffusion">Stable Diffusion XL</option>
-            <option value="firefly">Adobe Firefly 3</option>
-            <option value="dalle">DALL-E 3</option>
+            {(Object.keys(TARGET_MODEL_LABELS) as TargetModel[]).map(model => (
+              <option key={model} value={model}>{TARGET_MODEL_LABELS[model]}</option>
+            ))}
           </select>
         </div>
 
         {/* Aspect Ratio */}
         <div className="space-y-2">
           <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
-            <Ratio size={14} /> Aspect Ratio
+            <Ratio size={14} /> {t('config.aspectRatio')}
           </label>
           <select
-            value={config.aspectRatio}
-            onChange={(e) => handleChange('aspectRatio', e.target.value)}
+            value={showCustomRatio ? CUSTOM_RATIO_OPTION : config.aspectRatio}
+            onChange={(e) => handleAspectRatioSelect(e.target.value)}
             disabled={disabled}
             className="w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 transition-colors cursor-pointer hover:bg-slate-50"
           >
-            <option value="1:1">1:1 (Square)</option>
-            <option value="16:9">16:9 (Cinematic)</option>
-            <option value="4:3">4:3 (Standard)</option>
-            <option value="3:2">3:2 (Classic Photo)</option>
-            <option value="2:3">2:3 (Portrait)</option>
-            <option value="9:16">9:16 (Story)</option>
+            <option value={AUTO_ASPECT_RATIO}>{t('aspect.auto')}</option>
+            <option value="1:1">1:1 ({t('aspect.square')})</option>
+            <option value="16:9">16:9 ({t('aspect.cinematic')})</option>
+            <option value="4:3">4:3 ({t('aspect.standard')})</option>
+            <option value="3:2">3:2 ({t('aspect.classicPhoto')})</option>
+            <option value="2:3">2:3 ({t('aspect.portrait')})</option>
+            <option value="9:16">9:16 ({t('aspect.story')})</option>
+            <option value={CUSTOM_RATIO_OPTION}>{t('aspect.custom')}</option>
           </select>
+          {showCustomRatio && (
+            <>
+              <input
+                type="text"
+                value={ratioDraft}
+                onChange={(e) => handleCustomRatioChange(e.target.value)}
+                disabled={disabled}
+                placeholder={t('aspect.customPlaceholder')}
+                className={`w-full bg-slate-50 border text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 font-mono
+                  ${ratioDraft && !isValidAspectRatio(ratioDraft) ? 'border-red-300' : 'border-slate-200'}
+                `}
+              />
+              {ratioDraft && !isValidAspectRatio(ratioDraft) && (
+                <p className="text-xs text-red-600">{t('aspect.customInvalid')}</p>
+              )}
+            </>
+          )}
+          {config.aspectRatio === AUTO_ASPECT_RATIO && !showCustomRatio && (
+            <p className="text-xs text-slate-500">{t('aspect.autoHint', { model: TARGET_MODEL_LABELS[config.targetModel] })}</p>
+          )}
         </div>
 
         {/* Keyword Density */}
         <div className="space-y-2">
           <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
-            <Hash size={14} /> Keyword Density
+            <Hash size={14} /> {t('config.keywordDensity')}
           </label>
           <select
             value={config.keywordDensity}
@@ -70,16 +204,16 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
             disabled={disabled}
             className="w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 transition-colors cursor-pointer hover:bg-slate-50"
           >
-            <option value="low">Low (15-20 tags)</option>
-            <option value="standard">Standard (30-40 tags)</option>
-            <option value="high">High (50+ tags)</option>
+            <option value="low">{t('config.densityLow')}</option>
+            <option value="standard">{t('config.densityStandard')}</option>
+            <option value="high">{t('config.densityHigh')}</option>
           </select>
         </div>
 
         {/* Technical Settings */}
         <div className="space-y-2">
            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
-            <Camera size={14} /> Detail Teknis
+            <Camera size={14} /> {t('config.technical')}
           </label>
           <div className="flex items-center h-[42px] px-1">
              <label className="inline-flex items-center cursor-pointer group">
@@ -91,11 +225,334 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
                 className="sr-only peer"
               />
               <div className="relative w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600 group-hover:peer-checked:bg-indigo-700"></div>
-              <span className="ms-3 text-sm font-medium text-slate-700 group-hover:text-slate-900">Include Specs</span>
+              <span className="ms-3 text-sm font-medium text-slate-700 group-hover:text-slate-900">{t('config.includeSpecs')}</span>
             </label>
           </div>
         </div>
       </div>
+
+      {/* Native Model Parameters */}
+      {hasNativeParameters(config.targetModel) && (
+        <div className="mt-6 pt-5 border-t border-slate-100 space-y-3">
+          <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+            <SlidersHorizontal size={14} /> {t('config.parameters', { model: TARGET_MODEL_LABELS[config.targetModel] })}
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {modelFamily === 'midjourney' && (
+              <>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.stylize', { value: config.modelParams.stylize })}</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1000}
+                    step={25}
+                    value={config.modelParams.stylize}
+                    onChange={(e) => handleParamChange('stylize', Number(e.target.value))}
+                    disabled={disabled}
+                    className="w-full accent-indigo-600"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.chaos', { value: config.modelParams.chaos })}</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={config.modelParams.chaos}
+                    onChange={(e) => handleParamChange('chaos', Number(e.target.value))}
+                    disabled={disabled}
+                    className="w-full accent-indigo-600"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.exclude')}</span>
+                  <input
+                    type="text"
+                    value={config.modelParams.exclude}
+                    onChange={(e) => handleParamChange('exclude', e.target.value)}
+                    disabled={disabled}
+                    placeholder="text, watermark"
+                    className={inputClass}
+                  />
+                </div>
+                <label className="inline-flex items-center gap-2 cursor-pointer text-sm text-slate-700 self-end pb-2.5">
+                  <input
+                    type="checkbox"
+                    checked={config.modelParams.styleRaw}
+                    onChange={(e) => handleParamChange('styleRaw', e.target.checked)}
+                    disabled={disabled}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  --style raw
+                </label>
+              </>
+            )}
+            {modelFamily === 'stable_diffusion' && (
+              <>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.sampler')}</span>
+                  <select
+                    value={config.modelParams.sampler}
+                    onChange={(e) => handleParamChange('sampler', e.target.value)}
+                    disabled={disabled}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {SD_SAMPLERS.map(sampler => <option key={sampler} value={sampler}>{sampler}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.cfgScale', { value: config.modelParams.cfgScale })}</span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={20}
+                    step={0.5}
+                    value={config.modelParams.cfgScale}
+                    onChange={(e) => handleParamChange('cfgScale', Number(e.target.value))}
+                    disabled={disabled}
+                    className="w-full accent-indigo-600"
+                  />
+                </div>
+              </>
+            )}
+            {modelFamily === 'flux' && (
+              <div className="space-y-2">
+                <span className="text-xs text-slate-500">{t('config.guidance', { value: config.modelParams.guidance })}</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  value={config.modelParams.guidance}
+                  onChange={(e) => handleParamChange('guidance', Number(e.target.value))}
+                  disabled={disabled}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+            )}
+            {config.targetModel === 'ideogram' && (
+              <>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.ideogramStyle')}</span>
+                  <select
+                    value={config.modelParams.ideogramStyle}
+                    onChange={(e) => handleParamChange('ideogramStyle', e.target.value as IdeogramStyle)}
+                    disabled={disabled}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {(Object.keys(IDEOGRAM_STYLE_LABELS) as IdeogramStyle[]).map(style => (
+                      <option key={style} value={style}>{t(`config.ideogramStyle.${style}` as MessageKey)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.magicPrompt')}</span>
+                  <select
+                    value={config.modelParams.magicPrompt}
+                    onChange={(e) => handleParamChange('magicPrompt', e.target.value as MagicPromptMode)}
+                    disabled={disabled}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {(Object.keys(MAGIC_PROMPT_LABELS) as MagicPromptMode[]).map(mode => (
+                      <option key={mode} value={mode}>{t(`config.magicPrompt.${mode}` as MessageKey)}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+            {config.targetModel === 'imagen' && (
+              <>
+                <div className="space-y-2">
+                  <span className="text-xs text-slate-500">{t('config.personGeneration')}</span>
+                  <select
+                    value={config.modelParams.personGeneration}
+                    onChange={(e) => handleParamChange('personGeneration', e.target.value as PersonGeneration)}
+                    disabled={disabled}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {(Object.keys(PERSON_GENERATION_LABELS) as PersonGeneration[]).map(mode => (
+                      <option key={mode} value={mode}>{t(`config.personGeneration.${mode}` as MessageKey)}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="inline-flex items-center gap-2 cursor-pointer text-sm text-slate-700 self-end pb-2.5">
+                  <input
+                    type="checkbox"
+                    checked={config.modelParams.enhancePrompt}
+                    onChange={(e) => handleParamChange('enhancePrompt', e.target.checked)}
+                    disabled={disabled}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {t('config.enhancePrompt')}
+                </label>
+              </>
+            )}
+            {config.targetModel === 'leonardo' && (
+              <div className="space-y-2">
+                <span className="text-xs text-slate-500">{t('config.leonardoPreset')}</span>
+                <select
+                  value={config.modelParams.leonardoPreset}
+                  onChange={(e) => handleParamChange('leonardoPreset', e.target.value)}
+                  disabled={disabled}
+                  className={`${inputClass} cursor-pointer`}
+                >
+                  {LEONARDO_PRESETS.map(preset => (
+                    <option key={preset} value={preset}>{t(`config.leonardoPreset.${preset.toLowerCase().replace(/\s+/g, '_')}` as MessageKey)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {(modelFamily === 'stable_diffusion' || modelFamily === 'flux') && (
+              <div className="space-y-2">
+                <span className="text-xs text-slate-500">{t('config.steps')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={150}
+                  value={config.modelParams.steps}
+                  onChange={(e) => handleParamChange('steps', Math.max(1, Number(e.target.value) || 1))}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 font-mono bg-slate-50 px-3 py-2 rounded-lg border border-slate-100">{parameterPreview}</p>
+        </div>
+      )}
+
+      {/* Localized Metadata */}
+      <div className="mt-6 pt-5 border-t border-slate-100 space-y-3">
+        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+          <Languages size={14} /> {t('config.translations')}
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="px-3 py-1.5 rounded-full text-xs font-semibold bg-indigo-600 text-white" title={t('config.englishMaster')}>
+            English
+          </span>
+          {ALL_METADATA_LANGUAGES.map(lang => {
+            const active = config.targetLanguages.includes(lang);
+            return (
+              <button
+                key={lang}
+                onClick={() => toggleLanguage(lang)}
+                disabled={disabled}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-50
+                  ${active ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'}
+                `}
+              >
+                {METADATA_LANGUAGES[lang].label}
+              </button>
+            );
+          })}
+        </div>
+        {config.targetLanguages.length > 0 && (
+          <p className="text-xs text-slate-500">{t('config.translationsHint')}</p>
+        )}
+      </div>
+
+      {/* Model Provider */}
+      {!hideProvider && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mt-6 pt-5 border-t border-slate-100">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+              <Server size={14} /> {t('config.provider')}
+            </label>
+            <select
+              value={config.provider.provider}
+              onChange={(e) => handleProviderSelect(e.target.value as ProviderId)}
+              disabled={disabled}
+              className={`${inputClass} cursor-pointer`}
+            >
+              {(Object.keys(PROVIDER_DEFAULTS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_DEFAULTS[id].label}</option>
+              ))}
+            </select>
+            {isLocalProvider && (
+              <p className="text-xs text-green-700 flex items-center gap-1">
+                <ShieldCheck size={12} /> {t('config.filesStayLocal')}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+              <Cpu size={14} /> {t('config.visionModel')}
+            </label>
+            <input
+              type="text"
+              value={config.provider.model}
+              onChange={(e) => handleProviderChange('model', e.target.value)}
+              disabled={disabled}
+              placeholder={PROVIDER_DEFAULTS[config.provider.provider].model}
+              className={inputClass}
+            />
+          </div>
+
+          {config.provider.provider !== 'gemini' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+                <Server size={14} /> Base URL
+              </label>
+              <input
+                type="text"
+                value={config.provider.baseUrl || ''}
+                onChange={(e) => handleProviderChange('baseUrl', e.target.value)}
+                disabled={disabled}
+                placeholder={PROVIDER_DEFAULTS[config.provider.provider].baseUrl}
+                className={inputClass}
+                title={t('config.baseUrlHint')}
+              />
+            </div>
+          )}
+
+          {config.provider.provider === 'openai_compatible' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+                <Cpu size={14} /> {t('config.imageModel')}
+              </label>
+              <input
+                type="text"
+                value={config.provider.imageModel || ''}
+                onChange={(e) => handleProviderChange('imageModel', e.target.value)}
+                disabled={disabled}
+                placeholder={t('config.imageModelPlaceholder')}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {config.provider.provider !== 'ollama' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5">
+                <KeyRound size={14} /> API Key
+              </label>
+              <input
+                type="password"
+                value={config.provider.apiKey || ''}
+                onChange={(e) => handleProviderChange('apiKey', e.target.value)}
+                disabled={disabled}
+                placeholder={config.provider.provider === 'gemini' ? 'Default: GEMINI_API_KEY' : 'sk-...'}
+                className={inputClass}
+                autoComplete="off"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {isEditingTemplates && (
+        <PromptTemplateEditor
+          config={config}
+          onSave={(templates) => {
+            handleChange('promptTemplates', templates);
+            setIsEditingTemplates(false);
+          }}
+          onClose={() => setIsEditingTemplates(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
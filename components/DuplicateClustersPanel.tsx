@@ -0,0 +1,132 @@
+import React from 'react';
+import { Images, Crown, Trash2, SkipForward, GalleryHorizontal } from 'lucide-react';
+import { BatchItem } from '../types';
+import { DuplicateCluster, MAX_DUPLICATE_THRESHOLD } from '../utils/nearDuplicates';
+import { useI18n } from './I18nProvider';
+
+interface DuplicateClustersPanelProps {
+  clusters: DuplicateCluster[];
+  items: BatchItem[];
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onSelectItem: (id: string) => void;
+  onKeepBest: (cluster: DuplicateCluster) => void;
+  onSkipRest: (cluster: DuplicateCluster) => void;
+  onProcessSeries: (cluster: DuplicateCluster) => void;
+}
+
+export const DuplicateClustersPanel: React.FC<DuplicateClustersPanelProps> = ({
+  clusters,
+  items,
+  threshold,
+  onThresholdChange,
+  onSelectItem,
+  onKeepBest,
+  onSkipRest,
+  onProcessSeries,
+}) => {
+  const { t } = useI18n();
+  const byId = new Map<string, BatchItem>(items.map(item => [item.id, item]));
+  // Clusters still waiting for a decision come first
+  const sorted = clusters
+    .map(cluster => ({ cluster, members: cluster.itemIds.map(id => byId.get(id)!).filter(Boolean) }))
+    .map(entry => ({ ...entry, heldCount: entry.members.filter(item => item.duplicate === 'held').length }))
+    .sort((a, b) => b.heldCount - a.heldCount);
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-100 space-y-2">
+      <div className="flex items-center gap-1.5 text-xs font-bold text-slate-500 uppercase">
+        <Images size={14} className="text-indigo-600" />
+        {t('duplicates.title')}
+        <span className="ml-auto font-normal normal-case text-slate-400">{t('duplicates.clusters', { count: clusters.length })}</span>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-slate-600" title={t('duplicates.thresholdHint')}>
+        <span className="flex-shrink-0">{t('duplicates.threshold')}</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_DUPLICATE_THRESHOLD}
+          value={threshold}
+          onChange={(e) => onThresholdChange(Number(e.target.value))}
+          className="flex-1 accent-indigo-600"
+        />
+        <span className="w-6 text-right font-mono">{threshold}</span>
+      </label>
+
+      {sorted.length === 0 ? (
+        <p className="text-xs text-slate-400">{t('duplicates.none')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-[280px] overflow-y-auto scrollbar-thin">
+          {sorted.map(({ cluster, members, heldCount }) => {
+            const isSeries = members.every(item => item.duplicate === 'series' || item.id === cluster.bestId);
+            // Only members that haven't been generated yet can still be skipped
+            const skippable = members.some(item => item.id !== cluster.bestId && item.status === 'pending' && item.duplicate !== 'skipped');
+            return (
+              <li
+                key={cluster.itemIds.join('|')}
+                className={`rounded-lg border p-2 text-xs ${heldCount > 0 ? 'border-amber-200 bg-amber-50/60' : 'border-slate-200 bg-slate-50'}`}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-semibold text-slate-700">{t('duplicates.similar', { count: members.length })}</span>
+                  {heldCount > 0 ? (
+                    <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 font-medium">{t('duplicates.waiting', { count: heldCount })}</span>
+                  ) : isSeries && (
+                    <span className="px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 font-medium">{t('duplicates.series')}</span>
+                  )}
+                </div>
+                <ul className="mb-2">
+                  {members.map(item => (
+                    <li key={item.id}>
+                      <button
+                        onClick={() => onSelectItem(item.id)}
+                        className="w-full flex items-center gap-1.5 text-left py-0.5 text-slate-600 hover:text-indigo-700"
+                      >
+                        {item.id === cluster.bestId
+                          ? <Crown size={12} className="text-amber-500 flex-shrink-0" />
+                          : <span className="w-3 flex-shrink-0" />}
+                        <span className="truncate">{item.file.name}</span>
+                        {item.fingerprint && (
+                          <span className="ml-auto text-slate-400 flex-shrink-0">{item.fingerprint.width}×{item.fingerprint.height}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-1.5">
+                  <button
+                    onClick={() => onKeepBest(cluster)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-slate-200 font-medium text-slate-700 hover:border-red-200 hover:text-red-600 transition-colors"
+                    title={t('duplicates.keepBestTitle')}
+                  >
+                    <Trash2 size={12} />
+                    {t('duplicates.keepBest')}
+                  </button>
+                  {skippable && (
+                    <button
+                      onClick={() => onSkipRest(cluster)}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-slate-200 font-medium text-slate-700 hover:border-indigo-200 hover:text-indigo-600 transition-colors"
+                      title={t('duplicates.skipRestTitle')}
+                    >
+                      <SkipForward size={12} />
+                      {t('duplicates.skipRest')}
+                    </button>
+                  )}
+                  {!isSeries && (
+                    <button
+                      onClick={() => onProcessSeries(cluster)}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-slate-200 font-medium text-slate-700 hover:border-indigo-200 hover:text-indigo-600 transition-colors"
+                      title={t('duplicates.seriesTitle')}
+                    >
+                      <GalleryHorizontal size={12} />
+                      {t('duplicates.processSeries')}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
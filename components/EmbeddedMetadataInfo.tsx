@@ -0,0 +1,56 @@
+import React from 'react';
+import { FileSearch, Camera, MapPin, Tag } from 'lucide-react';
+import { EmbeddedMetadata } from '../types';
+import { formatExposure } from '../utils/metadataReader';
+import { useI18n } from './I18nProvider';
+
+interface EmbeddedMetadataInfoProps {
+  metadata: EmbeddedMetadata;
+}
+
+export const EmbeddedMetadataInfo: React.FC<EmbeddedMetadataInfoProps> = ({ metadata }) => {
+  const { t } = useI18n();
+  const exposure = metadata.exposure ? formatExposure(metadata.exposure) : '';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-6">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center gap-2">
+        <FileSearch size={18} className="text-indigo-600" />
+        <h3 className="font-semibold text-slate-800">{t('embedded.title')}</h3>
+        <span className="text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-medium ml-auto">
+          EXIF / IPTC / XMP
+        </span>
+      </div>
+      <div className="p-4 space-y-2 text-xs text-slate-600">
+        {metadata.title && (
+          <p><span className="font-bold text-slate-500 uppercase mr-2">{t('common.title')}</span>{metadata.title}</p>
+        )}
+        {metadata.description && (
+          <p><span className="font-bold text-slate-500 uppercase mr-2">{t('common.description')}</span>{metadata.description}</p>
+        )}
+        {exposure && (
+          <p className="flex items-center gap-1.5">
+            <Camera size={14} className="text-slate-400" />
+            <span>{exposure}</span>
+          </p>
+        )}
+        {metadata.gps && (
+          <p className="flex items-center gap-1.5">
+            <MapPin size={14} className="text-slate-400" />
+            <span>{metadata.gps.latitude.toFixed(5)}, {metadata.gps.longitude.toFixed(5)}</span>
+          </p>
+        )}
+        {metadata.keywords.length > 0 && (
+          <div className="flex items-start gap-1.5">
+            <Tag size={14} className="text-slate-400 mt-0.5 flex-shrink-0" />
+            <div className="flex flex-wrap gap-1">
+              {metadata.keywords.map((keyword, idx) => (
+                <span key={idx} className="px-1.5 py-0.5 rounded bg-slate-100 border border-slate-200">{keyword}</span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,34 @@
 import React, { useCallback, useState, useRef } from 'react';
-import { UploadCloud, FileText, Image as ImageIcon, X, Loader2, AlertCircle, Layers } from 'lucide-react';
-import { SupportedMimeType } from '../types';
+import { UploadCloud, FileText, Image as ImageIcon, X, Loader2, AlertCircle, Layers, ClipboardCheck, ImageDown } from 'lucide-react';
+import { AnalysisImageSettings, ExportProfileId, SupportedMimeType } from '../types';
+import { EXPORT_PROFILES } from '../utils/exportProfiles';
+import { ANALYSIS_MAX_EDGE_OPTIONS, ANALYSIS_QUALITY_OPTIONS } from '../utils/analysisImage';
+import { useI18n } from './I18nProvider';
 
 interface FileUploadProps {
   onFilesSelect: (files: File[]) => void;
   onClear?: () => void;
   isProcessing: boolean;
+  preflightProfileId?: ExportProfileId;
+  onPreflightProfileChange?: (profileId: ExportProfileId) => void;
+  holdFailedPreflight?: boolean;
+  onHoldFailedPreflightChange?: (holdFailed: boolean) => void;
+  analysisImageSettings?: AnalysisImageSettings;
+  onAnalysisImageSettingsChange?: (settings: AnalysisImageSettings) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear, isProcessing }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({
+  onFilesSelect,
+  onClear,
+  isProcessing,
+  preflightProfileId,
+  onPreflightProfileChange,
+  holdFailedPreflight,
+  onHoldFailedPreflightChange,
+  analysisImageSettings,
+  onAnalysisImageSettingsChange
+}) => {
+  const { t } = useI18n();
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -39,13 +59,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear,
     });
 
     if (hasInvalid) {
-      setError("Beberapa file dilewati karena format tidak didukung (Gunakan JPG, PNG, WEBP, PDF).");
+      setError(t('upload.unsupportedSkipped'));
     }
 
     if (validFiles.length > 0) {
       onFilesSelect(validFiles);
     }
-  }, [onFilesSelect]);
+  }, [onFilesSelect, t]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -106,7 +126,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear,
             <div className="bg-white p-3 rounded-full shadow-lg border border-indigo-100 mb-3 animate-bounce">
               <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
             </div>
-            <p className="text-sm font-semibold text-indigo-600 animate-pulse">Processing Batch...</p>
+            <p className="text-sm font-semibold text-indigo-600 animate-pulse">{t('upload.processing')}</p>
           </div>
         )}
 
@@ -116,9 +136,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear,
              <div className="bg-orange-100 p-4 rounded-full inline-block text-orange-600 mb-2">
                <AlertCircle size={32} />
              </div>
-             <p className="text-lg font-medium text-orange-800">Perhatian</p>
+             <p className="text-lg font-medium text-orange-800">{t('upload.attention')}</p>
              <p className="text-sm text-orange-600 mt-1 max-w-md">{error}</p>
-             <p className="text-xs text-slate-400 mt-4">Klik untuk menambahkan file yang valid</p>
+             <p className="text-xs text-slate-400 mt-4">{t('upload.clickToAddValid')}</p>
            </div>
           ) : (
             <>
@@ -130,13 +150,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear,
               </div>
               <div className="space-y-1">
                 <p className="text-lg font-medium text-slate-900">
-                  Upload Banyak File Sekaligus
+                  {t('upload.title')}
                 </p>
                 <p className="text-sm text-slate-500">
-                  Drag & drop multiple images or PDFs here
+                  {t('upload.dragDrop')}
                 </p>
                 <p className="text-xs text-slate-400 pt-2">
-                  JPG, PNG, WEBP, PDF supported
+                  {t('upload.supported')}
                 </p>
               </div>
             </>
@@ -147,12 +167,79 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, onClear,
            <button 
              onClick={clearFile}
              className="absolute top-4 right-4 text-slate-400 hover:text-red-500 transition-colors p-2 z-30"
-             title="Reset"
+             title={t('upload.reset')}
            >
              <X size={20} />
            </button>
         )}
       </div>
+
+      {/* Outside the drop zone so using the select doesn't open the file picker */}
+      {preflightProfileId && onPreflightProfileChange && (
+        <div className="flex flex-wrap items-center gap-2 px-3 pt-2 pb-1 text-xs text-slate-500">
+          <ClipboardCheck size={14} className="text-indigo-600" />
+          <span title={t('preflight.profileHint')}>{t('preflight.profile')}</span>
+          <select
+            value={preflightProfileId}
+            onChange={(e) => onPreflightProfileChange(e.target.value as ExportProfileId)}
+            className="bg-slate-50 border border-slate-200 text-slate-900 text-xs rounded-md focus:ring-indigo-500 focus:border-indigo-500 py-1 pl-2 pr-7 cursor-pointer"
+          >
+            {EXPORT_PROFILES.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.id === 'generic' ? t('preflight.genericProfile') : profile.label}</option>
+            ))}
+          </select>
+          {onHoldFailedPreflightChange && (
+            <label className="flex items-center gap-1.5 cursor-pointer" title={t('preflight.holdFailedHint')}>
+              <input
+                type="checkbox"
+                checked={!!holdFailedPreflight}
+                onChange={(e) => onHoldFailedPreflightChange(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t('preflight.holdFailed')}
+            </label>
+          )}
+        </div>
+      )}
+
+      {analysisImageSettings && onAnalysisImageSettingsChange && (
+        <div className="flex flex-wrap items-center gap-2 px-3 pt-1 pb-1 text-xs text-slate-500" title={t('analysisImage.hint')}>
+          <ImageDown size={14} className="text-indigo-600" />
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={analysisImageSettings.enabled}
+              onChange={(e) => onAnalysisImageSettingsChange({ ...analysisImageSettings, enabled: e.target.checked })}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('analysisImage.enabled')}
+          </label>
+          {analysisImageSettings.enabled && (
+            <>
+              <select
+                value={analysisImageSettings.maxEdge}
+                onChange={(e) => onAnalysisImageSettingsChange({ ...analysisImageSettings, maxEdge: Number(e.target.value) })}
+                className="bg-slate-50 border border-slate-200 text-slate-900 text-xs rounded-md focus:ring-indigo-500 focus:border-indigo-500 py-1 pl-2 pr-7 cursor-pointer"
+                title={t('analysisImage.maxEdge')}
+              >
+                {ANALYSIS_MAX_EDGE_OPTIONS.map(edge => (
+                  <option key={edge} value={edge}>{t('analysisImage.maxEdgeOption', { size: edge })}</option>
+                ))}
+              </select>
+              <select
+                value={analysisImageSettings.quality}
+                onChange={(e) => onAnalysisImageSettingsChange({ ...analysisImageSettings, quality: Number(e.target.value) })}
+                className="bg-slate-50 border border-slate-200 text-slate-900 text-xs rounded-md focus:ring-indigo-500 focus:border-indigo-500 py-1 pl-2 pr-7 cursor-pointer"
+                title={t('analysisImage.quality')}
+              >
+                {ANALYSIS_QUALITY_OPTIONS.map(quality => (
+                  <option key={quality} value={quality}>{t('analysisImage.qualityOption', { quality: Math.round(quality * 100) })}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,16 @@
 import React from 'react';
-import { Camera, Sparkles, Heart } from 'lucide-react';
+import { Camera, Sparkles, Heart, Languages, BookA } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { LOCALES, Locale } from '../utils/i18n';
+
+interface HeaderProps {
+  modelLabel?: string;
+  onOpenVocabulary?: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ modelLabel = 'Gemini 2.5', onOpenVocabulary }) => {
+  const { t, locale, setLocale } = useI18n();
 
-export const Header: React.FC = () => {
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -11,7 +20,7 @@ export const Header: React.FC = () => {
           </div>
           <div>
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">StockPrompt Pro</h1>
-            <p className="text-xs text-slate-500 font-medium hidden sm:block">AI Assistant untuk Microstocker</p>
+            <p className="text-xs text-slate-500 font-medium hidden sm:block">{t('header.tagline')}</p>
           </div>
         </div>
         
@@ -21,15 +30,42 @@ export const Header: React.FC = () => {
             target="_blank" 
             rel="noopener noreferrer"
             className="flex items-center gap-2 text-sm font-medium text-pink-600 bg-pink-50 hover:bg-pink-100 px-3 py-1.5 rounded-full transition-colors border border-pink-100"
-            title="Dukung pengembangan aplikasi ini"
+            title={t('header.supportTitle')}
           >
             <Heart size={16} className="fill-pink-600" />
-            <span className="hidden sm:inline">Dukungan</span>
+            <span className="hidden sm:inline">{t('header.support')}</span>
           </a>
 
+          {onOpenVocabulary && (
+            <button
+              onClick={onOpenVocabulary}
+              className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-indigo-600 bg-slate-50 hover:bg-indigo-50 px-3 py-1.5 rounded-full transition-colors border border-slate-200"
+              title={t('header.vocabulary')}
+            >
+              <BookA size={16} />
+              <span className="hidden lg:inline">{t('header.vocabulary')}</span>
+            </button>
+          )}
+
+          <div className="flex items-center gap-1 p-0.5 rounded-full border border-slate-200 bg-slate-50" title={t('header.language')}>
+            <Languages size={14} className="text-slate-400 ml-1.5" />
+            {(Object.keys(LOCALES) as Locale[]).map(code => (
+              <button
+                key={code}
+                onClick={() => setLocale(code)}
+                title={LOCALES[code].label}
+                className={`px-2 py-1 rounded-full text-xs font-semibold transition-colors
+                  ${locale === code ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}
+                `}
+              >
+                {LOCALES[code].short}
+              </button>
+            ))}
+          </div>
+
           <div className="hidden md:flex items-center gap-2 text-sm text-indigo-600 font-medium bg-indigo-50 px-3 py-1.5 rounded-full border border-indigo-100">
             <Sparkles size={16} />
-            <span>Gemini 2.5</span>
+            <span>{modelLabel}</span>
           </div>
         </div>
       </div>
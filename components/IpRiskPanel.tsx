@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ShieldAlert, Eye, Replace, Plus, X, ListPlus } from 'lucide-react';
+import { IpRiskCategory, IpRiskTerm, StockMetadata } from '../types';
+import { IpRiskFinding, IpRiskField, IP_RISK_CATEGORIES } from '../utils/ipRiskChecker';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../utils/i18n';
+
+interface IpRiskPanelProps {
+  data: StockMetadata;
+  findings: IpRiskFinding[];
+  onReplace: (findings: IpRiskFinding[]) => void;
+  customTerms: IpRiskTerm[];
+  onCustomTermsChange: (terms: IpRiskTerm[]) => void;
+}
+
+// Text fields that can be shown with their matches highlighted
+const TEXT_FIELDS: Exclude<IpRiskField, 'keywords'>[] = ['title', 'description', 'ai_prompt'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every offending match in a <mark>
+const HighlightedText: React.FC<{ text: string; matches: string[] }> = ({ text, matches }) => {
+  if (matches.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${matches.map(escapeRegExp).join('|')})`, 'gi');
+  const lowerMatches = matches.map(m => m.toLowerCase());
+  return (
+    <>
+      {text.split(pattern).map((part, idx) =>
+        lowerMatches.includes(part.toLowerCase())
+          ? <mark key={idx} className="bg-rose-200 text-rose-900 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={idx}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export const IpRiskPanel: React.FC<IpRiskPanelProps> = ({ data, findings, onReplace, customTerms, onCustomTermsChange }) => {
+  const { t } = useI18n();
+  const [showTerms, setShowTerms] = useState(false);
+  const [newTerm, setNewTerm] = useState('');
+  const [newReplacement, setNewReplacement] = useState('');
+  const [newCategory, setNewCategory] = useState<IpRiskCategory>('brand');
+
+  const textFindings = findings.filter(f => f.fields.length > 0);
+  const allMatches = textFindings.flatMap(f => f.matches);
+  const flaggedFields = TEXT_FIELDS
+    .filter(field => textFindings.some(f => f.fields.includes(field)));
+
+  const handleAddTerm = () => {
+    const term = newTerm.trim();
+    if (!term) return;
+    const rest = customTerms.filter(c => c.term.toLowerCase() !== term.toLowerCase());
+    onCustomTermsChange([...rest, { term, category: newCategory, replacement: newReplacement.trim() }]);
+    setNewTerm('');
+    setNewReplacement('');
+  };
+
+  if (findings.length === 0 && !showTerms) {
+    return (
+      <div className="flex justify-end">
+        <button
+          onClick={() => setShowTerms(true)}
+          className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-600"
+        >
+          <ListPlus size={12} />
+          {t('ip.termsToggle', { count: customTerms.length })}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-rose-200 overflow-hidden">
+      <div className="bg-rose-50 px-4 py-3 border-b border-rose-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert size={18} className="text-rose-600" />
+          <h3 className="font-semibold text-rose-800">{t('ip.title')}</h3>
+          {findings.length > 0 && (
+            <span className="px-2 py-0.5 bg-rose-100 text-rose-700 text-xs font-bold rounded-full">{findings.length}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {textFindings.length > 0 && (
+            <button
+              onClick={() => onReplace(textFindings)}
+              className="flex items-center gap-1 text-xs font-medium text-rose-700 hover:underline"
+            >
+              <Replace size={12} />
+              {t('ip.replaceAll')}
+            </button>
+          )}
+          <button
+            onClick={() => setShowTerms(!showTerms)}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600"
+          >
+            <ListPlus size={12} />
+            {t('ip.terms')}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {findings.map(finding => (
+          <div key={`${finding.category}:${finding.term}`} className="flex items-start gap-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-slate-800">{finding.term}</span>
+                <span className="text-[10px] uppercase font-bold text-rose-500">{t(`ip.category.${finding.category}` as MessageKey)}</span>
+                {finding.visibleInImage && (
+                  <span className="flex items-center gap-1 text-[10px] uppercase font-bold text-amber-600" title={t('ip.visibleTitle')}>
+                    <Eye size={10} />
+                    {t('ip.visible')}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-slate-500">
+                {finding.fields.length > 0
+                  ? t('ip.foundIn', { fields: finding.fields.map(f => t(`ip.field.${f}` as MessageKey)).join(', ') })
+                  : t('ip.notInText')}
+              </p>
+            </div>
+            {finding.fields.length > 0 && (
+              <button
+                onClick={() => onReplace([finding])}
+                className="flex-shrink-0 px-2.5 py-1 bg-white border border-rose-200 text-rose-700 rounded-md text-xs font-medium hover:bg-rose-50 transition-colors"
+                title={finding.replacement ? t('ip.replaceWith', { replacement: finding.replacement }) : t('ip.removeAll')}
+              >
+                {finding.replacement ? `→ ${finding.replacement}` : t('common.remove')}
+              </button>
+            )}
+          </div>
+        ))}
+
+        {flaggedFields.length > 0 && (
+          <div className="pt-3 border-t border-slate-100 space-y-2">
+            {flaggedFields.map(field => (
+              <div key={field} className="text-xs">
+                <span className="font-bold text-slate-500 uppercase mr-2">{t(`ip.field.${field}`)}</span>
+                <span className="text-slate-700 leading-relaxed">
+                  <HighlightedText text={data[field]} matches={allMatches} />
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showTerms && (
+          <div className="pt-3 border-t border-slate-100 space-y-2">
+            <p className="text-xs font-bold text-slate-500 uppercase">{t('ip.customTerms')}</p>
+            <div className="flex flex-wrap gap-2">
+              {customTerms.map(custom => (
+                <span key={custom.term} className="inline-flex items-center gap-1 px-2 py-1 bg-slate-100 rounded-md text-xs text-slate-700">
+                  {custom.term}{custom.replacement && <span className="text-slate-400">→ {custom.replacement}</span>}
+                  <button
+                    onClick={() => onCustomTermsChange(customTerms.filter(c => c.term !== custom.term))}
+                    className="text-slate-400 hover:text-red-500"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              {customTerms.length === 0 && <span className="text-xs text-slate-400">{t('ip.noCustomTerms')}</span>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <input
+                value={newTerm}
+                onChange={(e) => setNewTerm(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                placeholder={t('ip.termPlaceholder')}
+                className="flex-1 min-w-[120px] px-2 py-1.5 text-xs border border-slate-200 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <input
+                value={newReplacement}
+                onChange={(e) => setNewReplacement(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                placeholder={t('ip.replacementPlaceholder')}
+                className="flex-1 min-w-[120px] px-2 py-1.5 text-xs border border-slate-200 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <select
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value as IpRiskCategory)}
+                className="px-2 py-1.5 text-xs border border-slate-200 rounded-md bg-white"
+              >
+                {IP_RISK_CATEGORIES.map(c => (
+                  <option key={c} value={c}>{t(`ip.category.${c}`)}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddTerm}
+                disabled={!newTerm.trim()}
+                className="flex items-center gap-1 px-2.5 py-1.5 bg-indigo-600 text-white rounded-md text-xs font-medium hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Plus size={12} />
+                {t('common.add')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
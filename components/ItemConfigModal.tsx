@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Play, X } from 'lucide-react';
+import { ConfigPreset, GenerationSettings, PromptConfig } from '../types';
+import { toGenerationSettings } from '../utils/configPresets';
+import { ConfigPanel } from './ConfigPanel';
+import { useI18n } from './I18nProvider';
+
+interface ItemConfigModalProps {
+  itemCount: number;
+  // Effective config of the first item, used as the starting point
+  initialConfig: PromptConfig;
+  presets: ConfigPreset[];
+  onPresetsChange: (presets: ConfigPreset[]) => void;
+  onRun: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+export const ItemConfigModal: React.FC<ItemConfigModalProps> = ({ itemCount, initialConfig, presets, onPresetsChange, onRun, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<PromptConfig>(initialConfig);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full border border-slate-200 animate-in zoom-in-95 duration-300 flex flex-col max-h-[90vh]">
+        <div className="bg-indigo-50 px-6 py-4 border-b border-indigo-100 flex items-center gap-3 rounded-t-2xl flex-shrink-0">
+          <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+            <SlidersHorizontal size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-indigo-900">{t('itemConfig.title')}</h2>
+            <p className="text-xs text-indigo-700">{t('itemConfig.subtitle', { count: itemCount })}</p>
+          </div>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <ConfigPanel
+            config={draft}
+            onChange={setDraft}
+            disabled={false}
+            presets={presets}
+            onPresetsChange={onPresetsChange}
+            hideProvider
+          />
+          <p className="text-xs text-slate-500">{t('itemConfig.replaceNote')}</p>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-2xl flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onRun(toGenerationSettings(draft))}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2.5 rounded-lg font-medium text-sm transition-colors shadow-sm"
+          >
+            <Play size={16} />
+            {t('itemConfig.run', { count: itemCount })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info, Wand2, EyeOff } from 'lucide-react';
+import { KeywordLintIssue, LintSeverity } from '../utils/keywordLinter';
+import { useI18n } from './I18nProvider';
+
+interface KeywordLintPanelProps {
+  issues: KeywordLintIssue[];
+  waivedKeys: string[];
+  onFix: (issues: KeywordLintIssue[]) => void;
+  onWaive: (issue: KeywordLintIssue) => void;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, { className: string; icon: React.ReactNode }> = {
+  error: { className: 'bg-red-50 border-red-200 text-red-700', icon: <AlertCircle size={14} /> },
+  warning: { className: 'bg-amber-50 border-amber-200 text-amber-700', icon: <AlertTriangle size={14} /> },
+  info: { className: 'bg-slate-50 border-slate-200 text-slate-600', icon: <Info size={14} /> },
+};
+
+export const KeywordLintPanel: React.FC<KeywordLintPanelProps> = ({ issues, waivedKeys, onFix, onWaive }) => {
+  const { t } = useI18n();
+  if (issues.length === 0) return null;
+
+  const fixable = issues.filter(issue => issue.fix);
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-500 uppercase">{t('lint.title')}</span>
+        {fixable.length > 0 && (
+          <button
+            onClick={() => onFix(fixable)}
+            className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline"
+          >
+            <Wand2 size={12} />
+            {t('lint.autoFixAll', { count: fixable.length })}
+          </button>
+        )}
+      </div>
+      {issues.map(issue => {
+        const waived = waivedKeys.includes(issue.key);
+        const style = SEVERITY_STYLES[issue.severity];
+        return (
+          <div
+            key={issue.key}
+            className={`flex items-start gap-2 px-3 py-2 rounded-md border text-xs ${style.className} ${waived ? 'opacity-50 line-through' : ''}`}
+          >
+            <span className="mt-0.5 flex-shrink-0">{style.icon}</span>
+            <span className="flex-1">{issue.message}</span>
+            {issue.fix && (
+              <button onClick={() => onFix([issue])} className="font-semibold hover:underline flex-shrink-0">
+                {t('common.fix')}
+              </button>
+            )}
+            {issue.severity === 'error' && !waived && (
+              <button
+                onClick={() => onWaive(issue)}
+                className="flex items-center gap-1 font-semibold hover:underline flex-shrink-0"
+                title={t('lint.waiveTitle')}
+              >
+                <EyeOff size={12} />
+                {t('lint.waive')}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BookA, Search, Trash2, Download, Upload, Save, X } from 'lucide-react';
+import { KeywordVocabulary } from '../types';
+import { exportKeywordVocabulary, formatSynonymGroups, importKeywordVocabulary, parseSynonymGroups, removeVocabularyTerm } from '../utils/keywordVocabulary';
+import { downloadBlob } from '../utils/downloadUtils';
+import { useI18n } from './I18nProvider';
+
+interface KeywordVocabularyModalProps {
+  vocabulary: KeywordVocabulary;
+  onChange: (vocabulary: KeywordVocabulary) => void;
+  onClose: () => void;
+}
+
+type VocabularyTab = 'terms' | 'synonyms';
+
+// Long vocabularies are searched rather than scrolled
+const MAX_LISTED_TERMS = 200;
+
+export const KeywordVocabularyModal: React.FC<KeywordVocabularyModalProps> = ({ vocabulary, onChange, onClose }) => {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<VocabularyTab>('terms');
+  const [search, setSearch] = useState('');
+  const [synonymDraft, setSynonymDraft] = useState(() => formatSynonymGroups(vocabulary.synonymGroups));
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const terms = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (Object.entries(vocabulary.usage) as [string, number][])
+      .filter(([term]) => !query || term.includes(query))
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+  }, [vocabulary.usage, search]);
+
+  const isSynonymDraftDirty = synonymDraft !== formatSynonymGroups(vocabulary.synonymGroups);
+
+  const handleSaveSynonyms = () => {
+    const synonymGroups = parseSynonymGroups(synonymDraft);
+    onChange({ ...vocabulary, synonymGroups });
+    setSynonymDraft(formatSynonymGroups(synonymGroups));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportKeywordVocabulary(vocabulary)], { type: 'application/json' });
+    downloadBlob(blob, 'stockprompt_vocabulary.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = importKeywordVocabulary(vocabulary, await file.text());
+      const added = Object.keys(next.usage).length - Object.keys(vocabulary.usage).length;
+      onChange(next);
+      setSynonymDraft(formatSynonymGroups(next.synonymGroups));
+      setImportMessage({ text: t('vocabulary.imported', { count: added }), isError: false });
+    } catch (error: any) {
+      setImportMessage({ text: t('vocabulary.importFailed', { error: error?.message || t('vocabulary.invalidFile') }), isError: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full border border-slate-200 animate-in zoom-in-95 duration-300 flex flex-col max-h-[90vh]">
+        <div className="bg-indigo-50 px-6 py-4 border-b border-indigo-100 flex items-center gap-3 rounded-t-2xl flex-shrink-0">
+          <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+            <BookA size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-indigo-900">{t('vocabulary.title')}</h2>
+            <p className="text-xs text-indigo-700">
+              {t('vocabulary.summary', { count: Object.keys(vocabulary.usage).length, groups: vocabulary.synonymGroups.length })}
+            </p>
+          </div>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex border-b border-slate-100 text-sm flex-shrink-0">
+          {(['terms', 'synonyms'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-5 py-2.5 font-medium border-b-2 transition-colors
+                ${tab === id ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-slate-500 hover:text-slate-700'}
+              `}
+            >
+              {t(id === 'terms' ? 'vocabulary.termsTab' : 'vocabulary.synonymsTab')}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {tab === 'terms' ? (
+            <>
+              <div className="relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={t('vocabulary.searchPlaceholder')}
+                  className="w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block pl-8 p-2"
+                />
+              </div>
+              {terms.length === 0 ? (
+                <p className="text-sm text-slate-500 py-6 text-center">{t(search ? 'vocabulary.noMatches' : 'vocabulary.empty')}</p>
+              ) : (
+                <ul className="border border-slate-100 rounded-lg divide-y divide-slate-100">
+                  {terms.slice(0, MAX_LISTED_TERMS).map(([term, count]) => (
+                    <li key={term} className="flex items-center gap-3 px-3 py-1.5 text-sm group">
+                      <span className="text-slate-800 truncate">{term}</span>
+                      <span className="ml-auto text-xs font-mono text-slate-400" title={t('vocabulary.usedTimes', { count })}>{count}</span>
+                      <button
+                        onClick={() => onChange(removeVocabularyTerm(vocabulary, term))}
+                        className="text-slate-300 hover:text-red-500 transition-colors"
+                        title={t('vocabulary.removeTerm')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {terms.length > MAX_LISTED_TERMS && (
+                <p className="text-xs text-slate-400">{t('vocabulary.moreTerms', { count: terms.length - MAX_LISTED_TERMS })}</p>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500">{t('vocabulary.synonymsHint')}</p>
+              <textarea
+                value={synonymDraft}
+                onChange={(e) => setSynonymDraft(e.target.value)}
+                rows={12}
+                placeholder={t('vocabulary.synonymsPlaceholder')}
+                className="w-full bg-slate-50 p-3 rounded-lg text-slate-800 text-sm font-mono border border-slate-200 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <button
+                onClick={handleSaveSynonyms}
+                disabled={!isSynonymDraftDirty}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm disabled:opacity-50"
+              >
+                <Save size={16} />
+                {t('vocabulary.saveSynonyms')}
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex flex-wrap items-center gap-4 rounded-b-2xl flex-shrink-0">
+          <button onClick={handleExport} className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600">
+            <Download size={14} />
+            {t('vocabulary.export')}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600">
+            <Upload size={14} />
+            {t('vocabulary.import')}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json,text/plain,.txt,text/csv,.csv" onChange={handleImport} className="hidden" />
+          {importMessage && (
+            <p className={`text-xs ${importMessage.isError ? 'text-red-600' : 'text-green-700'}`}>{importMessage.text}</p>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
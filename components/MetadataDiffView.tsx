@@ -0,0 +1,62 @@
+import React from 'react';
+import { MetadataFieldDiff } from '../utils/metadataHistory';
+import { METADATA_LANGUAGES } from '../utils/languages';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface MetadataDiffViewProps {
+  diffs: MetadataFieldDiff[];
+}
+
+// Field-by-field diff: removed words struck through in red, added words in green
+export const MetadataDiffView: React.FC<MetadataDiffViewProps> = ({ diffs }) => {
+  const { t } = useI18n();
+
+  const getFieldLabel = (diff: MetadataFieldDiff) => {
+    const label = t(`history.field.${diff.field}` as MessageKey);
+    return diff.language ? `${label} (${METADATA_LANGUAGES[diff.language].label})` : label;
+  };
+
+  const renderDiff = (diff: MetadataFieldDiff) => {
+    if (diff.tokens) {
+      return (
+        <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+          {diff.tokens.map((token, index) => (
+            <span
+              key={index}
+              className={token.type === 'added'
+                ? 'bg-green-100 text-green-800'
+                : token.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : ''}
+            >
+              {token.text}
+            </span>
+          ))}
+        </p>
+      );
+    }
+    if (diff.reordered) {
+      return <p className="text-xs text-slate-500 italic">{t('history.reordered')}</p>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {diff.removed!.map(keyword => (
+          <span key={`-${keyword}`} className="px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-700 border border-red-100 line-through">{keyword}</span>
+        ))}
+        {diff.added!.map(keyword => (
+          <span key={`+${keyword}`} className="px-2 py-0.5 rounded-full text-xs bg-green-50 text-green-700 border border-green-100">{keyword}</span>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {diffs.map(diff => (
+        <div key={`${diff.field}-${diff.language || ''}`} className="space-y-1">
+          <p className="text-xs font-semibold text-slate-500">{getFieldLabel(diff)}</p>
+          {renderDiff(diff)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, Wand2 } from 'lucide-react';
+import { TargetModel } from '../types';
+import { useI18n } from './I18nProvider';
+import { applyMjParamFixes, formatMidjourneyParam, lintMidjourneyParams, parseMidjourneyPrompt } from '../utils/midjourneyParams';
+
+interface MidjourneyParamBarProps {
+  prompt: string;
+  model: TargetModel;
+  aspectRatio: string;
+  onChange: (prompt: string) => void;
+}
+
+export const MidjourneyParamBar: React.FC<MidjourneyParamBarProps> = ({ prompt, model, aspectRatio, onChange }) => {
+  const { t, locale } = useI18n();
+  const parsed = useMemo(() => parseMidjourneyPrompt(prompt), [prompt]);
+  // Messages are localized when the lint runs, so a locale switch re-runs it
+  const issues = useMemo(() => lintMidjourneyParams(parsed, model, aspectRatio), [parsed, model, aspectRatio, locale]);
+
+  if (parsed.params.length === 0) return null;
+
+  const severityAt = (index: number) => {
+    const own = issues.filter(i => i.paramIndex === index);
+    if (own.some(i => i.severity === 'error')) return 'error';
+    return own.length > 0 ? 'warning' : null;
+  };
+  const fixable = issues.filter(i => i.fix);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs font-bold text-slate-500 uppercase mr-1">{t('mj.parameters')}</span>
+        {parsed.params.map((param, idx) => {
+          const severity = severityAt(idx);
+          return (
+            <code
+              key={idx}
+              title={issues.filter(i => i.paramIndex === idx).map(i => i.message).join('\n') || undefined}
+              className={`px-1.5 py-0.5 rounded border text-xs
+                ${severity === 'error'
+                  ? 'bg-red-50 border-red-300 text-red-700 line-through decoration-red-400'
+                  : severity === 'warning'
+                    ? 'bg-amber-50 border-amber-300 text-amber-700'
+                    : 'bg-slate-50 border-slate-200 text-slate-600'}
+              `}
+            >
+              {formatMidjourneyParam(param)}
+            </code>
+          );
+        })}
+        {fixable.length > 0 && (
+          <button
+            onClick={() => onChange(applyMjParamFixes(parsed, fixable))}
+            className="ml-auto flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline"
+          >
+            <Wand2 size={12} />
+            {t('mj.fixAll', { count: fixable.length })}
+          </button>
+        )}
+      </div>
+
+      {issues.map((issue, idx) => (
+        <div
+          key={idx}
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-md border text-xs
+            ${issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'}
+          `}
+        >
+          {issue.severity === 'error' ? <AlertCircle size={12} /> : <AlertTriangle size={12} />}
+          <span className="flex-1">{issue.message}</span>
+          {issue.fix && (
+            <button
+              onClick={() => onChange(applyMjParamFixes(parsed, [issue]))}
+              className="font-semibold hover:underline"
+            >
+              {t('common.fix')}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ClipboardCheck, CircleCheck, TriangleAlert, CircleX, Play } from 'lucide-react';
+import { PreflightCheck, PreflightReport, PreflightStatus } from '../types';
+import { PREFLIGHT_REQUIREMENTS, formatFileSize, getMegapixels } from '../utils/preflight';
+import { formatAspectRatio } from '../utils/imageTechnical';
+import { getExportProfile } from '../utils/exportProfiles';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PreflightReportPanelProps {
+  report: PreflightReport;
+  // Set while a failed file is being held back from the queue
+  onOverride?: () => void;
+}
+
+const STATUS_STYLES: Record<PreflightStatus, { icon: React.ReactNode; badge: string }> = {
+  pass: { icon: <CircleCheck size={14} className="text-green-500 flex-shrink-0" />, badge: 'bg-green-100 text-green-700' },
+  warn: { icon: <TriangleAlert size={14} className="text-amber-500 flex-shrink-0" />, badge: 'bg-amber-100 text-amber-700' },
+  fail: { icon: <CircleX size={14} className="text-red-500 flex-shrink-0" />, badge: 'bg-red-100 text-red-700' },
+};
+
+export const PreflightReportPanel: React.FC<PreflightReportPanelProps> = ({ report, onOverride }) => {
+  const { t } = useI18n();
+  const { info } = report;
+  const requirements = PREFLIGHT_REQUIREMENTS[report.profileId];
+  const megapixels = getMegapixels(info).toFixed(1);
+  const profileLabel = report.profileId === 'generic' ? t('preflight.genericProfile') : getExportProfile(report.profileId).label;
+
+  const describe = (check: PreflightCheck): string => {
+    switch (check.id) {
+      case 'megapixels':
+        if (check.status === 'pass') return t('preflight.megapixels.pass', { megapixels, min: requirements.minMegapixels });
+        return requirements.maxMegapixels !== undefined && getMegapixels(info) > requirements.maxMegapixels
+          ? t('preflight.megapixels.tooLarge', { megapixels, max: requirements.maxMegapixels, profile: profileLabel })
+          : t('preflight.megapixels.tooSmall', { megapixels, min: requirements.minMegapixels, profile: profileLabel });
+      case 'fileSize':
+        return t(check.status === 'pass' ? 'preflight.fileSize.pass' : 'preflight.fileSize.fail', { size: formatFileSize(info.fileSize), max: requirements.maxFileSizeMb });
+      case 'colorProfile':
+        if (info.colorSpace === 'untagged') return t('preflight.color.untagged');
+        if (info.colorSpace === 'cmyk') return t('preflight.color.cmyk');
+        if (info.colorSpace === 'srgb') return t('preflight.color.srgb', { name: info.colorProfileName || 'sRGB' });
+        return t('preflight.color.convert', { name: info.colorProfileName || t(info.colorSpace === 'gray' ? 'preflight.color.grayscale' : 'preflight.color.unknown') });
+      case 'jpegQuality':
+        return t(`preflight.quality.${check.status}`, { quality: info.jpegQuality ?? 0, min: requirements.minJpegQuality });
+      case 'upscaling':
+        return t(check.status === 'pass' ? 'preflight.upscaling.pass' : 'preflight.upscaling.warn');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-4">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex flex-wrap items-center gap-2">
+        <ClipboardCheck size={18} className="text-indigo-600" />
+        <h3 className="font-semibold text-slate-800">{t('preflight.title')}</h3>
+        <span className="text-xs text-slate-400">{profileLabel}</span>
+        <span className={`ml-auto px-2 py-0.5 rounded-full text-xs font-bold uppercase ${STATUS_STYLES[report.status].badge}`}>
+          {t(`preflight.status.${report.status}` as MessageKey)}
+        </span>
+      </div>
+      <div className="p-4 space-y-2 text-xs text-slate-600">
+        <p className="font-mono text-slate-500">
+          {info.width}×{info.height} · {megapixels} MP · {formatAspectRatio(info.width, info.height)} · {formatFileSize(info.fileSize)}
+        </p>
+        <ul className="space-y-1">
+          {report.checks.map(check => (
+            <li key={check.id} className="flex items-start gap-2">
+              {STATUS_STYLES[check.status].icon}
+              <span>{describe(check)}</span>
+            </li>
+          ))}
+        </ul>
+        {onOverride && (
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-slate-100">
+            <p className="text-red-700 flex-1">{t('preflight.blocked')}</p>
+            <button
+              onClick={onOverride}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-white border border-red-200 text-red-700 font-medium hover:bg-red-50 transition-colors"
+            >
+              <Play size={12} />
+              {t('preflight.processAnyway')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
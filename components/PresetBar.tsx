@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Bookmark, BookmarkPlus, Trash2, Check, X } from 'lucide-react';
+import { ConfigPreset, PromptConfig } from '../types';
+import { applyGenerationSettings, findMatchingPreset, toGenerationSettings, upsertPreset } from '../utils/configPresets';
+import { useI18n } from './I18nProvider';
+
+interface PresetBarProps {
+  config: PromptConfig;
+  onChange: (config: PromptConfig) => void;
+  presets: ConfigPreset[];
+  onPresetsChange: (presets: ConfigPreset[]) => void;
+  disabled: boolean;
+}
+
+export const PresetBar: React.FC<PresetBarProps> = ({ config, onChange, presets, onPresetsChange, disabled }) => {
+  const { t } = useI18n();
+  // null while not naming a new preset
+  const [newName, setNewName] = useState<string | null>(null);
+  const activePreset = findMatchingPreset(presets, toGenerationSettings(config));
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onChange(applyGenerationSettings(config, preset.settings));
+  };
+
+  const handleSave = () => {
+    const name = (newName || '').trim();
+    if (!name) return;
+    onPresetsChange(upsertPreset(presets, name, toGenerationSettings(config)));
+    setNewName(null);
+  };
+
+  const handleDelete = () => {
+    if (activePreset) onPresetsChange(presets.filter(p => p.id !== activePreset.id));
+  };
+
+  const buttonClass = "flex items-center gap-1 px-2.5 py-2 rounded-lg text-xs font-medium text-slate-600 border border-slate-200 hover:border-indigo-200 hover:text-indigo-600 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-5">
+      <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5 mr-1">
+        <Bookmark size={14} /> {t('presets.label')}
+      </label>
+      {newName === null ? (
+        <>
+          <select
+            value={activePreset?.id || ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={disabled || presets.length === 0}
+            className="bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2 min-w-[220px] cursor-pointer disabled:cursor-default"
+          >
+            <option value="" disabled>{presets.length > 0 ? t('presets.custom') : t('presets.none')}</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setNewName(activePreset?.name || '')}
+            disabled={disabled}
+            className={buttonClass}
+            title={t('presets.saveTitle')}
+          >
+            <BookmarkPlus size={14} />
+            {t('presets.save')}
+          </button>
+          {activePreset && (
+            <button
+              onClick={handleDelete}
+              disabled={disabled}
+              className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+              title={t('presets.delete', { name: activePreset.name })}
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            placeholder={t('presets.namePlaceholder')}
+            autoFocus
+            className="bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2 min-w-[260px]"
+          />
+          <button onClick={handleSave} disabled={!newName.trim()} className={buttonClass} title={t('presets.save')}>
+            <Check size={14} />
+          </button>
+          <button onClick={() => setNewName(null)} className={buttonClass} title={t('common.cancel')}>
+            <X size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileCode2, RotateCcw, Download, Upload, X, Save } from 'lucide-react';
+import { PromptConfig, PromptTemplates, TargetModel } from '../types';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  TARGET_MODEL_LABELS,
+  exportPromptTemplates,
+  getPromptTemplate,
+  parsePromptTemplates,
+} from '../utils/promptTemplates';
+import { previewSystemInstruction } from '../services/metadataService';
+import { downloadBlob } from '../utils/downloadUtils';
+import { useI18n } from './I18nProvider';
+
+interface PromptTemplateEditorProps {
+  config: PromptConfig;
+  onSave: (templates: PromptTemplates) => void;
+  onClose: () => void;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ config, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [model, setModel] = useState<TargetModel>(config.targetModel);
+  const [draft, setDraft] = useState<PromptTemplates>(config.promptTemplates);
+  const [importError, setImportError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const template = getPromptTemplate(model, draft);
+  const isCustomized = template !== DEFAULT_PROMPT_TEMPLATES[model];
+
+  const preview = useMemo(
+    () => previewSystemInstruction({ ...config, targetModel: model, promptTemplates: draft }),
+    [config, model, draft]
+  );
+
+  const updateTemplate = (value: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      if (value === DEFAULT_PROMPT_TEMPLATES[model]) delete next[model];
+      else next[model] = value;
+      return next;
+    });
+  };
+
+  // Insert at the cursor so placeholders can be dropped mid-sentence
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      updateTemplate(template + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    updateTemplate(template.slice(0, selectionStart) + token + template.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptTemplates(draft)], { type: 'application/json' });
+    downloadBlob(blob, 'stockprompt_templates.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(parsePromptTemplates(await file.text()));
+      setImportError(null);
+    } catch (error: any) {
+      setImportError(t('templates.importFailed', { error: error?.message || t('templates.invalidImport') }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full border border-slate-200 animate-in zoom-in-95 duration-300 flex flex-col max-h-[90vh]">
+        <div className="bg-indigo-50 px-6 py-4 border-b border-indigo-100 flex items-center gap-3 rounded-t-2xl flex-shrink-0">
+          <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+            <FileCode2 size={20} />
+          </div>
+          <h2 className="text-lg font-bold text-indigo-900">{t('templates.title')}</h2>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6 overflow-y-auto">
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(DEFAULT_PROMPT_TEMPLATES) as TargetModel[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setModel(m)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors
+                    ${model === m ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-200'}
+                  `}
+                >
+                  {TARGET_MODEL_LABELS[m]}
+                  {draft[m] !== undefined && <span className="ml-1" title={t('templates.customized')}>•</span>}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              ref={textareaRef}
+              value={template}
+              onChange={(e) => updateTemplate(e.target.value)}
+              rows={10}
+              className="w-full bg-slate-50 p-3 rounded-lg text-slate-800 text-sm font-mono border border-slate-200 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+
+            <div className="flex flex-wrap gap-2">
+              {PROMPT_TEMPLATE_PLACEHOLDERS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => insertPlaceholder(key)}
+                  title={t(`templates.placeholder.${key}`)}
+                  className="px-2 py-1 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 rounded text-xs font-mono text-slate-600 transition-colors"
+                >
+                  {`{${key}}`}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 pt-2">
+              <button
+                onClick={() => updateTemplate(DEFAULT_PROMPT_TEMPLATES[model])}
+                disabled={!isCustomized}
+                className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-red-600 disabled:opacity-40"
+              >
+                <RotateCcw size={14} />
+                {t('templates.reset')}
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600"
+              >
+                <Download size={14} />
+                {t('templates.export')}
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600"
+              >
+                <Upload size={14} />
+                {t('templates.import')}
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </div>
+            {importError && <p className="text-xs text-red-600">{importError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase block">{t('templates.preview')}</label>
+            <pre className="bg-slate-900 text-slate-100 text-xs p-4 rounded-lg whitespace-pre-wrap max-h-[420px] overflow-y-auto scrollbar-thin">
+              {preview}
+            </pre>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-2xl flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2.5 rounded-lg font-medium text-sm transition-colors shadow-sm"
+          >
+            <Save size={16} />
+            {t('templates.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
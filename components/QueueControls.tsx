@@ -0,0 +1,97 @@
+import React from 'react';
+import { Pause, Play, Square, RotateCcw, Gauge } from 'lucide-react';
+import { QueueSettings } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface QueueControlsProps {
+  isProcessing: boolean;
+  isPaused: boolean;
+  pendingCount: number;
+  errorCount: number;
+  settings: QueueSettings;
+  onSettingsChange: (settings: QueueSettings) => void;
+  onStartPending: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+}
+
+export const QueueControls: React.FC<QueueControlsProps> = ({
+  isProcessing,
+  isPaused,
+  pendingCount,
+  errorCount,
+  settings,
+  onSettingsChange,
+  onStartPending,
+  onPause,
+  onResume,
+  onCancel,
+  onRetryFailed
+}) => {
+  const { t } = useI18n();
+  const buttonClass = "flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium transition-colors shadow-sm";
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-100 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {isProcessing ? (
+          <>
+            {isPaused ? (
+              <button onClick={onResume} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700 text-white`}>
+                <Play size={14} />
+                <span>{t('queue.resume')}</span>
+              </button>
+            ) : (
+              <button onClick={onPause} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-indigo-200 hover:text-indigo-600`}>
+                <Pause size={14} />
+                <span>{t('queue.pause')}</span>
+              </button>
+            )}
+            <button onClick={onCancel} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-red-200 hover:text-red-600`}>
+              <Square size={14} />
+              <span>{t('common.cancel')}</span>
+            </button>
+          </>
+        ) : pendingCount > 0 && (
+          <button onClick={onStartPending} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700 text-white`}>
+            <Play size={14} />
+            <span>{t('queue.processPending', { count: pendingCount })}</span>
+          </button>
+        )}
+        {errorCount > 0 && (
+          <button onClick={onRetryFailed} className={`${buttonClass} bg-red-50 border border-red-200 text-red-700 hover:bg-red-100`}>
+            <RotateCcw size={14} />
+            <span>{t('queue.retryFailed', { count: errorCount })}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-slate-500">
+        <Gauge size={14} className="text-slate-400" />
+        <label className="flex items-center gap-1.5">
+          {t('queue.parallel')}
+          <select
+            value={settings.concurrency}
+            onChange={(e) => onSettingsChange({ ...settings, concurrency: Number(e.target.value) })}
+            className="bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-slate-700"
+          >
+            {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          {t('queue.retries')}
+          <select
+            value={settings.maxRetries}
+            onChange={(e) => onSettingsChange({ ...settings, maxRetries: Number(e.target.value) })}
+            className="bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-slate-700"
+          >
+            {[0, 1, 2, 3, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {isPaused && <span className="ml-auto font-semibold text-amber-600">{t('queue.paused')}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+import { SavedSession } from '../services/sessionStore';
+import { useI18n } from './I18nProvider';
+
+interface RestoreSessionModalProps {
+  session: SavedSession;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionModal: React.FC<RestoreSessionModalProps> = ({ session, onRestore, onDiscard }) => {
+  const { t, locale } = useI18n();
+  const completed = session.items.filter(i => i.status === 'completed').length;
+  const unfinished = session.items.filter(i => i.status === 'pending').length;
+
+  return (
+    <div className="fixed inset-0 z-[65] flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full border border-slate-200 animate-in zoom-in-95 duration-300">
+        <div className="bg-indigo-50 px-6 py-4 border-b border-indigo-100 flex items-center gap-3 rounded-t-2xl">
+          <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+            <History size={24} />
+          </div>
+          <h2 className="text-lg font-bold text-indigo-900">{t('session.title')}</h2>
+        </div>
+
+        <div className="p-6 space-y-2 text-sm text-slate-700">
+          <p>
+            {t('session.previousBatch')} <strong>{t('session.fileCount', { count: session.items.length })}</strong>{' '}
+            {t('session.savedOn', { date: new Date(session.savedAt).toLocaleString(locale) })}
+          </p>
+          <p className="text-slate-500">
+            {t('session.completed', { count: completed })}{unfinished > 0 ? `, ${t('session.unfinished', { count: unfinished })}` : ''}.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-2xl">
+          <button
+            onClick={onDiscard}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium text-slate-600 hover:text-red-600 hover:bg-red-50 transition-colors"
+          >
+            <Trash2 size={16} />
+            {t('session.discard')}
+          </button>
+          <button
+            onClick={onRestore}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2.5 rounded-lg font-medium text-sm transition-colors shadow-sm"
+          >
+            <RotateCcw size={16} />
+            {t('session.restore')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
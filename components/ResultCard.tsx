@@ -1,15 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Copy, Check, Tag, Type, Image as ImageIcon, Sliders, Layers, X, Plus, Sparkles, Loader2, RefreshCw, Download, FileJson, FileText, ClipboardCopy, MousePointerClick, Eye, Wand2, ArrowDownAZ, ArrowUpNarrowWide } from 'lucide-react';
-import { StockMetadata, PromptConfig } from '../types';
-import { identifyPointInterest, generateImagePreview, generateSeoVariations } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Copy, Check, Tag, Type, Image as ImageIcon, Sliders, Layers, X, Plus, Sparkles, Loader2, RefreshCw, Download, FileJson, FileText, FileImage, ClipboardCopy, MousePointerClick, Eye, Wand2, ArrowDownAZ, ArrowUpNarrowWide, Wrench, Undo2, Redo2, History } from 'lucide-react';
+import { StockMetadata, PromptConfig, ExportProfileId, IpRiskTerm, LocalizedMetadata, MetadataLanguage, MetadataChange, MetadataVersion, KeywordVocabulary } from '../types';
+import { identifyPointInterest, generateImagePreview, generateSeoVariations } from '../services/metadataService';
+import { getProvider } from '../services/providers';
+import { canEmbedMetadata, embedMetadataInJpeg } from '../utils/metadataWriter';
+import { downloadBlob } from '../utils/downloadUtils';
+import { lintKeywords, applyLintFixes, KeywordLintIssue } from '../utils/keywordLinter';
+import { KeywordLintPanel } from './KeywordLintPanel';
+import { checkIpRisk, applyIpReplacement, getIpRiskTerms, loadCustomIpTerms, saveCustomIpTerms, IpRiskFinding } from '../utils/ipRiskChecker';
+import { IpRiskPanel } from './IpRiskPanel';
+import { TARGET_MODEL_LABELS } from '../utils/promptTemplates';
+import { getModelFamily, supportsNegativePrompt, supportsTokenWeights } from '../utils/modelParameters';
+import { setMidjourneyParam } from '../utils/midjourneyParams';
+import { GENERIC_NEGATIVE_PROMPT } from '../utils/promptWeights';
+import { WeightedPromptEditor } from './WeightedPromptEditor';
+import { MidjourneyParamBar } from './MidjourneyParamBar';
+import { METADATA_LANGUAGES, getTranslatedLanguages } from '../utils/languages';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { suggestKeywords, EMPTY_VOCABULARY } from '../utils/keywordVocabulary';
+import { PRESET_ASPECT_RATIOS } from '../utils/aspectRatio';
+import { useI18n } from './I18nProvider';
 
 interface ResultCardProps {
   data: StockMetadata;
   config: PromptConfig;
-  onUpdate: (data: StockMetadata) => void;
+  // Without a change, the update is recorded as a manual edit
+  onUpdate: (data: StockMetadata, change?: MetadataChange) => void;
+  history?: MetadataVersion[];
+  historyIndex?: number;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onRestoreVersion?: (versionId: string) => void;
   onRefine: (instruction: string, newAspectRatio: string) => Promise<void>;
   isRefining?: boolean;
   file?: File;
+  exportProfileId: ExportProfileId;
+  lintWaivers?: string[];
+  onWaiveLint: (issueKey: string) => void;
+  visibleLogos?: string[];
+  // Drives the ranked autocomplete in the add-keyword input
+  vocabulary?: KeywordVocabulary;
+  // The downscaled copy the model analyses; the visual tagger sends it instead of the original
+  getAnalysisFile?: () => Promise<File>;
 }
 
 interface VisualPoint {
@@ -25,9 +59,32 @@ interface SeoVariations {
   commercial: { title: string, description: string };
 }
 
-export const ResultCard: React.FC<ResultCardProps> = ({ data, config, onUpdate, onRefine, isRefining, file }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({
+  data,
+  config,
+  onUpdate,
+  history = [],
+  historyIndex,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
+  onRestoreVersion,
+  onRefine,
+  isRefining,
+  file,
+  exportProfileId,
+  lintWaivers = [],
+  onWaiveLint,
+  visibleLogos = [],
+  vocabulary = EMPTY_VOCABULARY,
+  getAnalysisFile
+}) => {
+  const { t, locale } = useI18n();
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [newKeyword, setNewKeyword] = useState('');
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
   const [refineInstruction, setRefineInstruction] = useState('');
   const [refineAspectRatio, setRefineAspectRatio] = useState(config.aspectRatio);
   
@@ -44,6 +101,45 @@ export const ResultCard: React.FC<ResultCardProps> = ({ data, config, onUpdate,
   const [seoVariations, setSeoVariations] = useState<SeoVariations | null>(null);
   const [isGeneratingSeo, setIsGeneratingSeo] = useState(false);
 
+  // Tagged File State
+  const [isEmbedding, setIsEmbedding] = useState(false);
+
+  const canVisualize = getProvider(config.provider).supportsImageGeneration;
+
+  // Lint messages are localized when the lint runs, so a locale switch re-runs it
+  const lintIssues = useMemo(() => lintKeywords(data, exportProfileId), [data, exportProfileId, locale]);
+  const flaggedKeywords = useMemo(() => {
+    const flags = new Map<string, KeywordLintIssue['severity']>();
+    for (const issue of lintIssues) {
+      if (issue.severity === 'info') continue;
+      issue.keywords.forEach(k => {
+        if (flags.get(k) !== 'error') flags.set(k, issue.severity);
+      });
+    }
+    return flags;
+  }, [lintIssues]);
+
+  const [customIpTerms, setCustomIpTerms] = useState<IpRiskTerm[]>(loadCustomIpTerms);
+  const ipFindings = useMemo(
+    () => checkIpRisk(data, getIpRiskTerms(customIpTerms), visibleLogos),
+    [data, customIpTerms, visibleLogos]
+  );
+  const ipFlaggedKeywords = useMemo(() => {
+    const matches = ipFindings.filter(f => f.fields.includes('keywords')).flatMap(f => f.matches.map(m => m.toLowerCase()));
+    return new Set(data.keywords.filter(k => matches.some(m => k.toLowerCase().includes(m))));
+  }, [ipFindings, data.keywords]);
+
+  // 'en' is the master metadata; the others edit data.translations
+  const [activeLanguage, setActiveLanguage] = useState<MetadataLanguage | 'en'>('en');
+  const translatedLanguages = getTranslatedLanguages([data.translations]);
+  const activeTranslation = activeLanguage === 'en' ? undefined : data.translations?.[activeLanguage];
+
+  const updateTranslation = (lang: MetadataLanguage, changes: Partial<LocalizedMetadata>) => {
+    const current = data.translations?.[lang];
+    if (!current) return;
+    onUpdate({ ...data, translations: { ...data.translations, [lang]: { ...current, ...changes } } });
+  };
+
   useEffect(() => {
     if (file && file.type.startsWith('image/')) {
       const url = URL.createObjectURL(file);
@@ -68,14 +164,17 @@ export const ResultCard: React.FC<ResultCardProps> = ({ data, config, onUpdate,
     return `TITLE: ${data.title}
 DESCRIPTION: ${data.description}
 
-PROMPT (${data.used_model || 'AI'}):
+PROMPT (${getModelLabel()}):
 ${data.ai_prompt}
-
+${data.negative_prompt ? `\nNEGATIVE PROMPT:\n${data.negative_prompt}\n` : ''}
 KEYWORDS:
 ${data.keywords.join(', ')}
 
 CATEGORY: ${data.category}
-${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
+${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}${translatedLanguages.map(lang => {
+  const localized = data.translations![lang]!;
+  return `\n\n[${METADATA_LANGUAGES[lang].englishName.toUpperCase()}]\nTITLE: ${localized.title}\nDESCRIPTION: ${localized.description}\nKEYWORDS: ${localized.keywords.join(', ')}`;
+}).join('')}`;
   };
 
   const handleCopyAll = () => {
@@ -85,33 +184,52 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
   const handleDownloadJSON = () => {
     const jsonString = JSON.stringify(data, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `stock_metadata_${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `stock_metadata_${Date.now()}.json`);
   };
 
   const handleDownloadTXT = () => {
     const textContent = generateTextContent();
     const blob = new Blob([textContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `stock_metadata_${Date.now()}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `stock_metadata_${Date.now()}.txt`);
+  };
+
+  const handleDownloadTagged = async () => {
+    if (!file) return;
+    setIsEmbedding(true);
+    try {
+      const tagged = await embedMetadataInJpeg(file, data);
+      downloadBlob(tagged, file.name);
+    } catch (e) {
+      console.error("Embedding metadata failed", e);
+    } finally {
+      setIsEmbedding(false);
+    }
   };
 
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onUpdate({ ...data, ai_prompt: e.target.value });
   };
 
+  const isMidjourneyPrompt = !!data.used_model && getModelFamily(data.used_model) === 'midjourney';
+
+  // Keep --ar in the prompt in step with the selector without asking the model again
+  const handleRefineAspectRatioChange = (ratio: string) => {
+    setRefineAspectRatio(ratio);
+    if (isMidjourneyPrompt) {
+      onUpdate({ ...data, ai_prompt: setMidjourneyParam(data.ai_prompt, 'ar', ratio) });
+    }
+  };
+
+  const showNegativePrompt = supportsNegativePrompt(data.used_model) || !!data.negative_prompt;
+
+  // Merge the generic list into whatever is already there, without duplicates
+  const applyGenericNegative = () => {
+    const existing = (data.negative_prompt || '').split(',').map(term => term.trim()).filter(Boolean);
+    const known = new Set(existing.map(term => term.toLowerCase()));
+    const additions = GENERIC_NEGATIVE_PROMPT.split(',').map(term => term.trim()).filter(term => !known.has(term.toLowerCase()));
+    onUpdate({ ...data, negative_prompt: [...existing, ...additions].join(', ') });
+  };
+
   const removeKeyword = (indexToRemove: number) => {
     const updatedKeywords = data.keywords.filter((_, index) => index !== indexToRemove);
     onUpdate({ ...data, keywords: updatedKeywords });
@@ -122,9 +240,42 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     if (cleanKw && !data.keywords.includes(cleanKw)) {
       onUpdate({ ...data, keywords: [...data.keywords, cleanKw] });
       setNewKeyword('');
+      setHighlightedSuggestion(-1);
+    }
+  };
+
+  const keywordSuggestions = useMemo(
+    () => suggestKeywords(vocabulary, newKeyword, data.keywords),
+    [vocabulary, newKeyword, data.keywords]
+  );
+
+  const handleKeywordInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && keywordSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev + 1) % keywordSuggestions.length);
+    } else if (e.key === 'ArrowUp' && keywordSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev <= 0 ? keywordSuggestions.length : prev) - 1);
+    } else if (e.key === 'Enter') {
+      addKeyword(keywordSuggestions[highlightedSuggestion] ?? newKeyword);
+    } else if (e.key === 'Escape') {
+      setHighlightedSuggestion(-1);
     }
   };
 
+  const handleLintFix = (issues: KeywordLintIssue[]) => {
+    onUpdate({ ...data, keywords: applyLintFixes(data.keywords, issues) });
+  };
+
+  const handleIpReplace = (findings: IpRiskFinding[]) => {
+    onUpdate(findings.reduce(applyIpReplacement, data));
+  };
+
+  const handleCustomIpTermsChange = (terms: IpRiskTerm[]) => {
+    setCustomIpTerms(terms);
+    saveCustomIpTerms(terms);
+  };
+
   const sortKeywords = (type: 'alpha' | 'length') => {
     const sorted = [...data.keywords];
     if (type === 'alpha') {
@@ -132,7 +283,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     } else {
       sorted.sort((a, b) => a.length - b.length);
     }
-    onUpdate({ ...data, keywords: sorted });
+    onUpdate({ ...data, keywords: sorted }, { kind: 'sort', detail: type });
   };
 
   const handleRefineSubmit = async () => {
@@ -148,7 +299,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     setIsGeneratingPreview(true);
     setGeneratedPreviewUrl(null);
     try {
-      const url = await generateImagePreview(data.ai_prompt, refineAspectRatio);
+      const url = await generateImagePreview(data.ai_prompt, refineAspectRatio, config.provider);
       setGeneratedPreviewUrl(url);
     } catch (e) {
       console.error("Preview error", e);
@@ -161,7 +312,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     setIsGeneratingSeo(true);
     setSeoVariations(null);
     try {
-      const variations = await generateSeoVariations(data);
+      const variations = await generateSeoVariations(data, config.provider);
       setSeoVariations(variations);
     } catch (e) {
       console.error(e);
@@ -170,8 +321,8 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     }
   };
 
-  const applySeoVariation = (variation: { title: string, description: string }) => {
-    onUpdate({ ...data, title: variation.title, description: variation.description });
+  const applySeoVariation = (variant: keyof SeoVariations, variation: { title: string, description: string }) => {
+    onUpdate({ ...data, title: variation.title, description: variation.description }, { kind: 'seo', detail: variant });
     setSeoVariations(null); // Close suggestions after selection
   };
 
@@ -196,7 +347,8 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
     });
 
     try {
-      const suggestions = await identifyPointInterest(file, xPercent, yPercent);
+      const analysisFile = getAnalysisFile ? await getAnalysisFile() : file;
+      const suggestions = await identifyPointInterest(analysisFile, xPercent, yPercent, config.provider);
       setActivePoint(prev => prev ? { ...prev, loading: false, suggestions } : null);
     } catch (error) {
       console.error(error);
@@ -206,15 +358,8 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
 
   const closeVisualPoint = () => setActivePoint(null);
 
-  const getModelLabel = () => {
-    switch(data.used_model) {
-      case 'midjourney': return 'Midjourney v6';
-      case 'stable_diffusion': return 'Stable Diffusion XL';
-      case 'firefly': return 'Adobe Firefly';
-      case 'dalle': return 'DALL-E 3';
-      default: return 'Generative AI';
-    }
-  };
+  const getModelLabel = () =>
+    data.used_model && TARGET_MODEL_LABELS[data.used_model] ? TARGET_MODEL_LABELS[data.used_model] : 'Generative AI';
 
   const CopyButton = ({ text, fieldId, className }: { text: string, fieldId: string, className?: string }) => (
     <button
@@ -226,7 +371,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
           : 'bg-white text-slate-400 hover:text-indigo-600 border-slate-200 hover:border-indigo-200'}
         ${className}
       `}
-      title="Copy to clipboard"
+      title={t('result.copy')}
     >
       {copiedField === fieldId ? <Check size={16} /> : <Copy size={16} />}
     </button>
@@ -242,15 +387,26 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
           className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm"
         >
           <FileJson size={16} />
-          <span>Save JSON</span>
+          <span>{t('result.saveJson')}</span>
         </button>
         <button 
           onClick={handleDownloadTXT}
           className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm"
         >
           <FileText size={16} />
-          <span>Save TXT</span>
+          <span>{t('result.saveTxt')}</span>
         </button>
+        {file && canEmbedMetadata(file) && (
+          <button 
+            onClick={handleDownloadTagged}
+            disabled={isEmbedding}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm disabled:opacity-50"
+            title={t('result.taggedTitle')}
+          >
+            {isEmbedding ? <Loader2 size={16} className="animate-spin" /> : <FileImage size={16} />}
+            <span>{t('result.saveTagged')}</span>
+          </button>
+        )}
         <button 
           onClick={handleCopyAll}
           className={`
@@ -261,26 +417,81 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
           `}
         >
           {copiedField === 'all_content' ? <Check size={16} /> : <ClipboardCopy size={16} />}
-          <span>{copiedField === 'all_content' ? 'Copied All!' : 'Copy All Fields'}</span>
+          <span>{copiedField === 'all_content' ? t('result.copiedAll') : t('result.copyAllFields')}</span>
         </button>
+        {data.repairs && data.repairs.length > 0 && (
+          <span
+            className="flex items-center gap-1.5 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs font-medium text-amber-700 cursor-help"
+            title={data.repairs.join('\n')}
+          >
+            <Wrench size={14} />
+            {t('result.autoRepaired', { count: data.repairs.length })}
+          </span>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-2 bg-white border border-slate-200 rounded-lg text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm disabled:opacity-40 disabled:hover:text-slate-600 disabled:hover:border-slate-200"
+            title={t('history.undo')}
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-2 bg-white border border-slate-200 rounded-lg text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm disabled:opacity-40 disabled:hover:text-slate-600 disabled:hover:border-slate-200"
+            title={t('history.redo')}
+          >
+            <Redo2 size={16} />
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center gap-2 px-3 py-2 border rounded-lg text-sm font-medium transition-all shadow-sm
+              ${showHistory ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-700 hover:text-indigo-600 hover:border-indigo-200'}
+            `}
+            title={t('history.toggle')}
+          >
+            <History size={16} />
+            <span>{history.length > 1 ? `${(historyIndex ?? history.length - 1) + 1}/${history.length}` : t('history.title')}</span>
+          </button>
+        </div>
       </div>
 
+      {showHistory && onRestoreVersion && (
+        <VersionHistoryPanel
+          history={history}
+          historyIndex={historyIndex}
+          current={data}
+          onRestore={onRestoreVersion}
+        />
+      )}
+
+      {/* IP / Trademark Risk */}
+      <IpRiskPanel
+        data={data}
+        findings={ipFindings}
+        onReplace={handleIpReplace}
+        customTerms={customIpTerms}
+        onCustomTermsChange={handleCustomIpTermsChange}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Visual Keyword Tagger - Only if image preview exists */}
         {imagePreview && (
           <div className="md:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
             <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center gap-2">
               <MousePointerClick size={18} className="text-indigo-600" />
-              <h3 className="font-semibold text-slate-800">Visual Keyword Tagger</h3>
+              <h3 className="font-semibold text-slate-800">{t('result.taggerTitle')}</h3>
               <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-medium ml-auto">
-                Click image to add keywords
+                {t('result.taggerHint')}
               </span>
             </div>
             <div className="relative bg-slate-100 cursor-crosshair overflow-hidden group min-h-[300px] flex items-center justify-center">
               <img 
                 ref={imageRef}
                 src={imagePreview} 
-                alt="Interactive analysis" 
+                alt={t('result.taggerAlt')} 
                 className="max-w-full max-h-[500px] object-contain"
                 onClick={handleImageClick}
               />
@@ -300,7 +511,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                     {/* Popover */}
                     <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-white p-3 rounded-lg shadow-xl border border-slate-200 min-w-[200px] z-30 animate-in zoom-in-95 duration-200">
                       <div className="flex items-center justify-between mb-2 pb-2 border-b border-slate-100">
-                        <span className="text-xs font-bold text-slate-600 uppercase">Suggestions</span>
+                        <span className="text-xs font-bold text-slate-600 uppercase">{t('result.suggestions')}</span>
                         <button onClick={(e) => { e.stopPropagation(); closeVisualPoint(); }} className="text-slate-400 hover:text-slate-600">
                           <X size={14} />
                         </button>
@@ -309,7 +520,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                       {activePoint.loading ? (
                          <div className="flex items-center justify-center py-2 space-x-2 text-indigo-600">
                            <Loader2 size={16} className="animate-spin" />
-                           <span className="text-xs font-medium">Analyzing spot...</span>
+                           <span className="text-xs font-medium">{t('result.analyzingSpot')}</span>
                          </div>
                       ) : (
                         <div className="space-y-1">
@@ -336,7 +547,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                               </button>
                             ))
                           ) : (
-                            <p className="text-xs text-slate-400 text-center py-1">No specific keywords found.</p>
+                            <p className="text-xs text-slate-400 text-center py-1">{t('result.noSuggestions')}</p>
                           )}
                         </div>
                       )}
@@ -354,7 +565,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
             <div className="absolute inset-0 bg-white/80 backdrop-blur-sm z-50 flex items-center justify-center">
               <div className="flex flex-col items-center">
                 <Loader2 className="w-8 h-8 text-indigo-600 animate-spin mb-2" />
-                <span className="text-sm font-medium text-indigo-700">Refining prompt...</span>
+                <span className="text-sm font-medium text-indigo-700">{t('result.refining')}</span>
               </div>
             </div>
           )}
@@ -362,20 +573,20 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
           <div className="bg-indigo-50/50 px-4 py-3 border-b border-slate-200 flex items-center justify-between">
             <div className="flex items-center gap-2">
               <ImageIcon size={18} className="text-indigo-600" />
-              <h3 className="font-semibold text-slate-800">{getModelLabel()} Prompt</h3>
+              <h3 className="font-semibold text-slate-800">{t('result.promptTitle', { model: getModelLabel() })}</h3>
             </div>
             <div className="flex items-center gap-2">
                <button 
                   onClick={handleGeneratePreview}
-                  disabled={isGeneratingPreview || !data.ai_prompt}
+                  disabled={isGeneratingPreview || !data.ai_prompt || !canVisualize}
                   className="flex items-center gap-1.5 px-3 py-1 bg-white border border-indigo-200 text-indigo-700 rounded-md text-xs font-medium hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                  title="Generate a low-res preview of this prompt"
+                  title={canVisualize ? t('result.visualizeTitle') : t('result.visualizeUnsupported')}
                 >
                   {isGeneratingPreview ? <Loader2 size={12} className="animate-spin" /> : <Eye size={12} />}
-                  <span>Visualize</span>
+                  <span>{t('result.visualize')}</span>
                 </button>
               <div className="h-4 w-px bg-indigo-200 mx-1"></div>
-              <span className="text-[10px] bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-bold uppercase">Editable</span>
+              <span className="text-[10px] bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-bold uppercase">{t('result.editable')}</span>
               <CopyButton text={data.ai_prompt} fieldId="prompt" />
             </div>
           </div>
@@ -385,8 +596,49 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
               value={data.ai_prompt}
               onChange={handlePromptChange}
               className="w-full h-32 p-3 text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-y font-mono"
-              placeholder="AI Prompt will appear here..."
+              placeholder={t('result.promptPlaceholder')}
             />
+
+            {isMidjourneyPrompt && (
+              <MidjourneyParamBar
+                prompt={data.ai_prompt}
+                model={data.used_model!}
+                aspectRatio={refineAspectRatio}
+                onChange={(prompt) => onUpdate({ ...data, ai_prompt: prompt })}
+              />
+            )}
+
+            {supportsTokenWeights(data.used_model) && (
+              <WeightedPromptEditor
+                prompt={data.ai_prompt}
+                onChange={(prompt) => onUpdate({ ...data, ai_prompt: prompt })}
+              />
+            )}
+
+            {showNegativePrompt && (
+              <div className="mt-4">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-xs font-bold text-red-500 uppercase">{t('result.negativePrompt')}</label>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={applyGenericNegative}
+                      className="text-xs font-medium text-slate-500 hover:text-indigo-600 hover:underline"
+                      title={t('result.genericNegativeTitle')}
+                    >
+                      {t('result.genericNegative')}
+                    </button>
+                    <CopyButton text={data.negative_prompt || ''} fieldId="negative_prompt" />
+                  </div>
+                </div>
+                <textarea
+                  value={data.negative_prompt || ''}
+                  onChange={(e) => onUpdate({ ...data, negative_prompt: e.target.value })}
+                  rows={2}
+                  className="w-full p-3 text-sm text-slate-700 bg-red-50/40 border border-red-100 rounded-lg focus:ring-2 focus:ring-red-300 focus:border-red-300 resize-y font-mono"
+                  placeholder="blurry, watermark, text..."
+                />
+              </div>
+            )}
             
             {/* Generated Preview Display */}
             {generatedPreviewUrl && (
@@ -395,7 +647,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                    <button 
                     onClick={() => setGeneratedPreviewUrl(null)} 
                     className="bg-white/90 p-1.5 rounded-full text-slate-600 hover:text-red-500 hover:bg-white shadow-sm"
-                    title="Close preview"
+                    title={t('result.closePreview')}
                    >
                      <X size={14} />
                    </button>
@@ -403,12 +655,12 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                 <div className="flex justify-center bg-[url('https://www.transparenttextures.com/patterns/checkerboard.png')]">
                    <img 
                     src={generatedPreviewUrl} 
-                    alt="Prompt Preview" 
+                    alt={t('result.previewAlt')} 
                     className="max-h-[300px] w-auto object-contain" 
                    />
                 </div>
                 <div className="px-3 py-2 bg-white border-t border-slate-100 text-xs text-center text-slate-500 font-medium">
-                   Generated Preview ({refineAspectRatio}) - For visualization purposes only
+                   {t('result.previewCaption', { ratio: refineAspectRatio })}
                 </div>
               </div>
             )}
@@ -417,7 +669,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
               <div className="mt-4 pt-4 border-t border-slate-100 flex items-start gap-2">
                 <Sliders size={16} className="text-slate-400 mt-0.5" />
                 <div>
-                  <span className="text-xs font-bold text-slate-500 uppercase block">Technical / Style Settings</span>
+                  <span className="text-xs font-bold text-slate-500 uppercase block">{t('result.technical')}</span>
                   <span className="text-xs text-slate-600">{data.technical_settings}</span>
                 </div>
               </div>
@@ -427,28 +679,29 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
             <div className="mt-4 bg-indigo-50/50 rounded-lg p-3 border border-indigo-100">
               <div className="flex items-center gap-2 mb-2">
                 <Sparkles size={14} className="text-indigo-600" />
-                <span className="text-xs font-bold text-indigo-800 uppercase">AI Refinement</span>
+                <span className="text-xs font-bold text-indigo-800 uppercase">{t('result.refinement')}</span>
               </div>
               <div className="flex flex-col sm:flex-row gap-2">
                 <input
                   type="text"
                   value={refineInstruction}
                   onChange={(e) => setRefineInstruction(e.target.value)}
-                  placeholder="Make it cinematic, blue lighting, cyberpunk..."
+                  placeholder={t('result.refinePlaceholder')}
                   className="flex-1 text-sm border-slate-200 rounded-md focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
                   onKeyDown={(e) => e.key === 'Enter' && handleRefineSubmit()}
                 />
                 <select
                   value={refineAspectRatio}
-                  onChange={(e) => setRefineAspectRatio(e.target.value)}
+                  onChange={(e) => handleRefineAspectRatioChange(e.target.value)}
                   className="text-sm border-slate-200 rounded-md focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 bg-white"
                 >
-                  <option value="1:1">1:1</option>
-                  <option value="16:9">16:9</option>
-                  <option value="4:3">4:3</option>
-                  <option value="3:2">3:2</option>
-                  <option value="2:3">2:3</option>
-                  <option value="9:16">9:16</option>
+                  {/* The item's detected ratio may be a custom one */}
+                  {!PRESET_ASPECT_RATIOS.includes(config.aspectRatio) && (
+                    <option value={config.aspectRatio}>{config.aspectRatio}</option>
+                  )}
+                  {PRESET_ASPECT_RATIOS.map(ratio => (
+                    <option key={ratio} value={ratio}>{ratio}</option>
+                  ))}
                 </select>
                 <button
                   onClick={handleRefineSubmit}
@@ -456,7 +709,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
                   className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   <RefreshCw size={14} className={isRefining ? 'animate-spin' : ''} />
-                  Refine
+                  {t('result.refine')}
                 </button>
               </div>
             </div>
@@ -469,7 +722,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
         <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Tag size={18} className="text-indigo-600" />
-            <h3 className="font-semibold text-slate-800">Keywords</h3>
+            <h3 className="font-semibold text-slate-800">{t('result.keywords')}</h3>
             <span className="text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-medium">
               {data.keywords.length}
             </span>
@@ -478,14 +731,14 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
              <button
               onClick={() => sortKeywords('alpha')}
               className="text-slate-400 hover:text-indigo-600 p-1 rounded transition-colors"
-              title="Sort Alphabetically"
+              title={t('result.sortAlpha')}
             >
               <ArrowDownAZ size={16} />
             </button>
             <button
               onClick={() => sortKeywords('length')}
               className="text-slate-400 hover:text-indigo-600 p-1 rounded transition-colors"
-              title="Sort by Length"
+              title={t('result.sortLength')}
             >
               <ArrowUpNarrowWide size={16} />
             </button>
@@ -494,16 +747,30 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
               onClick={() => copyToClipboard(data.keywords.join(', '), 'all_keywords')}
               className="text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline flex items-center gap-1"
             >
-              {copiedField === 'all_keywords' ? 'Copied!' : 'Copy All'}
+              {copiedField === 'all_keywords' ? t('result.copied') : t('result.copyAll')}
             </button>
           </div>
         </div>
         <div className="p-4">
+          <KeywordLintPanel
+            issues={lintIssues}
+            waivedKeys={lintWaivers}
+            onFix={handleLintFix}
+            onWaive={(issue) => onWaiveLint(issue.key)}
+          />
           <div className="flex flex-wrap gap-2 mb-3">
             {data.keywords.map((keyword, idx) => (
               <span 
                 key={idx} 
-                className="group inline-flex items-center px-2.5 py-1 rounded-md text-sm font-medium bg-slate-100 text-slate-600 border border-slate-200 hover:bg-indigo-50 hover:text-indigo-700 hover:border-indigo-200 transition-colors select-none"
+                className={`group inline-flex items-center px-2.5 py-1 rounded-md text-sm font-medium border hover:bg-indigo-50 hover:text-indigo-700 hover:border-indigo-200 transition-colors select-none
+                  ${ipFlaggedKeywords.has(keyword)
+                    ? 'bg-rose-50 text-rose-700 border-rose-300 ring-1 ring-rose-200'
+                    : flaggedKeywords.get(keyword) === 'error'
+                    ? 'bg-red-50 text-red-700 border-red-300'
+                    : flaggedKeywords.get(keyword) === 'warning'
+                      ? 'bg-amber-50 text-amber-700 border-amber-300'
+                      : 'bg-slate-100 text-slate-600 border-slate-200'}
+                `}
               >
                 <span onClick={() => copyToClipboard(keyword, `kw_${idx}`)} className="cursor-pointer">
                    {keyword}
@@ -518,14 +785,40 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
             ))}
           </div>
           <div className="flex items-center gap-2 mt-4 pt-4 border-t border-slate-100">
-             <input
-              type="text"
-              value={newKeyword}
-              onChange={(e) => setNewKeyword(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && addKeyword(newKeyword)}
-              placeholder="Add new keyword..."
-              className="text-sm border-slate-200 rounded-md focus:border-indigo-500 focus:ring-indigo-500 px-3 py-1.5 flex-1"
-             />
+            <div className="relative flex-1">
+              <input
+                type="text"
+                value={newKeyword}
+                onChange={(e) => { setNewKeyword(e.target.value); setHighlightedSuggestion(-1); }}
+                onKeyDown={handleKeywordInputKeyDown}
+                placeholder={t('result.addKeyword')}
+                className="text-sm border-slate-200 rounded-md focus:border-indigo-500 focus:ring-indigo-500 px-3 py-1.5 w-full"
+              />
+              {/* Suggestions keep focus in the input (mousedown is swallowed) so typing can continue after a click */}
+              {keywordSuggestions.length > 0 && (
+                <ul
+                  className="absolute left-0 right-0 bottom-full mb-1 z-20 bg-white border border-slate-200 rounded-md shadow-lg py-1 text-sm"
+                  title={t('vocabulary.suggestions')}
+                >
+                  {keywordSuggestions.map((suggestion, index) => (
+                    <li key={suggestion}>
+                      <button
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => addKeyword(suggestion)}
+                        className={`w-full text-left px-3 py-1 flex items-center gap-2
+                          ${index === highlightedSuggestion ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'}
+                        `}
+                      >
+                        <span className="truncate">{suggestion}</span>
+                        {vocabulary.usage[suggestion.toLowerCase()] > 0 && (
+                          <span className="ml-auto text-xs font-mono text-slate-400">{vocabulary.usage[suggestion.toLowerCase()]}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
              <button 
                onClick={() => addKeyword(newKeyword)}
                disabled={!newKeyword.trim()}
@@ -542,16 +835,16 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
         <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Type size={18} className="text-slate-500" />
-            <h3 className="font-semibold text-slate-600">Title & Description</h3>
+            <h3 className="font-semibold text-slate-600">{t('result.titleDescription')}</h3>
           </div>
           <button
             onClick={handleGenerateSeo}
             disabled={isGeneratingSeo}
             className="flex items-center gap-1.5 px-3 py-1 bg-amber-50 border border-amber-200 text-amber-700 rounded-full text-xs font-bold uppercase hover:bg-amber-100 transition-colors shadow-sm disabled:opacity-50"
-            title="Generate optimized title/desc variations"
+            title={t('result.seoTitle')}
           >
             {isGeneratingSeo ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
-            <span>Smart SEO</span>
+            <span>{t('result.smartSeo')}</span>
           </button>
         </div>
         
@@ -559,13 +852,13 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
         {seoVariations && (
            <div className="p-4 bg-amber-50/50 border-b border-amber-100 grid grid-cols-1 md:grid-cols-3 gap-3">
              {[
-               { type: 'Descriptive', data: seoVariations.descriptive, bg: 'bg-blue-50 hover:bg-blue-100 border-blue-200 text-blue-800' },
-               { type: 'Conceptual', data: seoVariations.conceptual, bg: 'bg-purple-50 hover:bg-purple-100 border-purple-200 text-purple-800' },
-               { type: 'Commercial', data: seoVariations.commercial, bg: 'bg-green-50 hover:bg-green-100 border-green-200 text-green-800' }
+               { variant: 'descriptive' as const, type: t('result.seo.descriptive'), data: seoVariations.descriptive, bg: 'bg-blue-50 hover:bg-blue-100 border-blue-200 text-blue-800' },
+               { variant: 'conceptual' as const, type: t('result.seo.conceptual'), data: seoVariations.conceptual, bg: 'bg-purple-50 hover:bg-purple-100 border-purple-200 text-purple-800' },
+               { variant: 'commercial' as const, type: t('result.seo.commercial'), data: seoVariations.commercial, bg: 'bg-green-50 hover:bg-green-100 border-green-200 text-green-800' }
              ].map((v) => (
                <button
-                  key={v.type}
-                  onClick={() => applySeoVariation(v.data)}
+                  key={v.variant}
+                  onClick={() => applySeoVariation(v.variant, v.data)}
                   className={`text-left p-3 rounded-lg border text-xs transition-all ${v.bg}`}
                >
                  <span className="block font-bold mb-1 uppercase tracking-wide opacity-70">{v.type}</span>
@@ -575,15 +868,77 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
              ))}
               <div className="md:col-span-3 text-center">
                 <button onClick={() => setSeoVariations(null)} className="text-xs text-slate-400 hover:text-slate-600">
-                  Cancel / Close Suggestions
+                  {t('result.closeSuggestions')}
                 </button>
               </div>
            </div>
         )}
 
         <div className="p-4 space-y-4">
+          {translatedLanguages.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {(['en', ...translatedLanguages] as const).map(lang => (
+                <button
+                  key={lang}
+                  onClick={() => setActiveLanguage(lang)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                    ${(activeTranslation ? activeLanguage : 'en') === lang
+                      ? 'bg-indigo-600 border-indigo-600 text-white'
+                      : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'}
+                  `}
+                >
+                  {lang === 'en' ? 'English' : METADATA_LANGUAGES[lang].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {activeTranslation && activeLanguage !== 'en' ? (
+            <>
+              <div className="relative group">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">{t('result.titleIn', { language: METADATA_LANGUAGES[activeLanguage].label })}</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={activeTranslation.title}
+                    onChange={(e) => updateTranslation(activeLanguage, { title: e.target.value })}
+                    className="flex-1 bg-slate-50 p-2.5 rounded-lg text-slate-800 text-sm font-medium border border-slate-200 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <CopyButton text={activeTranslation.title} fieldId={`title_${activeLanguage}`} />
+                </div>
+              </div>
+              <div className="relative group">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">{t('common.description')}</label>
+                <div className="flex items-center gap-2">
+                  <textarea
+                    value={activeTranslation.description}
+                    onChange={(e) => updateTranslation(activeLanguage, { description: e.target.value })}
+                    rows={2}
+                    className="flex-1 bg-slate-50 p-2.5 rounded-lg text-slate-700 text-sm border border-slate-200 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <CopyButton text={activeTranslation.description} fieldId={`desc_${activeLanguage}`} />
+                </div>
+              </div>
+              <div className="relative group">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">{t('result.keywordsCount', { count: activeTranslation.keywords.length })}</label>
+                <div className="flex items-center gap-2">
+                  {/* Committed on blur so typing a comma doesn't immediately split the list */}
+                  <textarea
+                    key={`${activeLanguage}-${activeTranslation.keywords.join(',')}`}
+                    defaultValue={activeTranslation.keywords.join(', ')}
+                    onBlur={(e) => updateTranslation(activeLanguage, {
+                      keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean),
+                    })}
+                    rows={3}
+                    className="flex-1 bg-slate-50 p-2.5 rounded-lg text-slate-700 text-sm border border-slate-200 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <CopyButton text={activeTranslation.keywords.join(', ')} fieldId={`kw_${activeLanguage}`} />
+                </div>
+              </div>
+            </>
+          ) : (
+          <>
           <div className="relative group">
-            <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">Title (English)</label>
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">{t('result.titleEnglish')}</label>
             <div className="flex items-center gap-2">
               <input 
                 value={data.title}
@@ -594,7 +949,7 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
             </div>
           </div>
           <div className="relative group">
-            <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">Description</label>
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 block">{t('common.description')}</label>
             <div className="flex items-center gap-2">
               <textarea 
                 value={data.description}
@@ -605,6 +960,8 @@ ${data.technical_settings ? `TECHNICAL: ${data.technical_settings}` : ''}`;
               <CopyButton text={data.description} fieldId="desc" />
             </div>
           </div>
+          </>
+          )}
         </div>
       </div>
 
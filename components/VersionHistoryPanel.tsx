@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { MetadataVersion, StockMetadata } from '../types';
+import { diffMetadata } from '../utils/metadataHistory';
+import { MessageKey } from '../utils/i18n';
+import { MetadataDiffView } from './MetadataDiffView';
+import { useI18n } from './I18nProvider';
+
+interface VersionHistoryPanelProps {
+  history: MetadataVersion[];
+  historyIndex?: number;
+  current: StockMetadata;
+  onRestore: (versionId: string) => void;
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ history, historyIndex, current, onRestore }) => {
+  const { t, locale } = useI18n();
+  const currentIndex = historyIndex ?? history.length - 1;
+  // Start on the version before the current one, which is what "what did that last change do?" needs
+  const [selectedId, setSelectedId] = useState<string | null>(history[Math.max(0, currentIndex - 1)]?.id ?? null);
+
+  const selectedIndex = history.findIndex(v => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? history[selectedIndex] : null;
+  const diffs = useMemo(() => selected ? diffMetadata(selected.data, current) : [], [selected, current]);
+
+  const describeChange = (version: MetadataVersion) => {
+    switch (version.kind) {
+      case 'refine': return t('history.refine', { instruction: version.detail || '' });
+      case 'seo': return t('history.seo', { variation: t(`result.seo.${version.detail}` as MessageKey) });
+      case 'sort': return t(version.detail === 'length' ? 'history.sortLength' : 'history.sortAlpha');
+      case 'restore': return t('history.restore', { version: version.detail || '' });
+      case 'manual': return t('history.manual');
+      case 'bulk': return t('history.bulk');
+      default: return t('history.generated');
+    }
+  };
+
+  if (history.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 p-4 text-sm text-slate-500">{t('history.empty')}</div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-5 py-3 border-b border-slate-100 flex items-center gap-2">
+        <History size={18} className="text-indigo-600" />
+        <h3 className="font-semibold text-slate-800">{t('history.title')}</h3>
+        <span className="text-xs text-slate-400">{t('history.count', { count: history.length })}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5">
+        <ol className="md:col-span-2 max-h-[360px] overflow-y-auto scrollbar-thin border-b md:border-b-0 md:border-r border-slate-100">
+          {history.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+            <li key={version.id}>
+              <button
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left px-4 py-2.5 border-b border-slate-50 text-xs transition-colors
+                  ${selectedId === version.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}
+                `}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-bold text-slate-500">v{index + 1}</span>
+                  <span className="text-slate-400">
+                    {new Date(version.createdAt).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  {index === currentIndex && (
+                    <span className="ml-auto px-1.5 py-0.5 rounded bg-indigo-600 text-white text-[10px] font-bold uppercase">{t('history.current')}</span>
+                  )}
+                </div>
+                <p className="text-slate-700 mt-0.5 line-clamp-2">{describeChange(version)}</p>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <div className="md:col-span-3 p-4 space-y-3 max-h-[360px] overflow-y-auto scrollbar-thin">
+          {!selected ? (
+            <p className="text-sm text-slate-500">{t('history.selectVersion')}</p>
+          ) : selectedIndex === currentIndex ? (
+            <p className="text-sm text-slate-500">{t('history.isCurrent')}</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <p className="text-xs font-bold text-slate-500 uppercase">{t('history.changesSince', { version: selectedIndex + 1 })}</p>
+                <button
+                  onClick={() => onRestore(selected.id)}
+                  className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium transition-colors"
+                >
+                  <RotateCcw size={12} />
+                  {t('history.restoreButton', { version: selectedIndex + 1 })}
+                </button>
+              </div>
+              {diffs.length === 0 ? (
+                <p className="text-sm text-slate-500">{t('history.noDifferences')}</p>
+              ) : (
+                <MetadataDiffView diffs={diffs} />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
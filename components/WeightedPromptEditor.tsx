@@ -0,0 +1,88 @@
+import React from 'react';
+import { Minus, Plus, X } from 'lucide-react';
+import { splitPromptParameters, joinPromptParameters } from '../utils/modelParameters';
+import { useI18n } from './I18nProvider';
+import { PromptToken, clampWeight, parseWeightedPrompt, serializeWeightedPrompt, formatToken } from '../utils/promptWeights';
+
+interface WeightedPromptEditorProps {
+  prompt: string;
+  onChange: (prompt: string) => void;
+}
+
+const WEIGHT_STEP = 0.1;
+
+const getWeightStyle = (weight: number) => {
+  if (weight > 1) return 'bg-indigo-50 border-indigo-200 text-indigo-800';
+  if (weight < 1) return 'bg-slate-50 border-slate-200 text-slate-400';
+  return 'bg-white border-slate-200 text-slate-700';
+};
+
+export const WeightedPromptEditor: React.FC<WeightedPromptEditorProps> = ({ prompt, onChange }) => {
+  const { t } = useI18n();
+  // Only the descriptive part is tokenized; Steps/Sampler lines are kept as-is
+  const { body, parameters } = splitPromptParameters(prompt);
+  const tokens = parseWeightedPrompt(body);
+
+  const updateTokens = (next: PromptToken[]) => {
+    onChange(joinPromptParameters(serializeWeightedPrompt(next), parameters));
+  };
+
+  const adjustWeight = (index: number, delta: number) => {
+    updateTokens(tokens.map((t, i) => i === index ? { ...t, weight: clampWeight(t.weight + delta) } : t));
+  };
+
+  const resetWeight = (index: number) => {
+    updateTokens(tokens.map((t, i) => i === index ? { ...t, weight: 1 } : t));
+  };
+
+  const removeToken = (index: number) => {
+    updateTokens(tokens.filter((_, i) => i !== index));
+  };
+
+  if (tokens.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <span className="text-xs font-bold text-slate-500 uppercase block mb-2">{t('weights.title')}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {tokens.map((token, idx) => (
+          <span
+            key={`${idx}-${token.text}`}
+            className={`group inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md border text-xs ${getWeightStyle(token.weight)}`}
+            title={formatToken(token)}
+          >
+            <span className="max-w-[220px] truncate">{token.text}</span>
+            <button
+              onClick={() => adjustWeight(idx, -WEIGHT_STEP)}
+              className="p-0.5 rounded hover:bg-slate-200/60"
+              title={t('weights.decrease')}
+            >
+              <Minus size={10} />
+            </button>
+            <button
+              onClick={() => resetWeight(idx)}
+              className={`font-mono text-[10px] w-7 text-center rounded hover:bg-slate-200/60 ${token.weight === 1 ? 'opacity-50' : 'font-bold'}`}
+              title={t('weights.reset')}
+            >
+              {token.weight % 1 === 0 ? token.weight.toFixed(1) : token.weight}
+            </button>
+            <button
+              onClick={() => adjustWeight(idx, WEIGHT_STEP)}
+              className="p-0.5 rounded hover:bg-slate-200/60"
+              title={t('weights.increase')}
+            >
+              <Plus size={10} />
+            </button>
+            <button
+              onClick={() => removeToken(idx)}
+              className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+              title={t('weights.remove')}
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
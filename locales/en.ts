@@ -0,0 +1,529 @@
+// English UI strings
+
+import { LocaleCatalog } from '../utils/i18n';
+
+export const en: LocaleCatalog = {
+  // Header
+  'header.tagline': 'AI assistant for microstock contributors',
+  'header.supportTitle': 'Support the development of this app',
+  'header.support': 'Support',
+  'header.language': 'Interface language',
+  'header.vocabulary': 'Keyword vocabulary',
+
+  // File upload
+  'upload.unsupportedSkipped': 'Some files were skipped because their format is not supported (use JPG, PNG, WEBP, PDF).',
+  'upload.processing': 'Processing batch...',
+  'upload.attention': 'Attention',
+  'upload.clickToAddValid': 'Click to add valid files',
+  'upload.title': 'Upload Many Files at Once',
+  'upload.dragDrop': 'Drag & drop multiple images or PDFs here',
+  'upload.supported': 'JPG, PNG, WEBP, PDF supported',
+  'upload.reset': 'Reset',
+
+  // Queue
+  'queue.retrying': '{error} Retrying in {seconds}s...',
+  'queue.requestFailed': 'Request failed.',
+  'queue.failed': 'Failed to process',
+  'queue.resume': 'Resume',
+  'queue.pause': 'Pause',
+  'queue.processPending': 'Process {count} pending',
+  'queue.retryFailed': 'Retry failed ({count})',
+  'queue.parallel': 'Parallel',
+  'queue.retries': 'Retries',
+  'queue.paused': 'Paused',
+
+  // App shell
+  'app.extractingPdf': 'Extracting PDF Pages...',
+  'app.extractingPdfHint': 'Please wait a moment while we split the pages.',
+  'app.heroTitle': 'Create',
+  'app.heroHighlight': 'Best-Selling',
+  'app.heroTitleEnd': 'Stock Assets',
+  'app.heroSubtitle': 'Upload multiple images or PDFs. Our AI generates high-converting prompts and metadata for Adobe Stock & Shutterstock instantly.',
+  'app.footerTagline': 'Helping microstock contributors produce quality assets with AI.',
+  'app.feedback': 'Feedback: {phone}',
+  'app.treatDeveloper': 'Buy the Developer a Coffee',
+  'app.rightsReserved': 'All rights reserved.',
+  'app.readDisclaimer': 'Read Disclaimer & Warnings',
+
+  // Aspect ratios
+  'aspect.square': 'Square',
+  'aspect.cinematic': 'Cinematic',
+  'aspect.standard': 'Standard',
+  'aspect.classicPhoto': 'Classic Photo',
+  'aspect.portrait': 'Portrait',
+  'aspect.story': 'Story',
+  'aspect.auto': 'Auto (per image)',
+  'aspect.custom': 'Custom…',
+  'aspect.customPlaceholder': 'e.g. 7:5',
+  'aspect.customInvalid': 'Use whole numbers as width:height, e.g. 7:5',
+  'aspect.autoHint': 'Each image keeps its own shape, snapped to the nearest ratio {model} supports',
+  'aspect.autoDetected': '{ratio} (auto)',
+
+  // Configuration panel
+  'config.title': 'Generation Settings',
+  'config.inanimateHint': 'Check every image for people/animals and steer prompts towards inanimate subjects',
+  'config.inanimateMode': 'Inanimate-Only Mode',
+  'config.targetModel': 'Target AI Model',
+  'config.editTemplates': 'Edit prompt templates',
+  'config.template': 'Template',
+  'config.aspectRatio': 'Aspect Ratio',
+  'config.keywordDensity': 'Keyword Density',
+  'config.densityLow': 'Low (15-20 tags)',
+  'config.densityStandard': 'Standard (30-40 tags)',
+  'config.densityHigh': 'High (50+ tags)',
+  'config.technical': 'Technical Details',
+  'config.includeSpecs': 'Include Specs',
+  'config.parameters': '{model} Parameters',
+  'config.translations': 'Metadata Translations',
+  'config.englishMaster': 'English is always generated as the master',
+  'config.translationsHint': 'Titles, descriptions and keywords are also generated in the selected languages and exported as extra CSV columns.',
+  'config.provider': 'AI Provider',
+  'config.filesStayLocal': 'Files stay on this machine',
+  'config.visionModel': 'Vision Model',
+  'config.baseUrlHint': 'For llama.cpp server use the OpenAI-compatible provider with http://localhost:8080/v1',
+  'config.imageModel': 'Image Model (Preview)',
+  'config.imageModelPlaceholder': 'dall-e-3 (optional)',
+  'config.exclude': 'Exclude (--no)',
+  'config.stylize': 'Stylize ({value})',
+  'config.chaos': 'Chaos ({value})',
+  'config.sampler': 'Sampler',
+  'config.cfgScale': 'CFG Scale ({value})',
+  'config.guidance': 'Guidance ({value})',
+  'config.steps': 'Steps',
+  'config.ideogramStyle': 'Style',
+  'config.ideogramStyle.auto': 'Auto',
+  'config.ideogramStyle.general': 'General',
+  'config.ideogramStyle.realistic': 'Realistic',
+  'config.ideogramStyle.design': 'Design',
+  'config.ideogramStyle.render_3d': '3D Render',
+  'config.ideogramStyle.anime': 'Anime',
+  'config.magicPrompt': 'Magic Prompt',
+  'config.magicPrompt.auto': 'Auto',
+  'config.magicPrompt.on': 'On',
+  'config.magicPrompt.off': 'Off',
+  'config.personGeneration': 'Person generation',
+  'config.personGeneration.dont_allow': 'Don\'t allow',
+  'config.personGeneration.allow_adult': 'Allow adults',
+  'config.personGeneration.allow_all': 'Allow all',
+  'config.enhancePrompt': 'Enhance prompt',
+  'config.leonardoPreset': 'Preset style',
+  'config.leonardoPreset.stock_photo': 'Stock Photo',
+  'config.leonardoPreset.photography': 'Photography',
+  'config.leonardoPreset.cinematic': 'Cinematic',
+  'config.leonardoPreset.dynamic': 'Dynamic',
+  'config.leonardoPreset.creative': 'Creative',
+  'config.leonardoPreset.portrait': 'Portrait',
+  'config.leonardoPreset.illustration': 'Illustration',
+  'config.leonardoPreset.vibrant': 'Vibrant',
+  'config.leonardoPreset.none': 'None',
+
+  // Disclaimer
+  'disclaimer.title': 'Warning & Disclaimer',
+  'disclaimer.greeting': 'Assalamu\'alaikum Warahmatullahi Wabarakatuh.',
+  'disclaimer.purpose': 'This tool was built to help microstock contributors create assets such as',
+  'disclaimer.purposeSubjects': 'landscapes, textures, architecture and inanimate objects',
+  'disclaimer.adviceTitle': 'Sharia Advice',
+  'disclaimer.hadith': '"Whoever makes an image (of a living being) in this world will be asked to breathe a soul into it on the Day of Resurrection, and he will not be able to do so."',
+  'disclaimer.hadithSource': '— Narrated by Bukhari, no. 5963',
+  'disclaimer.liabilityTitle': 'Disclaimer of Liability',
+  'disclaimer.liabilityIntro': 'We strongly advise against using this tool to generate prompts of living beings (people/animals). If users still decide to create images containing living beings, that is entirely',
+  'disclaimer.liabilityOwn': 'the personal responsibility of the user',
+  'disclaimer.liabilityOutro': 'before Allah SWT. The developer disclaims any use that contravenes the sharia.',
+  'disclaimer.enableInanimate': 'Enable Inanimate-Only Mode',
+  'disclaimer.inanimateHint': 'Every image is checked for people/animals, and prompts are steered towards landscapes, textures, architecture and inanimate objects. You can change this any time in the settings panel.',
+  'disclaimer.accept': 'I Understand, Continue',
+
+  // Session restore
+  'session.title': 'Restore Last Session?',
+  'session.previousBatch': 'A previous batch of',
+  'session.fileCount': { one: '{count} file', other: '{count} files' },
+  'session.savedOn': 'was saved on {date}.',
+  'session.completed': '{count} completed',
+  'session.unfinished': '{count} unfinished (can be resumed)',
+  'session.discard': 'Discard',
+  'session.restore': 'Restore',
+
+  // Batch results
+  'batch.keywordErrors': 'Keyword errors',
+  'batch.keywordWarnings': 'Keyword warnings',
+  'batch.fileQueue': 'File Queue ({count})',
+  'batch.taggedTitle': 'Download completed JPEGs with metadata embedded (ZIP)',
+  'batch.tagged': 'Tagged',
+  'batch.taggedSkipped': { one: '{count} file left out of the tagged ZIP because metadata could not be embedded:', other: '{count} files left out of the tagged ZIP because metadata could not be embedded:' },
+  'batch.csvBlocked': { one: '{count} file has keyword errors for this profile. Fix or waive them first.', other: '{count} files have keyword errors for this profile. Fix or waive them first.' },
+  'batch.csvTitle': 'Download all completed as CSV',
+  'batch.exportProfile': 'Export Profile',
+  'batch.genericProfile': 'Generic (All Fields)',
+  'batch.editorial': 'Editorial',
+  'batch.mature': 'Mature',
+  'batch.illustration': 'Illustration',
+  'batch.retrying': 'Retrying ({attempt}/{max})...',
+  'batch.generating': 'Generating...',
+  'batch.containsLiving': 'Contains living beings: {subjects}',
+  'batch.people': 'people',
+  'batch.animals': 'animals',
+  'batch.emptyQueue': 'No files in queue',
+  'batch.livingBanner': 'This image contains living beings ({subjects}). The prompt was steered towards inanimate subjects; review it before use.',
+  'batch.peopleOrAnimals': 'people/animals',
+  'batch.generatingTitle': 'Generating Metadata...',
+  'batch.analyzing': 'Analyzing {name} to create optimized stock assets.',
+  'batch.failedTitle': 'Processing Failed',
+  'batch.unknownError': 'Unknown error occurred while processing this file.',
+  'batch.pending': 'Pending...',
+  'batch.selectFile': 'Select a file from the list to view details.',
+
+  // Item status
+  'status.pending': 'Pending',
+  'status.processing': 'Processing',
+  'status.completed': 'Completed',
+  'status.error': 'Failed',
+  'status.held': 'Waiting: near-duplicate',
+  'status.skipped': 'Skipped: near-duplicate',
+  'status.preflightFailed': 'Failed pre-flight',
+
+  // Shared
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.title': 'Title',
+  'common.description': 'Description',
+  'common.fix': 'Fix',
+  'common.remove': 'Remove',
+  'common.add': 'Add',
+  'common.close': 'Close',
+
+  // Compliance summary
+  'compliance.peopleTitle': 'Images where people were detected',
+  'compliance.people': 'People:',
+  'compliance.animalsTitle': 'Images where animals were detected',
+  'compliance.animals': 'Animals:',
+  'compliance.compliantTitle': 'Prompts free of people and animals',
+  'compliance.compliant': 'Compliant prompts:',
+  'compliance.violationsTitle': 'Prompts that still mention people or animals',
+  'compliance.violations': 'Needs revision:',
+
+  // Embedded metadata
+  'embedded.title': 'Existing File Metadata',
+
+  // Keyword lint
+  'lint.nearDuplicate': '"{keyword}" is a near-duplicate of "{first}"',
+  'lint.banned': 'Spammy or banned term(s): {terms}',
+  'lint.multiWord': '{profile} prefers single words: {terms}',
+  'lint.tooMany': '{count} keywords exceed the {profile} limit of {max}',
+  'lint.tooFew': '{profile} requires at least {min} keywords (has {count})',
+  'lint.outOfContext': 'Not mentioned in title/description: {terms}',
+  'lint.title': 'Keyword Lint',
+  'lint.autoFixAll': 'Auto-fix all ({count})',
+  'lint.waiveTitle': 'Allow export despite this error',
+  'lint.waive': 'Waive',
+
+  // Midjourney parameters
+  'mj.repeated': '--{param} is repeated (already set to "{value}")',
+  'mj.unknown': '--{param} is not a known Midjourney parameter',
+  'mj.rawIsStyle': '--raw is not a parameter; raw mode is written --style raw',
+  'mj.unsupported': '--{param} is not supported by this Midjourney version',
+  'mj.invalidValue': '--{param} {problem}',
+  'mj.numberRange': 'must be a number from {min} to {max}',
+  'mj.oneOf': 'must be one of {values}',
+  'mj.ratioFormat': 'must look like 16:9',
+  'mj.needsTerm': 'needs at least one term',
+  'mj.versionMismatch': '--{param} {value} does not match the target ({expected})',
+  'mj.ratioMismatch': '--ar {value} disagrees with the selected aspect ratio {expected}',
+  'mj.parameters': 'Parameters',
+  'mj.fixAll': 'Fix all ({count})',
+
+  // IP risk
+  'ip.category.brand': 'Brand / Trademark',
+  'ip.category.character': 'Copyrighted Character',
+  'ip.category.artist': 'Artist Name',
+  'ip.category.landmark': 'Landmark (Property Release)',
+  'ip.field.title': 'Title',
+  'ip.field.description': 'Description',
+  'ip.field.ai_prompt': 'Prompt',
+  'ip.field.keywords': 'Keywords',
+  'ip.termsToggle': 'IP risk terms ({count} custom)',
+  'ip.title': 'IP / Trademark Risk',
+  'ip.replaceAll': 'Replace all',
+  'ip.terms': 'Terms',
+  'ip.visibleTitle': 'Detected in the image itself',
+  'ip.visible': 'Visible in image',
+  'ip.foundIn': 'Found in: {fields}',
+  'ip.notInText': 'Not in the text. Retouch or crop it out, or submit as editorial.',
+  'ip.replaceWith': 'Replace with "{replacement}"',
+  'ip.removeAll': 'Remove from all fields',
+  'ip.customTerms': 'Custom terms',
+  'ip.noCustomTerms': 'No custom terms yet.',
+  'ip.termPlaceholder': 'Term (e.g. brand name)',
+  'ip.replacementPlaceholder': 'Safe replacement',
+
+  // Prompt templates
+  'templates.invalidFile': 'Template file must contain an object of model templates',
+  'templates.placeholder.aspectRatio': 'Selected aspect ratio, e.g. 16:9',
+  'templates.placeholder.subject': 'Main subject (current title when refining)',
+  'templates.placeholder.density': 'Keyword density setting',
+  'templates.placeholder.model': 'Target model name',
+  'templates.placeholder.parameters': 'Native parameters from the config, e.g. --ar 16:9 --v 7',
+  'templates.importFailed': 'Import failed: {error}',
+  'templates.invalidImport': 'invalid file',
+  'templates.title': 'Prompt Templates',
+  'templates.customized': 'Customized',
+  'templates.reset': 'Reset to default',
+  'templates.export': 'Export JSON',
+  'templates.import': 'Import JSON',
+  'templates.preview': 'Live Preview (System Instruction)',
+  'templates.save': 'Save Templates',
+
+  // Token weights
+  'weights.title': 'Token Weights',
+  'weights.decrease': 'Decrease weight',
+  'weights.reset': 'Reset to 1.0',
+  'weights.increase': 'Increase weight',
+  'weights.remove': 'Remove token',
+
+  // Result card
+  'result.copy': 'Copy to clipboard',
+  'result.saveJson': 'Save JSON',
+  'result.saveTxt': 'Save TXT',
+  'result.taggedTitle': 'Download the original JPEG with title, description and keywords embedded (XMP/IPTC)',
+  'result.saveTagged': 'Save Tagged JPG',
+  'result.copiedAll': 'Copied All!',
+  'result.copyAllFields': 'Copy All Fields',
+  'result.autoRepaired': 'Auto-repaired ({count})',
+  'result.taggerTitle': 'Visual Keyword Tagger',
+  'result.taggerHint': 'Click image to add keywords',
+  'result.taggerAlt': 'Interactive analysis',
+  'result.suggestions': 'Suggestions',
+  'result.analyzingSpot': 'Analyzing spot...',
+  'result.noSuggestions': 'No specific keywords found.',
+  'result.refining': 'Refining prompt...',
+  'result.promptTitle': '{model} Prompt',
+  'result.visualizeTitle': 'Generate a low-res preview of this prompt',
+  'result.visualizeUnsupported': 'The selected provider cannot generate images',
+  'result.visualize': 'Visualize',
+  'result.editable': 'Editable',
+  'result.promptPlaceholder': 'AI Prompt will appear here...',
+  'result.negativePrompt': 'Negative Prompt',
+  'result.genericNegativeTitle': 'Add common quality/artifact negatives',
+  'result.genericNegative': '+ Generic',
+  'result.closePreview': 'Close preview',
+  'result.previewAlt': 'Prompt Preview',
+  'result.previewCaption': 'Generated Preview ({ratio}) - For visualization purposes only',
+  'result.technical': 'Technical / Style Settings',
+  'result.refinement': 'AI Refinement',
+  'result.refinePlaceholder': 'Make it cinematic, blue lighting, cyberpunk...',
+  'result.refine': 'Refine',
+  'result.keywords': 'Keywords',
+  'result.sortAlpha': 'Sort Alphabetically',
+  'result.sortLength': 'Sort by Length',
+  'result.copied': 'Copied!',
+  'result.copyAll': 'Copy All',
+  'result.addKeyword': 'Add new keyword...',
+  'result.titleDescription': 'Title & Description',
+  'result.seoTitle': 'Generate optimized title/desc variations',
+  'result.smartSeo': 'Smart SEO',
+  'result.seo.descriptive': 'Descriptive',
+  'result.seo.conceptual': 'Conceptual',
+  'result.seo.commercial': 'Commercial',
+  'result.closeSuggestions': 'Cancel / Close Suggestions',
+  'result.titleIn': 'Title ({language})',
+  'result.keywordsCount': 'Keywords ({count})',
+  'result.titleEnglish': 'Title (English)',
+
+  // Errors
+  'error.invalidResponse': 'Invalid model response: {errors}',
+  'error.quota': 'API quota limit reached (429). Please try again later.',
+  'error.analyzeFailed': 'Failed to analyze the file. Make sure the API key/model is valid and the file is not corrupted.',
+  'error.refineFailed': 'Failed to refine the prompt.',
+  'error.previewFailed': 'Failed to generate the preview image.',
+  'error.pdfNotLoaded': 'PDF Library not loaded. Please refresh the page.',
+  'error.pdfFailed': 'Failed to process the PDF file. Make sure it is not corrupted or password-protected.',
+  'error.jpegOnly': 'Embedding metadata is only supported for JPEG files.',
+  'error.xmpUnreadable': 'The file\'s existing XMP couldn\'t be read, so metadata wasn\'t embedded to avoid losing it.',
+
+  // Config presets
+  'presets.label': 'Presets',
+  'presets.custom': 'Custom settings',
+  'presets.none': 'No presets yet',
+  'presets.save': 'Save',
+  'presets.saveTitle': 'Save these settings as a named preset',
+  'presets.delete': 'Delete preset "{name}"',
+  'presets.namePlaceholder': 'e.g. Textures – SDXL – High density',
+
+  // Per-item settings
+  'itemConfig.settings': 'Settings:',
+  'itemConfig.differs': 'Differs from global',
+  'itemConfig.differsTitle': 'This file was generated with settings that differ from the current configuration panel',
+  'itemConfig.override': 'Override & re-run',
+  'itemConfig.title': 'Override File Settings',
+  'itemConfig.subtitle': { one: '{count} file will be re-run with these settings; the global settings stay unchanged.', other: '{count} files will be re-run with these settings; the global settings stay unchanged.' },
+  'itemConfig.replaceNote': 'Existing results (including manual edits) are replaced once the re-run finishes.',
+  'itemConfig.run': { one: 'Re-run {count} file', other: 'Re-run {count} files' },
+
+  // Version history
+  'history.title': 'History',
+  'history.toggle': 'Show version history and diff',
+  'history.undo': 'Undo last change',
+  'history.redo': 'Redo change',
+  'history.count': { one: '{count} version', other: '{count} versions' },
+  'history.current': 'Current',
+  'history.generated': 'Generated by AI',
+  'history.manual': 'Manual edit',
+  'history.bulk': 'Bulk edit',
+  'history.refine': 'Refine: "{instruction}"',
+  'history.seo': 'SEO variation applied: {variation}',
+  'history.sortAlpha': 'Keywords sorted alphabetically',
+  'history.sortLength': 'Keywords sorted by length',
+  'history.restore': 'Restored version {version}',
+  'history.selectVersion': 'Select a version to see what changed.',
+  'history.isCurrent': 'This is the version currently in use.',
+  'history.changesSince': 'Changes since v{version}',
+  'history.restoreButton': 'Restore v{version}',
+  'history.noDifferences': 'No differences from the current version.',
+  'history.reordered': 'Same keywords in a different order.',
+  'history.empty': 'No history for this file yet.',
+  'history.field.title': 'Title',
+  'history.field.description': 'Description',
+  'history.field.ai_prompt': 'AI Prompt',
+  'history.field.negative_prompt': 'Negative Prompt',
+  'history.field.category': 'Category',
+  'history.field.technical_settings': 'Technical Settings',
+  'history.field.keywords': 'Keywords',
+
+  // Bulk edit
+  'bulk.title': 'Bulk Edit',
+  'bulk.selected': { other: '{count} selected' },
+  'bulk.editable': { other: '{count} completed and editable' },
+  'bulk.selectAll': 'Select all',
+  'bulk.selectItem': 'Select for bulk edit (Shift+click for a range)',
+  'bulk.clearSelection': 'Clear selection',
+  'bulk.editTab': 'Edit',
+  'bulk.refineTab': 'AI Refine',
+  'bulk.addKeywords': 'Add keywords',
+  'bulk.removeKeywords': 'Remove keywords',
+  'bulk.keywordsPlaceholder': 'comma-separated, e.g. coffee, morning',
+  'bulk.find': 'Find',
+  'bulk.replaceWith': 'Replace with',
+  'bulk.replaceIn': 'Replace in:',
+  'bulk.matchCase': 'Match case',
+  'bulk.setCategory': 'Set category',
+  'bulk.unchanged': 'Unchanged',
+  'bulk.promptSuffix': 'Append to prompts',
+  'bulk.promptSuffixPlaceholder': 'e.g. soft morning light (placed before parameters)',
+  'bulk.refineInstruction': 'Refine instruction',
+  'bulk.refineHint': { one: 'Runs for {count} file using its own settings. Nothing changes until you apply it.', other: 'Runs one by one for {count} files using each file\'s settings. Nothing changes until you apply it.' },
+  'bulk.preview': 'Preview changes',
+  'bulk.refining': 'Refining {done}/{total}...',
+  'bulk.willChange': { one: '{count} file will change', other: '{count} files will change' },
+  'bulk.apply': { one: 'Apply to {count} file', other: 'Apply to {count} files' },
+  'bulk.discard': 'Discard preview',
+  'bulk.skippedChanged': { one: '{count} file was edited after the preview was made and was skipped. Preview again to include it.', other: '{count} files were edited after the preview was made and were skipped. Preview again to include them.' },
+
+  // Keyword vocabulary
+  'vocabulary.title': 'Keyword Vocabulary',
+  'vocabulary.summary': { one: '{count} term · {groups} synonym groups', other: '{count} terms · {groups} synonym groups' },
+  'vocabulary.termsTab': 'Terms',
+  'vocabulary.synonymsTab': 'Synonyms',
+  'vocabulary.searchPlaceholder': 'Search terms...',
+  'vocabulary.empty': 'No terms yet. Keywords from completed results are recorded automatically, or import your own list.',
+  'vocabulary.noMatches': 'No matching terms.',
+  'vocabulary.usedTimes': { one: 'Used {count} time', other: 'Used {count} times' },
+  'vocabulary.removeTerm': 'Remove term',
+  'vocabulary.moreTerms': { one: '{count} more term hidden. Narrow the search.', other: '{count} more terms hidden. Narrow the search.' },
+  'vocabulary.synonymsHint': 'One group per line, comma-separated. The first term is the preferred spelling; generated keywords are replaced with it.',
+  'vocabulary.synonymsPlaceholder': 'grey, gray\nsmartphone, cell phone, mobile phone',
+  'vocabulary.saveSynonyms': 'Save Synonyms',
+  'vocabulary.export': 'Export vocabulary',
+  'vocabulary.import': 'Import list (.json, .txt, .csv)',
+  'vocabulary.imported': { one: 'Imported {count} new term.', other: 'Imported {count} new terms.' },
+  'vocabulary.importFailed': 'Import failed: {error}',
+  'vocabulary.invalidFile': 'Not a valid vocabulary file.',
+  'vocabulary.suggestions': 'Suggestions from your vocabulary',
+
+  // Batch analytics
+  'analytics.open': 'Analytics',
+  'analytics.openTitle': 'Keyword frequency and coverage across the batch',
+  'analytics.title': 'Keyword Analytics',
+  'analytics.summary': { one: '{count} item analyzed · {keywords} unique keywords', other: '{count} items analyzed · {keywords} unique keywords' },
+  'analytics.empty': 'No completed results to analyze yet.',
+  'analytics.usedOn': 'Used on {count} of {total} items',
+  'analytics.generic': { one: '{count} keyword is on almost every item. Generic tags like this don\'t set your files apart.', other: '{count} keywords are on almost every item. Generic tags like these don\'t set your files apart.' },
+  'analytics.sparse': { one: '{count} item has far fewer distinct keywords than the median ({median})', other: '{count} items have far fewer distinct keywords than the median ({median})' },
+  'analytics.sparseItem': '{name} ({count})',
+  'analytics.duplicateTitles': { one: '{count} title is used by more than one item', other: '{count} titles are used by more than one item' },
+  'analytics.noFindings': 'No generic tags, thin tagging or duplicate titles.',
+  'analytics.mostUsed': 'Most used',
+  'analytics.leastUsed': 'Least used',
+  'analytics.categories': 'Categories',
+  'analytics.noCategories': 'No categories yet.',
+  'analytics.filter.keyword': 'Keyword: {value}',
+  'analytics.filter.category': 'Category: {value}',
+  'analytics.filter.title': 'Title: {value}',
+  'analytics.filter.sparse': 'Thin tagging',
+  'analytics.filtered': '{shown} of {total} items',
+  'analytics.clearFilter': 'Clear filter',
+  'analytics.noMatches': 'No items match this filter.',
+
+  // Near-duplicates
+  'duplicates.title': 'Near-duplicates',
+  'duplicates.clusters': { one: '{count} group', other: '{count} groups' },
+  'duplicates.threshold': 'Tolerance',
+  'duplicates.thresholdHint': 'How many perceptual-hash bits may differ. Higher groups more images together.',
+  'duplicates.none': 'No near-duplicates at this tolerance.',
+  'duplicates.similar': { one: '{count} similar image', other: '{count} similar images' },
+  'duplicates.waiting': { one: '{count} waiting', other: '{count} waiting' },
+  'duplicates.series': 'Series',
+  'duplicates.keepBest': 'Keep best',
+  'duplicates.keepBestTitle': 'Remove the others from the batch and keep the highest resolution',
+  'duplicates.keepBestConfirm': { one: '{count} other file in this group already has results, which may include your edits. Delete it too? Cancel keeps it and only removes the unprocessed ones.', other: '{count} other files in this group already have results, which may include your edits. Delete them too? Cancel keeps them and only removes the unprocessed ones.' },
+  'duplicates.skipRest': 'Skip the rest',
+  'duplicates.skipRestTitle': 'Keep the others listed but never process them',
+  'duplicates.processSeries': 'Process as series',
+  'duplicates.seriesTitle': 'These are a series on purpose; process all of them',
+  'duplicates.heldBanner': 'This file is nearly identical to another one in the batch and hasn\'t been processed. Decide in the Near-duplicates panel.',
+  'duplicates.skippedBanner': 'This file was skipped as a near-duplicate of another file in the batch.',
+
+  // Pre-flight checks
+  'preflight.profile': 'Pre-flight checks for',
+  'preflight.profileHint': 'Every image is checked against the agency\'s technical requirements and marked pass, warn or fail. PDF pages are not checked.',
+  'preflight.genericProfile': 'Generic',
+  'preflight.title': 'Pre-flight',
+  'preflight.status.pass': 'Pass',
+  'preflight.status.warn': 'Warning',
+  'preflight.status.fail': 'Fail',
+  'preflight.megapixels.pass': '{megapixels} MP (minimum {min} MP)',
+  'preflight.megapixels.tooSmall': '{megapixels} MP: {profile} needs at least {min} MP',
+  'preflight.megapixels.tooLarge': '{megapixels} MP: {profile} accepts at most {max} MP',
+  'preflight.fileSize.pass': '{size} (maximum {max} MB)',
+  'preflight.fileSize.fail': '{size} exceeds the {max} MB limit',
+  'preflight.color.srgb': 'Colour profile {name}',
+  'preflight.color.untagged': 'No embedded colour profile; treated as sRGB',
+  'preflight.color.cmyk': 'CMYK files are rejected; convert to sRGB',
+  'preflight.color.convert': 'Colour profile {name}; convert to sRGB so colours don\'t shift',
+  'preflight.color.grayscale': 'grayscale',
+  'preflight.color.unknown': 'unknown',
+  'preflight.quality.pass': 'Estimated JPEG quality {quality}',
+  'preflight.quality.warn': 'Estimated JPEG quality {quality} (recommended {min}+); compression artifacts may show',
+  'preflight.quality.fail': 'Estimated JPEG quality {quality}: too heavily compressed',
+  'preflight.upscaling.pass': 'Fine detail looks native',
+  'preflight.upscaling.warn': 'Fine detail is soft for this resolution; the image may be upscaled',
+  'preflight.blocked': 'This file doesn\'t meet the agency\'s requirements and hasn\'t been sent to the AI.',
+  'preflight.processAnyway': 'Process anyway',
+  'preflight.holdFailed': 'Hold failed files',
+  'preflight.holdFailedHint': 'Files failing pre-flight for the selected agency aren\'t sent to the AI until you process them',
+  'preflight.processAllHeld': 'Process {count} held by pre-flight',
+  'preflight.badge': 'Pre-flight: {status}',
+
+  // Analysis image
+  'analysisImage.enabled': 'Shrink images before sending them to the model',
+  'analysisImage.hint': 'The model gets a resized, compressed copy; the original file is still used for export',
+  'analysisImage.maxEdge': 'Longest edge',
+  'analysisImage.maxEdgeOption': 'Max {size} px',
+  'analysisImage.quality': 'JPEG quality',
+  'analysisImage.qualityOption': 'Quality {quality}',
+  'analysisImage.title': 'Sent to model',
+  'analysisImage.sent': '{size} instead of {original} (−{percent}%)',
+  'analysisImage.sentOriginal': 'Original file, {size}',
+  'analysisImage.prepared': 'Prepared in {ms} ms',
+  'analysisImage.request': 'request {seconds} s',
+  'analysisImage.average': 'batch average: {downscaled} s downscaled, {original} s full size',
+  'analysisImage.batchSaved': '{size} saved across the batch',
+};
@@ -0,0 +1,527 @@
+// Indonesian UI strings: the source catalog, every message key must exist here
+
+export const id = {
+  // Header
+  'header.tagline': 'AI Assistant untuk Microstocker',
+  'header.supportTitle': 'Dukung pengembangan aplikasi ini',
+  'header.support': 'Dukungan',
+  'header.language': 'Bahasa antarmuka',
+  'header.vocabulary': 'Kosakata keyword',
+
+  // File upload
+  'upload.unsupportedSkipped': 'Beberapa file dilewati karena format tidak didukung (Gunakan JPG, PNG, WEBP, PDF).',
+  'upload.processing': 'Memproses batch...',
+  'upload.attention': 'Perhatian',
+  'upload.clickToAddValid': 'Klik untuk menambahkan file yang valid',
+  'upload.title': 'Upload Banyak File Sekaligus',
+  'upload.dragDrop': 'Tarik & lepas beberapa gambar atau PDF di sini',
+  'upload.supported': 'Mendukung JPG, PNG, WEBP, PDF',
+  'upload.reset': 'Atur ulang',
+
+  // Queue
+  'queue.retrying': '{error} Mencoba lagi dalam {seconds} dtk...',
+  'queue.requestFailed': 'Permintaan gagal.',
+  'queue.failed': 'Gagal memproses',
+  'queue.resume': 'Lanjutkan',
+  'queue.pause': 'Jeda',
+  'queue.processPending': 'Proses {count} yang menunggu',
+  'queue.retryFailed': 'Ulangi yang gagal ({count})',
+  'queue.parallel': 'Paralel',
+  'queue.retries': 'Percobaan ulang',
+  'queue.paused': 'Dijeda',
+
+  // App shell
+  'app.extractingPdf': 'Mengekstrak Halaman PDF...',
+  'app.extractingPdfHint': 'Mohon tunggu sebentar, kami sedang memisahkan halaman.',
+  'app.heroTitle': 'Buat Aset Stock',
+  'app.heroHighlight': 'Best-Seller',
+  'app.heroTitleEnd': '',
+  'app.heroSubtitle': 'Upload banyak gambar atau PDF. AI kami langsung membuat prompt dan metadata yang laku untuk Adobe Stock & Shutterstock.',
+  'app.footerTagline': 'Membantu Microstocker menghasilkan aset berkualitas dengan AI.',
+  'app.feedback': 'Saran & Kritik: {phone}',
+  'app.treatDeveloper': 'Traktir Pengembang',
+  'app.rightsReserved': 'Hak cipta dilindungi.',
+  'app.readDisclaimer': 'Baca Disclaimer & Peringatan',
+
+  // Aspect ratios
+  'aspect.square': 'Persegi',
+  'aspect.cinematic': 'Sinematik',
+  'aspect.standard': 'Standar',
+  'aspect.classicPhoto': 'Foto Klasik',
+  'aspect.portrait': 'Potret',
+  'aspect.story': 'Story',
+  'aspect.auto': 'Otomatis (per gambar)',
+  'aspect.custom': 'Kustom…',
+  'aspect.customPlaceholder': 'mis. 7:5',
+  'aspect.customInvalid': 'Gunakan bilangan bulat lebar:tinggi, mis. 7:5',
+  'aspect.autoHint': 'Setiap gambar memakai rasionya sendiri, dibulatkan ke rasio terdekat yang didukung {model}',
+  'aspect.autoDetected': '{ratio} (otomatis)',
+
+  // Configuration panel
+  'config.title': 'Konfigurasi Generasi',
+  'config.inanimateHint': 'Periksa manusia/hewan pada setiap gambar dan arahkan prompt ke objek benda mati',
+  'config.inanimateMode': 'Mode Benda Mati',
+  'config.targetModel': 'Target Model AI',
+  'config.editTemplates': 'Edit template prompt',
+  'config.template': 'Template',
+  'config.aspectRatio': 'Rasio Aspek',
+  'config.keywordDensity': 'Kepadatan Keyword',
+  'config.densityLow': 'Rendah (15-20 tag)',
+  'config.densityStandard': 'Standar (30-40 tag)',
+  'config.densityHigh': 'Tinggi (50+ tag)',
+  'config.technical': 'Detail Teknis',
+  'config.includeSpecs': 'Sertakan Spesifikasi',
+  'config.parameters': 'Parameter {model}',
+  'config.translations': 'Terjemahan Metadata',
+  'config.englishMaster': 'Bahasa Inggris selalu dibuat sebagai versi utama',
+  'config.translationsHint': 'Judul, deskripsi dan keyword juga dibuat dalam bahasa terpilih dan diekspor sebagai kolom tambahan di CSV.',
+  'config.provider': 'Provider AI',
+  'config.filesStayLocal': 'File tetap di komputer ini',
+  'config.visionModel': 'Model Vision',
+  'config.baseUrlHint': 'Untuk server llama.cpp gunakan provider OpenAI-compatible dengan http://localhost:8080/v1',
+  'config.imageModel': 'Model Gambar (Preview)',
+  'config.imageModelPlaceholder': 'dall-e-3 (opsional)',
+  'config.exclude': 'Kecualikan (--no)',
+  'config.stylize': 'Stylize ({value})',
+  'config.chaos': 'Chaos ({value})',
+  'config.sampler': 'Sampler',
+  'config.cfgScale': 'CFG Scale ({value})',
+  'config.guidance': 'Guidance ({value})',
+  'config.steps': 'Langkah (steps)',
+  'config.ideogramStyle': 'Gaya',
+  'config.ideogramStyle.auto': 'Otomatis',
+  'config.ideogramStyle.general': 'Umum',
+  'config.ideogramStyle.realistic': 'Realistis',
+  'config.ideogramStyle.design': 'Desain',
+  'config.ideogramStyle.render_3d': 'Render 3D',
+  'config.ideogramStyle.anime': 'Anime',
+  'config.magicPrompt': 'Magic Prompt',
+  'config.magicPrompt.auto': 'Otomatis',
+  'config.magicPrompt.on': 'Aktif',
+  'config.magicPrompt.off': 'Nonaktif',
+  'config.personGeneration': 'Pembuatan orang',
+  'config.personGeneration.dont_allow': 'Tidak diizinkan',
+  'config.personGeneration.allow_adult': 'Hanya orang dewasa',
+  'config.personGeneration.allow_all': 'Izinkan semua',
+  'config.enhancePrompt': 'Sempurnakan prompt',
+  'config.leonardoPreset': 'Gaya preset',
+  'config.leonardoPreset.stock_photo': 'Foto Stok',
+  'config.leonardoPreset.photography': 'Fotografi',
+  'config.leonardoPreset.cinematic': 'Sinematik',
+  'config.leonardoPreset.dynamic': 'Dinamis',
+  'config.leonardoPreset.creative': 'Kreatif',
+  'config.leonardoPreset.portrait': 'Potret',
+  'config.leonardoPreset.illustration': 'Ilustrasi',
+  'config.leonardoPreset.vibrant': 'Cerah',
+  'config.leonardoPreset.none': 'Tanpa preset',
+
+  // Disclaimer
+  'disclaimer.title': 'Peringatan & Penafian (Disclaimer)',
+  'disclaimer.greeting': 'Assalamu\'alaikum Warahmatullahi Wabarakatuh.',
+  'disclaimer.purpose': 'Tools ini dikembangkan dengan tujuan membantu kontributor microstock menciptakan aset berupa',
+  'disclaimer.purposeSubjects': 'landscape, tekstur, arsitektur, dan benda mati',
+  'disclaimer.adviceTitle': 'Nasihat Syariah',
+  'disclaimer.hadith': '"Siapapun yang membuat gambar (makhluk bernyawa) di dunia ini, maka dia akan dipaksa untuk meniupkan roh padanya pada hari kiamat, padahal dia tidak mampu meniupkannya."',
+  'disclaimer.hadithSource': '— HR. Bukhari no. 5963',
+  'disclaimer.liabilityTitle': 'Penafian Tanggung Jawab',
+  'disclaimer.liabilityIntro': 'Kami sangat menyarankan agar tidak menggunakan alat ini untuk men-generate prompt makhluk bernyawa (manusia/hewan). Jika pengguna tetap memutuskan untuk membuat gambar yang mengandung unsur makhluk bernyawa, maka hal tersebut menjadi',
+  'disclaimer.liabilityOwn': 'tanggung jawab pribadi pengguna',
+  'disclaimer.liabilityOutro': 'sepenuhnya di hadapan Allah SWT. Pengembang aplikasi berlepas diri dari penggunaan yang menyalahi syariat.',
+  'disclaimer.enableInanimate': 'Aktifkan Mode Benda Mati',
+  'disclaimer.inanimateHint': 'Setiap gambar diperiksa untuk manusia/hewan, dan prompt diarahkan ke landscape, tekstur, arsitektur, dan benda mati. Bisa diubah kapan saja di panel konfigurasi.',
+  'disclaimer.accept': 'Saya Mengerti & Lanjutkan',
+
+  // Session restore
+  'session.title': 'Pulihkan Sesi Terakhir?',
+  'session.previousBatch': 'Batch sebelumnya berisi',
+  'session.fileCount': { other: '{count} file' },
+  'session.savedOn': 'disimpan pada {date}.',
+  'session.completed': '{count} selesai',
+  'session.unfinished': '{count} belum selesai (bisa dilanjutkan)',
+  'session.discard': 'Buang',
+  'session.restore': 'Pulihkan',
+
+  // Batch results
+  'batch.keywordErrors': 'Error keyword',
+  'batch.keywordWarnings': 'Peringatan keyword',
+  'batch.fileQueue': 'Antrian File ({count})',
+  'batch.taggedTitle': 'Unduh JPEG yang selesai dengan metadata tertanam (ZIP)',
+  'batch.tagged': 'Tagged',
+  'batch.taggedSkipped': { other: '{count} file dilewati di ZIP tagged karena metadata tidak bisa ditanam:' },
+  'batch.csvBlocked': { other: '{count} file memiliki error keyword untuk profil ini. Perbaiki atau abaikan dulu.' },
+  'batch.csvTitle': 'Unduh semua yang selesai sebagai CSV',
+  'batch.exportProfile': 'Profil Ekspor',
+  'batch.genericProfile': 'Generik (Semua Kolom)',
+  'batch.editorial': 'Editorial',
+  'batch.mature': 'Dewasa',
+  'batch.illustration': 'Ilustrasi',
+  'batch.retrying': 'Mencoba lagi ({attempt}/{max})...',
+  'batch.generating': 'Membuat...',
+  'batch.containsLiving': 'Mengandung makhluk bernyawa: {subjects}',
+  'batch.people': 'manusia',
+  'batch.animals': 'hewan',
+  'batch.emptyQueue': 'Tidak ada file di antrian',
+  'batch.livingBanner': 'Gambar ini mengandung makhluk bernyawa ({subjects}). Prompt diarahkan ke objek benda mati; periksa kembali sebelum digunakan.',
+  'batch.peopleOrAnimals': 'manusia/hewan',
+  'batch.generatingTitle': 'Membuat Metadata...',
+  'batch.analyzing': 'Menganalisis {name} untuk membuat aset stock yang optimal.',
+  'batch.failedTitle': 'Pemrosesan Gagal',
+  'batch.unknownError': 'Terjadi error yang tidak diketahui saat memproses file ini.',
+  'batch.pending': 'Menunggu...',
+  'batch.selectFile': 'Pilih file dari daftar untuk melihat detail.',
+
+  // Item status
+  'status.pending': 'Menunggu',
+  'status.processing': 'Diproses',
+  'status.completed': 'Selesai',
+  'status.error': 'Gagal',
+  'status.held': 'Menunggu keputusan (mirip)',
+  'status.skipped': 'Dilewati (mirip)',
+  'status.preflightFailed': 'Gagal pre-flight',
+
+  // Shared
+  'common.retry': 'Coba Lagi',
+  'common.cancel': 'Batal',
+  'common.title': 'Judul',
+  'common.description': 'Deskripsi',
+  'common.fix': 'Perbaiki',
+  'common.remove': 'Hapus',
+  'common.add': 'Tambah',
+  'common.close': 'Tutup',
+
+  // Compliance summary
+  'compliance.peopleTitle': 'Gambar yang terdeteksi berisi manusia',
+  'compliance.people': 'Manusia:',
+  'compliance.animalsTitle': 'Gambar yang terdeteksi berisi hewan',
+  'compliance.animals': 'Hewan:',
+  'compliance.compliantTitle': 'Prompt tanpa manusia dan hewan',
+  'compliance.compliant': 'Prompt patuh:',
+  'compliance.violationsTitle': 'Prompt yang masih menyebut manusia atau hewan',
+  'compliance.violations': 'Perlu revisi:',
+
+  // Embedded metadata
+  'embedded.title': 'Metadata File yang Ada',
+
+  // Keyword lint
+  'lint.nearDuplicate': '"{keyword}" hampir sama dengan "{first}"',
+  'lint.banned': 'Istilah spam atau terlarang: {terms}',
+  'lint.multiWord': '{profile} lebih menyukai satu kata: {terms}',
+  'lint.tooMany': '{count} keyword melebihi batas {profile} yaitu {max}',
+  'lint.tooFew': '{profile} membutuhkan minimal {min} keyword (ada {count})',
+  'lint.outOfContext': 'Tidak disebut di judul/deskripsi: {terms}',
+  'lint.title': 'Lint Keyword',
+  'lint.autoFixAll': 'Perbaiki semua otomatis ({count})',
+  'lint.waiveTitle': 'Izinkan ekspor meski ada error ini',
+  'lint.waive': 'Abaikan',
+
+  // Midjourney parameters
+  'mj.repeated': '--{param} diulang (sudah diisi "{value}")',
+  'mj.unknown': '--{param} bukan parameter Midjourney yang dikenal',
+  'mj.rawIsStyle': '--raw bukan parameter; raw mode ditulis --style raw',
+  'mj.unsupported': '--{param} tidak didukung oleh versi Midjourney ini',
+  'mj.invalidValue': '--{param} {problem}',
+  'mj.numberRange': 'harus berupa angka dari {min} sampai {max}',
+  'mj.oneOf': 'harus salah satu dari {values}',
+  'mj.ratioFormat': 'harus berformat seperti 16:9',
+  'mj.needsTerm': 'membutuhkan minimal satu istilah',
+  'mj.versionMismatch': '--{param} {value} tidak sesuai dengan target ({expected})',
+  'mj.ratioMismatch': '--ar {value} tidak sesuai dengan rasio aspek terpilih {expected}',
+  'mj.parameters': 'Parameter',
+  'mj.fixAll': 'Perbaiki semua ({count})',
+
+  // IP risk
+  'ip.category.brand': 'Merek / Trademark',
+  'ip.category.character': 'Karakter Berhak Cipta',
+  'ip.category.artist': 'Nama Seniman',
+  'ip.category.landmark': 'Landmark (Property Release)',
+  'ip.field.title': 'Judul',
+  'ip.field.description': 'Deskripsi',
+  'ip.field.ai_prompt': 'Prompt',
+  'ip.field.keywords': 'Keyword',
+  'ip.termsToggle': 'Istilah risiko IP ({count} kustom)',
+  'ip.title': 'Risiko IP / Trademark',
+  'ip.replaceAll': 'Ganti semua',
+  'ip.terms': 'Istilah',
+  'ip.visibleTitle': 'Terdeteksi di dalam gambar',
+  'ip.visible': 'Terlihat di gambar',
+  'ip.foundIn': 'Ditemukan di: {fields}',
+  'ip.notInText': 'Tidak ada di teks. Retouch atau crop, atau kirim sebagai editorial.',
+  'ip.replaceWith': 'Ganti dengan "{replacement}"',
+  'ip.removeAll': 'Hapus dari semua kolom',
+  'ip.customTerms': 'Istilah kustom',
+  'ip.noCustomTerms': 'Belum ada istilah kustom.',
+  'ip.termPlaceholder': 'Istilah (mis. nama merek)',
+  'ip.replacementPlaceholder': 'Pengganti yang aman',
+
+  // Prompt templates
+  'templates.invalidFile': 'File template harus berisi objek template per model',
+  'templates.placeholder.aspectRatio': 'Rasio aspek terpilih, mis. 16:9',
+  'templates.placeholder.subject': 'Subjek utama (judul saat ini ketika refine)',
+  'templates.placeholder.density': 'Pengaturan kepadatan keyword',
+  'templates.placeholder.model': 'Nama model target',
+  'templates.placeholder.parameters': 'Parameter native dari konfigurasi, mis. --ar 16:9 --v 7',
+  'templates.importFailed': 'Import gagal: {error}',
+  'templates.invalidImport': 'file tidak valid',
+  'templates.title': 'Template Prompt',
+  'templates.customized': 'Diubah',
+  'templates.reset': 'Kembalikan ke default',
+  'templates.export': 'Ekspor JSON',
+  'templates.import': 'Impor JSON',
+  'templates.preview': 'Live Preview (System Instruction)',
+  'templates.save': 'Simpan Template',
+
+  // Token weights
+  'weights.title': 'Bobot Token',
+  'weights.decrease': 'Kurangi bobot',
+  'weights.reset': 'Kembalikan ke 1.0',
+  'weights.increase': 'Tambah bobot',
+  'weights.remove': 'Hapus token',
+
+  // Result card
+  'result.copy': 'Salin ke clipboard',
+  'result.saveJson': 'Simpan JSON',
+  'result.saveTxt': 'Simpan TXT',
+  'result.taggedTitle': 'Unduh JPEG asli dengan judul, deskripsi dan keyword tertanam (XMP/IPTC)',
+  'result.saveTagged': 'Simpan JPG Bertag',
+  'result.copiedAll': 'Semua Tersalin!',
+  'result.copyAllFields': 'Salin Semua Kolom',
+  'result.autoRepaired': 'Diperbaiki otomatis ({count})',
+  'result.taggerTitle': 'Visual Keyword Tagger',
+  'result.taggerHint': 'Klik gambar untuk menambah keyword',
+  'result.taggerAlt': 'Analisis interaktif',
+  'result.suggestions': 'Saran',
+  'result.analyzingSpot': 'Menganalisis titik...',
+  'result.noSuggestions': 'Tidak ditemukan keyword spesifik.',
+  'result.refining': 'Menyempurnakan prompt...',
+  'result.promptTitle': 'Prompt {model}',
+  'result.visualizeTitle': 'Buat preview resolusi rendah dari prompt ini',
+  'result.visualizeUnsupported': 'Provider terpilih tidak bisa membuat gambar',
+  'result.visualize': 'Visualisasikan',
+  'result.editable': 'Bisa diedit',
+  'result.promptPlaceholder': 'Prompt AI akan muncul di sini...',
+  'result.negativePrompt': 'Negative Prompt',
+  'result.genericNegativeTitle': 'Tambahkan negative umum untuk kualitas/artefak',
+  'result.genericNegative': '+ Umum',
+  'result.closePreview': 'Tutup preview',
+  'result.previewAlt': 'Preview prompt',
+  'result.previewCaption': 'Preview Hasil ({ratio}) - Hanya untuk visualisasi',
+  'result.technical': 'Pengaturan Teknis / Gaya',
+  'result.refinement': 'Penyempurnaan AI',
+  'result.refinePlaceholder': 'Buat lebih sinematik, cahaya biru, cyberpunk...',
+  'result.refine': 'Refine',
+  'result.keywords': 'Keyword',
+  'result.sortAlpha': 'Urutkan Alfabetis',
+  'result.sortLength': 'Urutkan berdasarkan Panjang',
+  'result.copied': 'Tersalin!',
+  'result.copyAll': 'Salin Semua',
+  'result.addKeyword': 'Tambah keyword baru...',
+  'result.titleDescription': 'Judul & Deskripsi',
+  'result.seoTitle': 'Buat variasi judul/deskripsi yang dioptimalkan',
+  'result.smartSeo': 'Smart SEO',
+  'result.seo.descriptive': 'Deskriptif',
+  'result.seo.conceptual': 'Konseptual',
+  'result.seo.commercial': 'Komersial',
+  'result.closeSuggestions': 'Batal / Tutup Saran',
+  'result.titleIn': 'Judul ({language})',
+  'result.keywordsCount': 'Keyword ({count})',
+  'result.titleEnglish': 'Judul (Inggris)',
+
+  // Errors
+  'error.invalidResponse': 'Respons model tidak valid: {errors}',
+  'error.quota': 'Batas kuota API tercapai (429). Coba lagi nanti.',
+  'error.analyzeFailed': 'Gagal menganalisis file. Pastikan API Key/model valid dan file tidak rusak.',
+  'error.refineFailed': 'Gagal melakukan refine prompt.',
+  'error.previewFailed': 'Gagal membuat preview image.',
+  'error.pdfNotLoaded': 'Library PDF belum dimuat. Silakan muat ulang halaman.',
+  'error.pdfFailed': 'Gagal memproses file PDF. Pastikan file tidak rusak/terpassword.',
+  'error.jpegOnly': 'Penyematan metadata hanya didukung untuk file JPEG.',
+  'error.xmpUnreadable': 'XMP yang ada di file ini tidak dapat dibaca, jadi metadata tidak disematkan agar isinya tidak hilang.',
+
+  // Config presets
+  'presets.label': 'Preset',
+  'presets.custom': 'Pengaturan kustom',
+  'presets.none': 'Belum ada preset',
+  'presets.save': 'Simpan',
+  'presets.saveTitle': 'Simpan pengaturan ini sebagai preset bernama',
+  'presets.delete': 'Hapus preset "{name}"',
+  'presets.namePlaceholder': 'mis. Tekstur – SDXL – Kepadatan tinggi',
+
+  // Per-item settings
+  'itemConfig.settings': 'Pengaturan:',
+  'itemConfig.differs': 'Berbeda dari global',
+  'itemConfig.differsTitle': 'File ini dibuat dengan pengaturan yang berbeda dari panel konfigurasi saat ini',
+  'itemConfig.override': 'Ubah & jalankan ulang',
+  'itemConfig.title': 'Ubah Pengaturan File',
+  'itemConfig.subtitle': { other: '{count} file akan dijalankan ulang dengan pengaturan ini; pengaturan global tidak berubah.' },
+  'itemConfig.replaceNote': 'Hasil yang ada (termasuk editan manual) akan diganti saat proses ulang selesai.',
+  'itemConfig.run': { other: 'Jalankan ulang {count} file' },
+
+  // Version history
+  'history.title': 'Riwayat',
+  'history.toggle': 'Tampilkan riwayat versi dan perbandingan',
+  'history.undo': 'Urungkan perubahan terakhir',
+  'history.redo': 'Ulangi perubahan',
+  'history.count': { other: '{count} versi' },
+  'history.current': 'Saat ini',
+  'history.generated': 'Dibuat oleh AI',
+  'history.manual': 'Edit manual',
+  'history.bulk': 'Edit massal',
+  'history.refine': 'Refine: "{instruction}"',
+  'history.seo': 'Variasi SEO diterapkan: {variation}',
+  'history.sortAlpha': 'Keyword diurutkan secara alfabetis',
+  'history.sortLength': 'Keyword diurutkan berdasarkan panjang',
+  'history.restore': 'Versi {version} dipulihkan',
+  'history.selectVersion': 'Pilih versi untuk melihat perbedaannya.',
+  'history.isCurrent': 'Ini adalah versi yang sedang dipakai.',
+  'history.changesSince': 'Perubahan sejak v{version}',
+  'history.restoreButton': 'Pulihkan v{version}',
+  'history.noDifferences': 'Tidak ada perbedaan dengan versi saat ini.',
+  'history.reordered': 'Keyword sama, urutan berbeda.',
+  'history.empty': 'Belum ada riwayat untuk file ini.',
+  'history.field.title': 'Judul',
+  'history.field.description': 'Deskripsi',
+  'history.field.ai_prompt': 'Prompt AI',
+  'history.field.negative_prompt': 'Negative Prompt',
+  'history.field.category': 'Kategori',
+  'history.field.technical_settings': 'Pengaturan Teknis',
+  'history.field.keywords': 'Keyword',
+
+  // Bulk edit
+  'bulk.title': 'Edit Massal',
+  'bulk.selected': { other: '{count} dipilih' },
+  'bulk.editable': { other: '{count} selesai dan bisa diedit' },
+  'bulk.selectAll': 'Pilih semua',
+  'bulk.selectItem': 'Pilih untuk edit massal (Shift+klik untuk rentang)',
+  'bulk.clearSelection': 'Batalkan pilihan',
+  'bulk.editTab': 'Edit',
+  'bulk.refineTab': 'Refine AI',
+  'bulk.addKeywords': 'Tambah keyword',
+  'bulk.removeKeywords': 'Hapus keyword',
+  'bulk.keywordsPlaceholder': 'dipisah koma, mis. kopi, pagi',
+  'bulk.find': 'Cari',
+  'bulk.replaceWith': 'Ganti dengan',
+  'bulk.replaceIn': 'Ganti di:',
+  'bulk.matchCase': 'Cocokkan huruf besar/kecil',
+  'bulk.setCategory': 'Atur kategori',
+  'bulk.unchanged': 'Tidak diubah',
+  'bulk.promptSuffix': 'Tambahkan ke akhir prompt',
+  'bulk.promptSuffixPlaceholder': 'mis. soft morning light (ditaruh sebelum parameter)',
+  'bulk.refineInstruction': 'Instruksi refine',
+  'bulk.refineHint': { other: 'Dijalankan satu per satu untuk {count} file dengan pengaturan masing-masing. Tidak ada yang berubah sampai Anda menerapkannya.' },
+  'bulk.preview': 'Pratinjau perubahan',
+  'bulk.refining': 'Menyempurnakan {done}/{total}...',
+  'bulk.willChange': { other: '{count} file akan berubah' },
+  'bulk.apply': { other: 'Terapkan ke {count} file' },
+  'bulk.discard': 'Buang pratinjau',
+  'bulk.skippedChanged': { other: '{count} file diubah setelah pratinjau dibuat dan dilewati. Buat pratinjau lagi untuk menyertakannya.' },
+
+  // Keyword vocabulary
+  'vocabulary.title': 'Kosakata Keyword',
+  'vocabulary.summary': { other: '{count} istilah · {groups} grup sinonim' },
+  'vocabulary.termsTab': 'Istilah',
+  'vocabulary.synonymsTab': 'Sinonim',
+  'vocabulary.searchPlaceholder': 'Cari istilah...',
+  'vocabulary.empty': 'Belum ada istilah. Keyword dari hasil yang selesai akan tercatat otomatis, atau impor daftar Anda sendiri.',
+  'vocabulary.noMatches': 'Tidak ada istilah yang cocok.',
+  'vocabulary.usedTimes': { other: 'Dipakai {count} kali' },
+  'vocabulary.removeTerm': 'Hapus istilah',
+  'vocabulary.moreTerms': { other: '{count} istilah lain tersembunyi. Persempit pencarian.' },
+  'vocabulary.synonymsHint': 'Satu grup per baris, dipisah koma. Istilah pertama adalah ejaan pilihan; keyword hasil generate akan diganti ke ejaan ini.',
+  'vocabulary.synonymsPlaceholder': 'grey, gray\nsmartphone, cell phone, mobile phone',
+  'vocabulary.saveSynonyms': 'Simpan Sinonim',
+  'vocabulary.export': 'Ekspor kosakata',
+  'vocabulary.import': 'Impor daftar (.json, .txt, .csv)',
+  'vocabulary.imported': { other: '{count} istilah baru diimpor.' },
+  'vocabulary.importFailed': 'Impor gagal: {error}',
+  'vocabulary.invalidFile': 'File kosakata tidak valid.',
+  'vocabulary.suggestions': 'Saran dari kosakata Anda',
+
+  // Batch analytics
+  'analytics.open': 'Analitik',
+  'analytics.openTitle': 'Frekuensi dan cakupan keyword di seluruh batch',
+  'analytics.title': 'Analitik Keyword',
+  'analytics.summary': { other: '{count} item dianalisis · {keywords} keyword unik' },
+  'analytics.empty': 'Belum ada hasil selesai untuk dianalisis.',
+  'analytics.usedOn': 'Dipakai di {count} dari {total} item',
+  'analytics.generic': { other: '{count} keyword ada di hampir semua item. Tag generik seperti ini tidak membedakan file Anda.' },
+  'analytics.sparse': { other: '{count} item memiliki keyword unik jauh lebih sedikit dari median ({median})' },
+  'analytics.sparseItem': '{name} ({count})',
+  'analytics.duplicateTitles': { other: '{count} judul dipakai lebih dari satu item' },
+  'analytics.noFindings': 'Tidak ada tag generik, tag tipis, atau judul ganda.',
+  'analytics.mostUsed': 'Paling sering',
+  'analytics.leastUsed': 'Paling jarang',
+  'analytics.categories': 'Kategori',
+  'analytics.noCategories': 'Belum ada kategori.',
+  'analytics.filter.keyword': 'Keyword: {value}',
+  'analytics.filter.category': 'Kategori: {value}',
+  'analytics.filter.title': 'Judul: {value}',
+  'analytics.filter.sparse': 'Keyword tipis',
+  'analytics.filtered': '{shown} dari {total} item',
+  'analytics.clearFilter': 'Hapus filter',
+  'analytics.noMatches': 'Tidak ada item yang cocok dengan filter ini.',
+
+  // Near-duplicates
+  'duplicates.title': 'Gambar Mirip',
+  'duplicates.clusters': { other: '{count} grup' },
+  'duplicates.threshold': 'Toleransi',
+  'duplicates.thresholdHint': 'Jumlah bit hash perseptual yang boleh berbeda. Lebih tinggi = lebih banyak gambar dianggap mirip.',
+  'duplicates.none': 'Tidak ada gambar mirip pada toleransi ini.',
+  'duplicates.similar': { other: '{count} gambar mirip' },
+  'duplicates.waiting': { other: '{count} menunggu' },
+  'duplicates.series': 'Seri',
+  'duplicates.keepBest': 'Simpan terbaik',
+  'duplicates.keepBestTitle': 'Hapus yang lain dari batch dan simpan resolusi tertinggi',
+  'duplicates.keepBestConfirm': { other: '{count} file lain di grup ini sudah punya hasil, mungkin termasuk editan Anda. Hapus juga? Batal menyimpannya dan hanya menghapus yang belum diproses.' },
+  'duplicates.skipRest': 'Lewati lainnya',
+  'duplicates.skipRestTitle': 'Biarkan yang lain di daftar tanpa diproses',
+  'duplicates.processSeries': 'Proses sebagai seri',
+  'duplicates.seriesTitle': 'Ini memang seri; proses semuanya',
+  'duplicates.heldBanner': 'File ini sangat mirip dengan file lain di batch dan belum diproses. Putuskan di panel Gambar Mirip.',
+  'duplicates.skippedBanner': 'File ini dilewati karena sangat mirip dengan file lain di batch.',
+
+  // Pre-flight checks
+  'preflight.profile': 'Cek pre-flight untuk',
+  'preflight.profileHint': 'Setiap gambar dicek terhadap syarat teknis agensi dan ditandai lulus, peringatan, atau gagal. Halaman PDF tidak dicek.',
+  'preflight.genericProfile': 'Umum',
+  'preflight.title': 'Pre-flight',
+  'preflight.status.pass': 'Lolos',
+  'preflight.status.warn': 'Peringatan',
+  'preflight.status.fail': 'Gagal',
+  'preflight.megapixels.pass': '{megapixels} MP (minimal {min} MP)',
+  'preflight.megapixels.tooSmall': '{megapixels} MP: {profile} butuh minimal {min} MP',
+  'preflight.megapixels.tooLarge': '{megapixels} MP: {profile} menerima maksimal {max} MP',
+  'preflight.fileSize.pass': '{size} (maksimal {max} MB)',
+  'preflight.fileSize.fail': '{size} melebihi batas {max} MB',
+  'preflight.color.srgb': 'Profil warna {name}',
+  'preflight.color.untagged': 'Tanpa profil warna; dianggap sRGB',
+  'preflight.color.cmyk': 'File CMYK ditolak agensi; konversi ke sRGB',
+  'preflight.color.convert': 'Profil warna {name}; konversi ke sRGB agar warna tidak bergeser',
+  'preflight.color.grayscale': 'grayscale',
+  'preflight.color.unknown': 'tidak dikenal',
+  'preflight.quality.pass': 'Perkiraan kualitas JPEG {quality}',
+  'preflight.quality.warn': 'Perkiraan kualitas JPEG {quality} (disarankan {min}+); artefak kompresi mungkin terlihat',
+  'preflight.quality.fail': 'Perkiraan kualitas JPEG {quality}: kompresi terlalu berat',
+  'preflight.upscaling.pass': 'Detail halus terlihat asli',
+  'preflight.upscaling.warn': 'Detail halus terlalu lembut untuk resolusi ini; gambar mungkin hasil upscale',
+  'preflight.blocked': 'File ini tidak memenuhi syarat agensi dan belum dikirim ke AI.',
+  'preflight.processAnyway': 'Tetap proses',
+  'preflight.holdFailed': 'Tahan file yang gagal',
+  'preflight.holdFailedHint': 'File yang gagal pre-flight untuk agensi yang dipilih tidak dikirim ke AI sampai Anda memprosesnya',
+  'preflight.processAllHeld': 'Proses {count} yang ditahan pre-flight',
+  'preflight.badge': 'Pre-flight: {status}',
+
+  // Analysis image
+  'analysisImage.enabled': 'Perkecil gambar sebelum dikirim ke model',
+  'analysisImage.hint': 'Model menerima salinan yang diperkecil dan dikompres; file asli tetap dipakai untuk ekspor',
+  'analysisImage.maxEdge': 'Sisi terpanjang',
+  'analysisImage.maxEdgeOption': 'Maks. {size} px',
+  'analysisImage.quality': 'Kualitas JPEG',
+  'analysisImage.qualityOption': 'Kualitas {quality}',
+  'analysisImage.title': 'Dikirim ke model',
+  'analysisImage.sent': '{size} alih-alih {original} (−{percent}%)',
+  'analysisImage.sentOriginal': 'File asli, {size}',
+  'analysisImage.prepared': 'Disiapkan dalam {ms} md',
+  'analysisImage.request': 'permintaan {seconds} dtk',
+  'analysisImage.average': 'rata-rata batch: {downscaled} dtk diperkecil, {original} dtk ukuran asli',
+  'analysisImage.batchSaved': '{size} dihemat di batch ini',
+};
@@ -0,0 +1,471 @@
+import { StockMetadata, PromptConfig, KeywordDensity, EmbeddedMetadata, ProviderConfig, LivingBeingCheck } from "../types";
+import { formatExposure, hasExposureSettings } from "../utils/metadataReader";
+import { getPromptTemplate, renderPromptTemplate } from "../utils/promptTemplates";
+import { applyModelParameters, formatModelParameters, supportsNegativePrompt } from "../utils/modelParameters";
+import { METADATA_LANGUAGES } from "../utils/languages";
+import { t } from "../utils/i18n";
+import { getProvider, getErrorStatus, GenerateJsonRequest, InlineImage, JsonSchema, ModelProvider, ModelProviderError } from "./providers";
+import {
+  ResponseValidationError,
+  SeoVariationSet,
+  ValidationResult,
+  parseJsonLoose,
+  validateKeywordList,
+  validateSeoVariations,
+  validateStockMetadata,
+} from "./responseValidator";
+
+export { isRetryableError } from "./providers";
+
+// Helper to convert file to base64
+const fileToInlineImage = async (file: File): Promise<InlineImage> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
+      const base64Data = base64String.split(',')[1];
+      resolve({
+        data: base64Data,
+        mimeType: file.type,
+      });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// How many times the model is re-asked when its response fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Ask for JSON, validate it, and re-ask with the validation errors when it can't be repaired locally
+const generateValidated = async <T>(
+  provider: ModelProvider,
+  request: GenerateJsonRequest,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<{ value: T; fixes: string[] }> => {
+  const fixes: string[] = [];
+  let responseText = await provider.generateJson(request);
+
+  for (let attempt = 0; ; attempt++) {
+    let errors: string[];
+    try {
+      const parsed = parseJsonLoose(responseText);
+      const result = validate(parsed.value);
+      if (result.errors.length === 0) {
+        return { value: result.value, fixes: [...fixes, ...parsed.fixes, ...result.fixes] };
+      }
+      errors = result.errors;
+    } catch (error) {
+      if (!(error instanceof ResponseValidationError)) throw error;
+      errors = error.errors;
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new ResponseValidationError(errors);
+    }
+
+    fixes.push(`Re-asked model to fix: ${errors.join("; ")}`);
+    responseText = await provider.generateJson({
+      ...request,
+      prompt: `${request.prompt}
+
+      Your previous response was rejected because:
+      - ${errors.join("\n      - ")}
+
+      Previous response:
+      ${responseText.slice(0, 4000)}
+
+      Return a corrected, complete JSON object.`,
+    });
+  }
+};
+
+const toServiceError = (error: unknown, fallbackMessage: string) => {
+  if (error instanceof ResponseValidationError) {
+    return new ModelProviderError(t("error.invalidResponse", { errors: error.errors.join("; ") }), 422);
+  }
+  const status = getErrorStatus(error);
+  if (status === 429) {
+    return new ModelProviderError(t("error.quota"), status);
+  }
+  return new ModelProviderError(fallbackMessage, status);
+};
+
+export interface GeneratedMetadata {
+  metadata: StockMetadata;
+  // Logos and characters the model saw in the image, which titles/keywords often don't mention.
+  // Asked for in the same request so IP-risk checking costs no extra call.
+  visibleLogos: string[];
+}
+
+export const generateStockMetadata = async (
+  file: File,
+  config: PromptConfig,
+  embedded?: EmbeddedMetadata | null
+): Promise<GeneratedMetadata> => {
+  try {
+    const provider = getProvider(config.provider);
+    const image = await fileToInlineImage(file);
+
+    const { systemInstruction } = buildInstructions(config, embedded);
+
+    let visibleLogos: string[] = [];
+    const { value: metadata, fixes } = await generateValidated(provider, {
+      systemInstruction,
+      prompt: "Analyze this file and generate professional stock metadata and a generative AI prompt according to the configuration.",
+      image,
+      schema: getSchema(config, true),
+    }, raw => {
+      // Best-effort: a missing or malformed list never fails the item
+      visibleLogos = validateKeywordList({ keywords: (raw as { visible_logos?: unknown } | null)?.visible_logos }).value;
+      return validateStockMetadata(raw, config.targetLanguages);
+    });
+
+    metadata.ai_prompt = applyModelParameters(metadata.ai_prompt, config);
+    if (!supportsNegativePrompt(config.targetModel)) delete metadata.negative_prompt;
+
+    // Real exposure data from the file always wins over the model's guess
+    if (config.includeTechnical && hasExposureSettings(embedded?.exposure)) {
+      metadata.technical_settings = formatExposure(embedded!.exposure!);
+    }
+    return { metadata: { ...metadata, used_model: config.targetModel, repairs: fixes }, visibleLogos };
+  } catch (error) {
+    console.error("Metadata Analysis Error:", error);
+    throw toServiceError(error, t("error.analyzeFailed"));
+  }
+};
+
+export const refineMetadata = async (
+  currentData: StockMetadata, 
+  instruction: string, 
+  config: PromptConfig
+): Promise<StockMetadata> => {
+  try {
+    const provider = getProvider(config.provider);
+    // Bookkeeping fields are ours, not something the model should echo back
+    const { repairs, used_model, ...currentFields } = currentData;
+
+    const { modelInstruction } = getModelSpecificInstructions(config, currentData.title);
+    const keywordInstruction = getKeywordDensityInstruction(config.keywordDensity);
+
+    const systemInstruction = `
+      You are an expert AI Artist and Stock Contributor. 
+      Update the provided metadata based on the user's refinement instruction.
+      
+      CURRENT METADATA JSON:
+      ${JSON.stringify(currentFields)}
+      
+      REFINEMENT INSTRUCTION: "${instruction}"
+      
+      TARGET MODEL: ${config.targetModel}
+      NEW ASPECT RATIO: ${config.aspectRatio}
+      KEYWORD DENSITY SETTING: ${config.keywordDensity}
+      
+      MODEL RULES:
+      ${modelInstruction}
+      ${getContentPolicyInstruction(config)}
+      
+      REQUIREMENTS:
+      1. Update 'ai_prompt' to reflect the instruction and new aspect ratio.
+      2. Update 'keywords' if the instruction adds/removes subjects or changes style.
+      3. ${keywordInstruction.replace("4. keywords:", "Ensure keyword count matches preference:")}
+      4. Keep other fields consistent unless the instruction implies changing them.
+      Negative prompt rule: ${getNegativePromptInstruction(config)}
+      5. Ensure output is valid JSON matching the schema.
+      ${getTranslationInstruction(config, "Re-translate them so they match the refined English fields.")}
+    `;
+
+    const { value: metadata, fixes } = await generateValidated(provider, {
+      systemInstruction,
+      prompt: "Refine the metadata based on the instructions.",
+      schema: getSchema(config),
+    }, raw => validateStockMetadata(raw, config.targetLanguages));
+
+    metadata.ai_prompt = applyModelParameters(metadata.ai_prompt, config);
+    if (!supportsNegativePrompt(config.targetModel)) delete metadata.negative_prompt;
+    return { ...metadata, used_model: config.targetModel, repairs: fixes };
+  } catch (error) {
+    console.error("Refine Error:", error);
+    throw toServiceError(error, t("error.refineFailed"));
+  }
+};
+
+export const identifyPointInterest = async (file: File, x: number, y: number, providerConfig: ProviderConfig): Promise<string[]> => {
+  try {
+    const provider = getProvider(providerConfig);
+    const image = await fileToInlineImage(file);
+
+    // Prompt specifically for spatial understanding
+    const prompt = `
+      Look at the image. 
+      Identify the specific object, texture, color, or detail located exactly at relative coordinates: X=${x}%, Y=${y}%.
+      (X is horizontal from left 0 to 100, Y is vertical from top 0 to 100).
+      
+      Provide 3-5 specific, high-value stock photography keywords describing EXACTLY what is at that point.
+      Return strictly a JSON object: { "keywords": ["keyword1", "keyword2", ...] }
+    `;
+
+    const responseText = await provider.generateJson({
+      prompt,
+      image,
+      schema: {
+        type: "object",
+        properties: {
+          keywords: { type: "array", items: { type: "string" } }
+        }
+      }
+    });
+
+    return validateKeywordList(parseJsonLoose(responseText).value).value;
+  } catch (error) {
+    console.error("Point Identification Error:", error);
+    return [];
+  }
+};
+
+// Vision pass for the living-being content policy; null when the check itself failed
+export const classifyLivingBeings = async (file: File, providerConfig: ProviderConfig): Promise<LivingBeingCheck | null> => {
+  try {
+    const provider = getProvider(providerConfig);
+    const image = await fileToInlineImage(file);
+
+    const prompt = `
+      Does this image contain any humans (including partial bodies, hands, silhouettes) or animals (including birds, fish and insects)?
+      Return strictly a JSON object: { "people": boolean, "animals": boolean, "subjects": ["short noun for each living being seen"] }
+    `;
+
+    const responseText = await provider.generateJson({
+      prompt,
+      image,
+      schema: {
+        type: "object",
+        properties: {
+          people: { type: "boolean" },
+          animals: { type: "boolean" },
+          subjects: { type: "array", items: { type: "string" } }
+        },
+        required: ["people", "animals"]
+      }
+    });
+
+    const parsed = parseJsonLoose(responseText).value as Record<string, unknown>;
+    const asBoolean = (value: unknown) => value === true || value === "true";
+    return {
+      people: asBoolean(parsed?.people),
+      animals: asBoolean(parsed?.animals),
+      subjects: validateKeywordList({ keywords: parsed?.subjects }).value,
+    };
+  } catch (error) {
+    console.error("Living Being Classification Error:", error);
+    return null;
+  }
+};
+
+export const generateImagePreview = async (prompt: string, aspectRatio: string, providerConfig: ProviderConfig): Promise<string | null> => {
+  try {
+    const provider = getProvider(providerConfig);
+    if (!provider.supportsImageGeneration) {
+      throw new Error("Provider does not support image generation");
+    }
+    return await provider.generateImage(prompt, aspectRatio);
+  } catch (error) {
+    console.error("Preview generation failed", error);
+    throw new Error(t("error.previewFailed"));
+  }
+};
+
+export const generateSeoVariations = async (currentData: StockMetadata, providerConfig: ProviderConfig): Promise<SeoVariationSet> => {
+  try {
+    const prompt = `
+      Based on the following existing metadata, generate 3 DISTINCT variations of Title and Description for stock photography SEO.
+      
+      CURRENT DATA:
+      Title: ${currentData.title}
+      Description: ${currentData.description}
+      Keywords: ${currentData.keywords.join(", ")}
+      
+      Provide 3 variations:
+      1. Descriptive: Very literal, focuses on what is visibly present.
+      2. Conceptual: Focuses on the mood, metaphor, or abstract concepts (e.g., "Freedom", "Innovation").
+      3. Commercial: Catchy, punchy, designed for advertising/sales impact.
+      
+      Output strictly JSON.
+    `;
+    
+    const variationSchema: JsonSchema = {
+      type: "object",
+      properties: { title: { type: "string" }, description: { type: "string" } }
+    };
+
+    const { value } = await generateValidated(getProvider(providerConfig), {
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          descriptive: variationSchema,
+          conceptual: variationSchema,
+          commercial: variationSchema
+        },
+        required: ["descriptive", "conceptual", "commercial"]
+      }
+    }, validateSeoVariations);
+
+    return value;
+
+  } catch (error) {
+    console.error("SEO Variations Error", error);
+    throw error;
+  }
+};
+
+// Helper functions to avoid code duplication
+// Formatting rules come from the user's template for the target model (or the bundled default)
+function getModelSpecificInstructions(config: PromptConfig, subject = "the main subject of the image") {
+  const modelInstruction = renderPromptTemplate(getPromptTemplate(config.targetModel, config.promptTemplates), {
+    aspectRatio: config.aspectRatio,
+    subject,
+    density: config.keywordDensity,
+    model: config.targetModel,
+    parameters: formatModelParameters(config) || "none (this model has no in-prompt parameters)",
+  });
+  return { modelInstruction };
+}
+
+function getKeywordDensityInstruction(density: KeywordDensity) {
+  switch (density) {
+    case 'low': return "4. keywords: A focused list of 15-20 highly relevant keywords/tags, ranked by relevance. Focus on the core subject only.";
+    case 'high': return "4. keywords: An extensive list of 50 keywords/tags, ranked by relevance. Cover all aspects including synonyms, conceptual tags, emotions, and technical attributes.";
+    case 'standard': default: return "4. keywords: A comprehensive list of 30-40 relevant keywords/tags, ranked by relevance.";
+  }
+}
+
+function getNegativePromptInstruction(config: PromptConfig) {
+  if (!supportsNegativePrompt(config.targetModel)) {
+    return "Leave empty; this target model has no negative prompt.";
+  }
+  const people = config.inanimateOnly ? " Include people, humans, animals." : "";
+  return `Comma-separated things to avoid for THIS image (artifacts, unwanted objects, style drift), most important first. Do not repeat them in 'ai_prompt'.${people}`;
+}
+
+function getContentPolicyInstruction(config: PromptConfig) {
+  if (!config.inanimateOnly) return "";
+  return `
+    CONTENT POLICY (INANIMATE SUBJECTS ONLY):
+    The 'ai_prompt' must NOT depict humans, animals or any living creature (no faces, hands, silhouettes, figures or pets).
+    If the image contains people or animals, leave them out and re-center the prompt on the inanimate parts of the scene:
+    landscape, texture, architecture, interiors, food or objects. State "no people, no animals" explicitly in the prompt.
+  `;
+}
+
+function getTranslationInstruction(config: PromptConfig, note = "") {
+  if (config.targetLanguages.length === 0) return "";
+  const languages = config.targetLanguages.map(lang => `"${lang}" (${METADATA_LANGUAGES[lang].englishName})`).join(", ");
+  return `
+    TRANSLATIONS: The English fields stay the master copy. Also fill 'translations' with one entry per language code: ${languages}.
+    Each entry has 'title', 'description' and 'keywords' written natively in that language (localize, don't transliterate), with the same meaning and keyword order as the English fields. ${note}
+  `;
+}
+
+function getEmbeddedContextInstruction(embedded?: EmbeddedMetadata | null) {
+  if (!embedded) return "";
+
+  const lines: string[] = [];
+  if (embedded.title) lines.push(`Existing title: ${embedded.title}`);
+  if (embedded.description) lines.push(`Existing description: ${embedded.description}`);
+  if (embedded.keywords.length > 0) lines.push(`Existing keywords: ${embedded.keywords.join(", ")}`);
+  if (hasExposureSettings(embedded.exposure)) lines.push(`Real camera settings (from EXIF): ${formatExposure(embedded.exposure)}`);
+  if (embedded.gps) lines.push(`GPS location: ${embedded.gps.latitude.toFixed(5)}, ${embedded.gps.longitude.toFixed(5)}`);
+  if (lines.length === 0) return "";
+
+  return `
+    EXISTING FILE METADATA (written by the contributor, use it as seed context):
+    ${lines.join("\n    ")}
+    Refine and improve the existing title, description and keywords instead of starting from zero. Keep accurate existing keywords.
+  `;
+}
+
+// The exact system instruction a generation would use, for the template editor preview
+export const previewSystemInstruction = (config: PromptConfig): string =>
+  buildInstructions(config).systemInstruction
+    .replace(/^ {4}/gm, "")
+    .replace(/\n\s*\n(\s*\n)+/g, "\n\n")
+    .trim();
+
+function buildInstructions(config: PromptConfig, embedded?: EmbeddedMetadata | null) {
+  const { modelInstruction } = getModelSpecificInstructions(config);
+  const keywordInstruction = getKeywordDensityInstruction(config.keywordDensity);
+  const hasRealExposure = hasExposureSettings(embedded?.exposure);
+
+  const techInstruction = config.includeTechnical 
+    ? "Include specific camera settings (ISO, Aperture, Shutter Speed, Lens type) in the 'technical_settings' field and weave relevant technical terms (like 'depth of field', 'bokeh', '85mm') into the prompt where appropriate for photorealism."
+    : "Keep the prompt focused on artistic style and subject matter. Only use technical terms if they define the art style (e.g. 'macro', 'wide angle').";
+
+  const systemInstruction = `
+    You are an expert Microstock Contributor and AI Artist (Midjourney/Stable Diffusion/Adobe Firefly expert). 
+    Your task is to analyze the input image or PDF and generate metadata optimized for selling this asset on Adobe Stock, Shutterstock, and Getty Images.
+    
+    CRITICAL: All output fields MUST be in ENGLISH, as this is the standard language for global stock platforms${config.targetLanguages.length > 0 ? " (the only exception is 'translations')" : ""}.
+    Never mention brand names, trademarks, copyrighted characters, artist names ("in the style of ...") or named landmarks in any field; describe them generically instead.
+    
+    TARGET MODEL: ${config.targetModel}
+    ASPECT RATIO: ${config.aspectRatio}
+    
+    INSTRUCTIONS:
+    ${modelInstruction}
+    ${techInstruction}
+    ${getContentPolicyInstruction(config)}
+    ${getEmbeddedContextInstruction(embedded)}
+    
+    Provide the following:
+    1. title: A catchy, commercial title (5-10 words).
+    2. description: A clear description for SEO (15-25 words).
+    3. ai_prompt: The generative prompt based on the TARGET MODEL instructions above.
+    ${keywordInstruction}
+    5. category: The best category for this asset (e.g., Business, Lifestyle, Technology).
+    6. technical_settings: ${hasRealExposure ? "The real camera settings listed above." : "Simulated camera settings or art style description."}
+    7. negative_prompt: ${getNegativePromptInstruction(config)}
+    8. visible_logos: Every logo, brand name, trademark, product design or copyrighted character actually visible in the image (on clothing, packaging, devices, vehicles, signs, screens, etc.), by its real name. Empty list if none. This field is only for the contributor's review.
+    ${getTranslationInstruction(config)}
+  `;
+  
+  return { systemInstruction };
+}
+
+// Logos are only asked for when the model sees the image
+function getSchema(config: PromptConfig, withVisibleLogos = false): JsonSchema {
+  const localizedSchema: JsonSchema = {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      description: { type: "string" },
+      keywords: { type: "array", items: { type: "string" } },
+    },
+  };
+
+  return {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      description: { type: "string" },
+      ai_prompt: { type: "string" },
+      negative_prompt: { type: "string" },
+      keywords: { 
+        type: "array", 
+        items: { type: "string" } 
+      },
+      category: { type: "string" },
+      technical_settings: { type: "string" },
+      ...(withVisibleLogos && {
+        visible_logos: { type: "array", items: { type: "string" } },
+      }),
+      ...(config.targetLanguages.length > 0 && {
+        translations: {
+          type: "object",
+          properties: Object.fromEntries(config.targetLanguages.map(lang => [lang, localizedSchema])),
+        },
+      }),
+    },
+    required: ["title", "description", "ai_prompt", "keywords", "category"],
+  };
+}
@@ -0,0 +1,93 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { ProviderConfig } from "../../types";
+import { JsonSchema, ModelProvider } from "./types";
+import { nearestAspectRatio, parseAspectRatio } from "../../utils/aspectRatio";
+
+const clients = new Map<string, GoogleGenAI>();
+
+// One client per API key; falls back to the key baked in at build time
+const getClient = (apiKey?: string) => {
+  const key = apiKey || process.env.API_KEY || "";
+  let client = clients.get(key);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: key });
+    clients.set(key, client);
+  }
+  return client;
+};
+
+const GEMINI_TYPES: Record<JsonSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): any => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+});
+
+const GEMINI_ASPECT_RATIOS = ["1:1", "16:9", "9:16", "4:3", "3:4"];
+
+// Map non-standard and per-image custom ratios to the nearest one supported by Gemini 2.5 Flash Image
+const toGeminiAspectRatio = (aspectRatio: string) => {
+  const ratio = parseAspectRatio(aspectRatio);
+  return ratio ? nearestAspectRatio(ratio, GEMINI_ASPECT_RATIOS) : "1:1";
+};
+
+export const createGeminiProvider = (config: ProviderConfig): ModelProvider => {
+  const ai = getClient(config.apiKey);
+
+  return {
+    id: "gemini",
+    supportsImageGeneration: true,
+
+    generateJson: async ({ systemInstruction, prompt, image, schema }) => {
+      const response = await ai.models.generateContent({
+        model: config.model || "gemini-2.5-flash",
+        contents: {
+          parts: image ? [{ inlineData: image }, { text: prompt }] : [{ text: prompt }],
+        },
+        config: {
+          ...(systemInstruction && { systemInstruction }),
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+        },
+      });
+
+      if (!response.text) {
+        throw new Error("No response text received from Gemini.");
+      }
+      return response.text;
+    },
+
+    generateImage: async (prompt, aspectRatio) => {
+      const response = await ai.models.generateContent({
+        model: config.imageModel || "gemini-2.5-flash-image",
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          // @ts-ignore: imageConfig is supported but might be missing in some type definitions
+          imageConfig: { aspectRatio: toGeminiAspectRatio(aspectRatio) }
+        }
+      });
+
+      if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+          }
+        }
+      }
+      return null;
+    },
+  };
+};
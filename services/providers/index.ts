@@ -0,0 +1,41 @@
+import { ProviderConfig, ProviderId } from "../../types";
+import { ModelProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openaiProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+
+export type { ModelProvider, JsonSchema, InlineImage, GenerateJsonRequest } from "./types";
+export { ModelProviderError, isRetryableError, getErrorStatus } from "./providerError";
+
+export const PROVIDER_DEFAULTS: Record<ProviderId, ProviderConfig & { label: string; isLocal: boolean }> = {
+  gemini: {
+    label: "Google Gemini",
+    provider: "gemini",
+    model: "gemini-2.5-flash",
+    imageModel: "gemini-2.5-flash-image",
+    isLocal: false,
+  },
+  openai_compatible: {
+    label: "OpenAI-compatible",
+    provider: "openai_compatible",
+    model: "gpt-4o-mini",
+    imageModel: "",
+    baseUrl: "https://api.openai.com/v1",
+    isLocal: false,
+  },
+  ollama: {
+    label: "Local (Ollama)",
+    provider: "ollama",
+    model: "qwen2.5vl",
+    baseUrl: "http://localhost:11434",
+    isLocal: true,
+  },
+};
+
+export const getProvider = (config: ProviderConfig): ModelProvider => {
+  switch (config.provider) {
+    case "openai_compatible": return createOpenAiProvider(config);
+    case "ollama": return createOllamaProvider(config);
+    case "gemini": default: return createGeminiProvider(config);
+  }
+};
@@ -0,0 +1,41 @@
+// Local vision model served by Ollama; nothing leaves the machine
+
+import { ProviderConfig } from "../../types";
+import { ModelProvider } from "./types";
+import { ModelProviderError, postJson } from "./providerError";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+
+export const createOllamaProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    id: "ollama",
+    supportsImageGeneration: false,
+
+    generateJson: async ({ systemInstruction, prompt, image, schema }) => {
+      const messages = [
+        ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+        { role: "user", content: prompt, ...(image && { images: [image.data] }) },
+      ];
+
+      // Ollama accepts a JSON schema in `format` for structured output
+      const result = await postJson(`${baseUrl}/api/chat`, {
+        model: config.model,
+        messages,
+        format: schema,
+        stream: false,
+      });
+
+      const text = result?.message?.content;
+      if (!text) {
+        throw new ModelProviderError("No response text received from the local model.", 502);
+      }
+      return text;
+    },
+
+    generateImage: async () => {
+      throw new ModelProviderError("Image preview is not available for local models.", 400);
+    },
+  };
+};
@@ -0,0 +1,79 @@
+// Any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, LM Studio, llama.cpp server, vLLM...)
+
+import { ProviderConfig } from "../../types";
+import { ModelProvider } from "./types";
+import { ModelProviderError, postJson } from "./providerError";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+const getOrientation = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h || w === h) return "square";
+  return w > h ? "landscape" : "portrait";
+};
+
+// DALL-E 3 and gpt-image-1 accept different fixed sizes
+const getImageSize = (imageModel: string, aspectRatio: string) => {
+  const orientation = getOrientation(aspectRatio);
+  if (orientation === "square") return "1024x1024";
+  if (imageModel.startsWith("dall-e-3")) {
+    return orientation === "landscape" ? "1792x1024" : "1024x1792";
+  }
+  return orientation === "landscape" ? "1536x1024" : "1024x1536";
+};
+
+export const createOpenAiProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  return {
+    id: "openai_compatible",
+    supportsImageGeneration: !!config.imageModel,
+
+    generateJson: async ({ systemInstruction, prompt, image, schema }) => {
+      // json_object mode is the most widely supported; the schema travels in the system prompt
+      const system = `${systemInstruction || ""}
+
+      Respond ONLY with a JSON object matching this JSON schema:
+      ${JSON.stringify(schema)}`;
+
+      const userContent = image
+        ? [
+            { type: "text", text: prompt },
+            { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+          ]
+        : prompt;
+
+      const result = await postJson(`${baseUrl}/chat/completions`, {
+        model: config.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: userContent },
+        ],
+        response_format: { type: "json_object" },
+      }, headers);
+
+      const text = result?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new ModelProviderError("No response text received from the model.", 502);
+      }
+      return text;
+    },
+
+    generateImage: async (prompt, aspectRatio) => {
+      if (!config.imageModel) {
+        throw new ModelProviderError("No image model configured for this provider.", 400);
+      }
+      const result = await postJson(`${baseUrl}/images/generations`, {
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        size: getImageSize(config.imageModel, aspectRatio),
+        response_format: "b64_json",
+      }, headers);
+
+      const b64 = result?.data?.[0]?.b64_json;
+      return b64 ? `data:image/png;base64,${b64}` : null;
+    },
+  };
+};
@@ -0,0 +1,44 @@
+// Carries the HTTP status of the underlying API failure so callers can decide to retry
+export class ModelProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ModelProviderError";
+    this.status = status;
+  }
+
+  // Rate limits (429), server errors (5xx) and network failures are worth retrying
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+export const getErrorStatus = (error: any): number | undefined => {
+  if (typeof error?.status === "number") return error.status;
+  const match = String(error?.message || "").match(/\b(429|5\d\d)\b/);
+  if (match) return Number(match[1]);
+  if (/RESOURCE_EXHAUSTED/.test(String(error?.message))) return 429;
+  // Network failures (fetch TypeError) have no status and are treated as transient
+  if (error instanceof TypeError) return undefined;
+  return 400;
+};
+
+export const isRetryableError = (error: unknown) =>
+  error instanceof ModelProviderError && error.retryable;
+
+// Shared fetch wrapper for the HTTP-based providers
+export const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<any> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new ModelProviderError(`Request failed (${response.status}): ${detail.slice(0, 200)}`, response.status);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,30 @@
+import { ProviderId } from "../../types";
+
+// Provider-neutral JSON schema (subset of JSON Schema used by our responses)
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface InlineImage {
+  data: string; // base64 without the data URL prefix
+  mimeType: string;
+}
+
+export interface GenerateJsonRequest {
+  systemInstruction?: string;
+  prompt: string;
+  image?: InlineImage;
+  schema: JsonSchema;
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  supportsImageGeneration: boolean;
+  // Returns the raw JSON text produced by the model
+  generateJson: (request: GenerateJsonRequest) => Promise<string>;
+  // Returns a data URL, or null when the model produced no image
+  generateImage: (prompt: string, aspectRatio: string) => Promise<string | null>;
+}
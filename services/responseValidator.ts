@@ -0,0 +1,302 @@
+// Runtime validation and repair of model JSON responses
+// Models occasionally return fenced, truncated or loosely-typed JSON. Everything that can be
+// fixed locally is fixed (and recorded); the rest is reported so the caller can re-ask the model.
+
+import { LocalizedMetadata, MetadataLanguage, StockMetadata } from "../types";
+
+export interface ValidationResult<T> {
+  value: T;
+  fixes: string[];
+  errors: string[];
+}
+
+export class ResponseValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid model response: ${errors.join("; ")}`);
+    this.name = "ResponseValidationError";
+    this.errors = errors;
+  }
+}
+
+export interface SeoVariationSet {
+  descriptive: { title: string, description: string };
+  conceptual: { title: string, description: string };
+  commercial: { title: string, description: string };
+}
+
+const MIN_KEYWORDS = 5;
+
+interface JsonFrame {
+  close: "}" | "]";
+  // Objects only: true right after "{" or ",", where the next string is a key
+  expectKey: boolean;
+  // Objects only: where the current key starts while its value hasn't begun yet
+  keyStart: number | null;
+}
+
+// Close any open strings/brackets of a JSON document that was cut off mid-stream.
+// A key without a value is dropped; a string value cut off mid-text is closed and reported.
+const closeTruncatedJson = (text: string): { text: string; closedString: boolean } => {
+  const stack: JsonFrame[] = [];
+  let inString = false;
+  let escaped = false;
+
+  const startValue = (frame: JsonFrame | undefined) => {
+    if (frame?.close === "}") frame.keyStart = null;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    const frame = stack[stack.length - 1];
+    if (char === '"') {
+      inString = true;
+      if (frame?.close === "}" && frame.expectKey) {
+        frame.expectKey = false;
+        frame.keyStart = i;
+      } else {
+        startValue(frame);
+      }
+    } else if (char === "{" || char === "[") {
+      startValue(frame);
+      stack.push({ close: char === "{" ? "}" : "]", expectKey: char === "{", keyStart: null });
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+    } else if (char === ",") {
+      if (frame?.close === "}") frame.expectKey = true;
+    } else if (char !== ":" && !/\s/.test(char)) {
+      startValue(frame);
+    }
+  }
+
+  const frame = stack[stack.length - 1];
+  let repaired = text;
+  let closedString = false;
+  if (frame?.close === "}" && frame.keyStart !== null) {
+    repaired = text.slice(0, frame.keyStart);
+  } else if (inString) {
+    repaired = `${text}"`;
+    closedString = true;
+  }
+  // Drop a dangling comma before closing
+  repaired = repaired.replace(/,\s*$/, "");
+  return { text: repaired + stack.map(f => f.close).reverse().join(""), closedString };
+};
+
+export const parseJsonLoose = (text: string): { value: unknown; fixes: string[] } => {
+  const fixes: string[] = [];
+  let candidate = text.trim();
+
+  const fenced = candidate.match(/^```(?:json)?\s*([\s\S]*?)\s*(?:```)?$/i);
+  if (fenced) {
+    candidate = fenced[1].trim();
+    fixes.push("Removed markdown code fence");
+  }
+
+  try {
+    return { value: JSON.parse(candidate), fixes };
+  } catch {
+    // fall through to the repairs below
+  }
+
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start > 0 || (end !== -1 && end < candidate.length - 1)) {
+    const sliced = candidate.slice(Math.max(start, 0), end > start ? end + 1 : undefined);
+    try {
+      const value = JSON.parse(sliced);
+      fixes.push("Stripped text around the JSON object");
+      return { value, fixes };
+    } catch {
+      candidate = candidate.slice(Math.max(start, 0));
+    }
+  }
+
+  try {
+    const repaired = closeTruncatedJson(candidate);
+    const value = JSON.parse(repaired.text);
+    fixes.push("Closed truncated JSON");
+    if (repaired.closedString) fixes.push("Closed a text value that was cut off; its last word may be incomplete");
+    return { value, fixes };
+  } catch {
+    throw new ResponseValidationError(["Response is not valid JSON"]);
+  }
+};
+
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "'": "'", "“": "”", "‘": "’", "«": "»" };
+
+// Quotes are only stripped when they wrap the whole value, so a quoted phrase inside it survives
+const cleanText = (value: unknown): string => {
+  let text = (value === undefined || value === null ? "" : String(value)).replace(/\s+/g, " ").trim();
+  // An inner closing quote means the ends belong to separate quoted phrases, e.g. `"Big" and "Small"`
+  while (text.length >= 2 && QUOTE_PAIRS[text[0]] === text[text.length - 1] && !text.slice(1, -1).includes(text[text.length - 1])) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+};
+
+const normalizeKeywordList = (raw: unknown, fixes: string[]): string[] => {
+  let list: unknown[];
+  if (Array.isArray(raw)) {
+    list = raw;
+  } else if (typeof raw === "string") {
+    list = raw.split(/[,;\n]/);
+    fixes.push("Converted keywords from a string to a list");
+  } else {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  let cleaned = false;
+  let duplicates = 0;
+
+  for (const item of list) {
+    const original = typeof item === "string" ? item : String(item ?? "");
+    const keyword = cleanText(original).replace(/^#/, "").replace(/[.]+$/, "").trim();
+    if (keyword !== original) cleaned = true;
+    if (!keyword) continue;
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    keywords.push(keyword);
+  }
+
+  if (cleaned) fixes.push("Trimmed keyword whitespace/punctuation");
+  if (duplicates > 0) fixes.push(`Removed ${duplicates} duplicate keyword(s)`);
+  return keywords;
+};
+
+const firstWords = (text: string, count: number) => text.split(" ").slice(0, count).join(" ").replace(/[.,;:]+$/, "");
+
+// Translations are optional extras: anything missing is noted and skipped, never re-asked for
+const normalizeTranslations = (
+  raw: unknown,
+  languages: MetadataLanguage[],
+  fixes: string[]
+): StockMetadata["translations"] => {
+  if (languages.length === 0) return undefined;
+  const source = (raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {}) as Record<string, any>;
+  const translations: Partial<Record<MetadataLanguage, LocalizedMetadata>> = {};
+
+  for (const lang of languages) {
+    const entry = source[lang];
+    const title = cleanText(entry?.title);
+    const description = cleanText(entry?.description);
+    if (!title && !description) {
+      fixes.push(`Missing '${lang}' translation`);
+      continue;
+    }
+    translations[lang] = {
+      title: title || firstWords(description, 8),
+      description: description || title,
+      keywords: normalizeKeywordList(entry?.keywords, fixes),
+    };
+  }
+
+  return Object.keys(translations).length > 0 ? translations : undefined;
+};
+
+export const validateStockMetadata = (raw: unknown, languages: MetadataLanguage[] = []): ValidationResult<StockMetadata> => {
+  const fixes: string[] = [];
+  const errors: string[] = [];
+  const source = (raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+
+  if (source !== raw) {
+    errors.push("Response is not a JSON object");
+  }
+
+  const coerceField = (key: string) => {
+    const value = source[key];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      fixes.push(`Coerced '${key}' to text`);
+      return Array.isArray(value) ? value.join(", ") : typeof value === "object" ? Object.entries(value as object).map(([k, v]) => `${k}: ${v}`).join(", ") : String(value);
+    }
+    return value;
+  };
+
+  let title = cleanText(coerceField("title"));
+  let description = cleanText(coerceField("description"));
+  let aiPrompt = String(coerceField("ai_prompt") ?? "").trim();
+  let negativePrompt = cleanText(coerceField("negative_prompt"));
+  let category = cleanText(coerceField("category"));
+  const technical = cleanText(coerceField("technical_settings"));
+  const keywords = normalizeKeywordList(source.keywords, fixes);
+  const translations = normalizeTranslations(source.translations, languages, fixes);
+
+  if (!title && description) {
+    title = firstWords(description, 8);
+    fixes.push("Derived missing title from description");
+  }
+  if (!description && title) {
+    description = title;
+    fixes.push("Used title as missing description");
+  }
+  // Some models put an A1111-style "Negative prompt:" line inside the prompt itself
+  const inlineNegative = aiPrompt.match(/^\s*Negative prompt:\s*(.*)$/im);
+  if (inlineNegative) {
+    aiPrompt = aiPrompt.replace(inlineNegative[0], "").replace(/\n{2,}/g, "\n").trim();
+    if (!negativePrompt) negativePrompt = inlineNegative[1].trim();
+    fixes.push("Moved inline negative prompt to 'negative_prompt'");
+  }
+  if (!title) errors.push("'title' is missing or empty");
+  if (!aiPrompt) errors.push("'ai_prompt' is missing or empty");
+  if (keywords.length < MIN_KEYWORDS) {
+    errors.push(`'keywords' must contain at least ${MIN_KEYWORDS} items (got ${keywords.length})`);
+  }
+  if (!category) {
+    category = "Miscellaneous";
+    fixes.push("Defaulted missing category");
+  }
+
+  const value: StockMetadata = {
+    title,
+    description,
+    ai_prompt: aiPrompt,
+    ...(negativePrompt && { negative_prompt: negativePrompt }),
+    keywords,
+    category,
+    ...(technical && { technical_settings: technical }),
+    ...(translations && { translations }),
+  };
+
+  return { value, fixes, errors };
+};
+
+export const validateSeoVariations = (raw: unknown): ValidationResult<SeoVariationSet> => {
+  const fixes: string[] = [];
+  const errors: string[] = [];
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+
+  const readVariation = (key: keyof SeoVariationSet) => {
+    const title = cleanText(source[key]?.title);
+    const description = cleanText(source[key]?.description);
+    if (!title) errors.push(`'${key}.title' is missing or empty`);
+    if (!description) errors.push(`'${key}.description' is missing or empty`);
+    return { title, description };
+  };
+
+  const value: SeoVariationSet = {
+    descriptive: readVariation("descriptive"),
+    conceptual: readVariation("conceptual"),
+    commercial: readVariation("commercial"),
+  };
+
+  return { value, fixes, errors };
+};
+
+export const validateKeywordList = (raw: unknown): ValidationResult<string[]> => {
+  const fixes: string[] = [];
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  return { value: normalizeKeywordList(source.keywords, fixes), fixes, errors: [] };
+};
@@ -0,0 +1,141 @@
+// IndexedDB-backed persistence for the current batch
+// File blobs are stored directly (structured clone), so a restored session can be re-processed.
+// Each file is written once under its item id; later saves only rewrite the items whose metadata changed.
+
+import { BatchItem } from "../types";
+
+const DB_NAME = "stockprompt_pro";
+const DB_VERSION = 2;
+const SESSION_STORE = "sessions";
+const ITEM_STORE = "items";
+const FILE_STORE = "files";
+const SESSION_KEY = "last";
+
+export interface SavedSession {
+  items: BatchItem[];
+  activeItemId: string | null;
+  savedAt: number;
+}
+
+interface SessionIndex {
+  itemIds: string[];
+  activeItemId: string | null;
+  savedAt: number;
+}
+
+type StoredItem = Omit<BatchItem, "file">;
+
+// What is in the database right now, by id; React replaces an item object whenever it changes
+const savedItems = new Map<string, BatchItem>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [SESSION_STORE, ITEM_STORE, FILE_STORE].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The action queues its requests and may return a function that reads their results once the transaction has committed
+const runTransaction = async <T = void>(
+  mode: IDBTransactionMode,
+  storeNames: string[],
+  action: (transaction: IDBTransaction) => (() => T) | void
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const collect = action(transaction);
+      transaction.oncomplete = () => resolve(collect ? collect() : (undefined as T));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveSession = async (items: BatchItem[], activeItemId: string | null): Promise<void> => {
+  try {
+    const currentIds = new Set(items.map(item => item.id));
+    const changed = items.filter(item => savedItems.get(item.id) !== item);
+    const removedIds = Array.from(savedItems.keys()).filter(id => !currentIds.has(id));
+    const index: SessionIndex = { itemIds: items.map(item => item.id), activeItemId, savedAt: Date.now() };
+
+    await runTransaction("readwrite", [SESSION_STORE, ITEM_STORE, FILE_STORE], transaction => {
+      const itemStore = transaction.objectStore(ITEM_STORE);
+      const fileStore = transaction.objectStore(FILE_STORE);
+      changed.forEach(item => {
+        const { file, ...metadata } = item;
+        itemStore.put(metadata, item.id);
+        if (!savedItems.has(item.id)) fileStore.put(file, item.id);
+      });
+      removedIds.forEach(id => {
+        itemStore.delete(id);
+        fileStore.delete(id);
+      });
+      transaction.objectStore(SESSION_STORE).put(index, SESSION_KEY);
+    });
+
+    changed.forEach(item => savedItems.set(item.id, item));
+    removedIds.forEach(id => savedItems.delete(id));
+  } catch (error) {
+    console.error("Session save failed", error);
+  }
+};
+
+export const loadSession = async (): Promise<SavedSession | null> => {
+  try {
+    const { index, items, files } = await runTransaction("readonly", [SESSION_STORE, ITEM_STORE, FILE_STORE], transaction => {
+      const indexRequest = transaction.objectStore(SESSION_STORE).get(SESSION_KEY);
+      const itemsRequest = transaction.objectStore(ITEM_STORE).getAll();
+      const fileStore = transaction.objectStore(FILE_STORE);
+      const fileKeysRequest = fileStore.getAllKeys();
+      const filesRequest = fileStore.getAll();
+      return () => ({
+        // Sessions saved before files had their own store have no item ids and aren't restored
+        index: indexRequest.result as SessionIndex | undefined,
+        items: itemsRequest.result as StoredItem[],
+        files: new Map<IDBValidKey, File>(fileKeysRequest.result.map((key, i) => [key, filesRequest.result[i]])),
+      });
+    });
+    if (!index?.itemIds) return null;
+
+    const byId = new Map<string, StoredItem>(items.map(item => [item.id, item]));
+    const restored = index.itemIds
+      .filter(id => byId.has(id) && files.has(id))
+      .map(id => ({ ...byId.get(id)!, file: files.get(id)! }) as BatchItem);
+    if (restored.length === 0) return null;
+    restored.forEach(item => savedItems.set(item.id, item));
+
+    // Items that were mid-flight when the page closed go back to the queue
+    return {
+      items: restored.map(item =>
+        item.status === "processing" ? { ...item, status: "pending" } : item
+      ),
+      activeItemId: index.activeItemId,
+      savedAt: index.savedAt,
+    };
+  } catch (error) {
+    console.error("Session load failed", error);
+    return null;
+  }
+};
+
+export const clearSession = async (): Promise<void> => {
+  try {
+    await runTransaction("readwrite", [SESSION_STORE, ITEM_STORE, FILE_STORE], transaction => {
+      [SESSION_STORE, ITEM_STORE, FILE_STORE].forEach(name => transaction.objectStore(name).clear());
+    });
+    savedItems.clear();
+  } catch (error) {
+    console.error("Session clear failed", error);
+  }
+};
@@ -1,21 +1,228 @@
-export type TargetModel = 'midjourney' | 'stable_diffusion' | 'firefly' | 'dalle';
+export type TargetModel =
+  | 'midjourney'
+  | 'midjourney_v7'
+  | 'niji'
+  | 'stable_diffusion'
+  | 'sd15'
+  | 'flux'
+  | 'ideogram'
+  | 'imagen'
+  | 'leonardo'
+  | 'firefly'
+  | 'dalle';
 export type KeywordDensity = 'low' | 'standard' | 'high';
 
+export type ProviderId = 'gemini' | 'openai_compatible' | 'ollama';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  // Used for image previews; providers without image generation leave it empty
+  imageModel?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Extra languages generated next to the English master metadata
+export type MetadataLanguage = 'id' | 'de' | 'ja' | 'es' | 'fr' | 'pt';
+
+export interface LocalizedMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+// Native generation parameters; each model family only reads its own fields
+export type IdeogramStyle = 'auto' | 'general' | 'realistic' | 'design' | 'render_3d' | 'anime';
+export type MagicPromptMode = 'auto' | 'on' | 'off';
+export type PersonGeneration = 'dont_allow' | 'allow_adult' | 'allow_all';
+
+export interface ModelParameters {
+  // Midjourney / niji
+  styleRaw: boolean;
+  stylize: number;
+  chaos: number;
+  // Comma-separated terms for --no
+  exclude: string;
+  // Stable Diffusion
+  sampler: string;
+  steps: number;
+  cfgScale: number;
+  // Flux (distilled guidance)
+  guidance: number;
+  // Ideogram
+  ideogramStyle: IdeogramStyle;
+  magicPrompt: MagicPromptMode;
+  // Imagen
+  enhancePrompt: boolean;
+  personGeneration: PersonGeneration;
+  // Leonardo
+  leonardoPreset: string;
+}
+
+// Per-model overrides of the prompt formatting rules
+export type PromptTemplates = Partial<Record<TargetModel, string>>;
+
 export interface PromptConfig {
   targetModel: TargetModel;
   aspectRatio: string;
   includeTechnical: boolean;
   keywordDensity: KeywordDensity;
+  provider: ProviderConfig;
+  // Content-policy mode: steer prompts away from people and animals
+  inanimateOnly: boolean;
+  promptTemplates: PromptTemplates;
+  modelParams: ModelParameters;
+  targetLanguages: MetadataLanguage[];
+}
+
+// Everything in PromptConfig that shapes a result; the provider connection (model, URL, API key) always comes from the live config
+export type GenerationSettings = Omit<PromptConfig, 'provider'>;
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
 }
 
 export interface StockMetadata {
   title: string;
   description: string;
   ai_prompt: string;
+  // Things the target should avoid; only used by targets with a negative prompt field
+  negative_prompt?: string;
   keywords: string[];
   category: string;
   technical_settings?: string;
+  translations?: Partial<Record<MetadataLanguage, LocalizedMetadata>>;
   used_model?: TargetModel;
+  // Fixes applied to the raw model response during validation
+  repairs?: string[];
+}
+
+export type MetadataChangeKind = 'generated' | 'manual' | 'refine' | 'seo' | 'sort' | 'restore' | 'bulk';
+
+export interface MetadataChange {
+  kind: MetadataChangeKind;
+  // Refine instruction, SEO variation type, sort order or restored version number
+  detail?: string;
+}
+
+export interface MetadataVersion extends MetadataChange {
+  id: string;
+  data: StockMetadata;
+  createdAt: number;
+}
+
+export interface KeywordVocabulary {
+  // How often each keyword was accepted, keyed by its lowercase form
+  usage: Record<string, number>;
+  // Interchangeable terms; the first entry of each group is the preferred spelling
+  synonymGroups: string[][];
+}
+
+export interface BulkUpdate {
+  id: string;
+  data: StockMetadata;
+  change: MetadataChange;
+}
+
+// Outcome of refining one item during a bulk refine; exactly one of data/error is set
+export interface BulkRefineResult {
+  id: string;
+  data?: StockMetadata;
+  error?: string;
+}
+
+export interface CameraExposure {
+  make?: string;
+  model?: string;
+  lens?: string;
+  iso?: number;
+  fNumber?: number;
+  exposureTime?: number;
+  focalLength?: number;
+  dateTaken?: string;
+}
+
+export interface EmbeddedMetadata {
+  exposure: CameraExposure | null;
+  gps: { latitude: number; longitude: number } | null;
+  title?: string;
+  description?: string;
+  keywords: string[];
+}
+
+export interface LivingBeingCheck {
+  people: boolean;
+  animals: boolean;
+  // What was seen, e.g. "woman", "dog"
+  subjects: string[];
+}
+
+export interface ImageFingerprint {
+  // 64-bit difference hash (dHash) as 16 hex characters
+  hash: string;
+  width: number;
+  height: number;
+}
+
+export type ColorSpace = 'srgb' | 'adobe_rgb' | 'display_p3' | 'other_rgb' | 'cmyk' | 'gray' | 'untagged';
+
+export interface ImageTechnicalInfo {
+  width: number;
+  height: number;
+  fileSize: number;
+  colorSpace: ColorSpace;
+  // Description from the embedded ICC profile, e.g. "sRGB IEC61966-2.1"
+  colorProfileName?: string;
+  // Estimated from the quantization tables; JPEG only
+  jpegQuality?: number;
+  // Fine detail relative to coarser detail around the centre; missing for flat images
+  detailRatio?: number;
+}
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export type PreflightCheckId = 'megapixels' | 'fileSize' | 'colorProfile' | 'jpegQuality' | 'upscaling';
+
+export interface PreflightCheck {
+  id: PreflightCheckId;
+  status: PreflightStatus;
+}
+
+export interface PreflightReport {
+  profileId: ExportProfileId;
+  info: ImageTechnicalInfo;
+  checks: PreflightCheck[];
+  // Worst status of all checks
+  status: PreflightStatus;
+}
+
+// Near-duplicates wait for a decision before they are queued, then are skipped or kept as part of a series
+export type DuplicateDecision = 'held' | 'skipped' | 'series';
+
+// Downscaled, re-encoded copy sent to the model for analysis; exports always use the original file
+export interface AnalysisImageSettings {
+  enabled: boolean;
+  // Longest edge in pixels
+  maxEdge: number;
+  // JPEG quality from 0 to 1
+  quality: number;
+}
+
+export interface AnalysisImageStats {
+  // False when the original was sent as-is (disabled, not decodable, or re-encoding didn't make it smaller)
+  downscaled: boolean;
+  originalBytes: number;
+  sentBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  prepareMs: number;
+  // Metadata request time for the last attempt, image upload included
+  requestMs?: number;
 }
 
 export interface BatchItem {
@@ -24,12 +231,59 @@ export interface BatchItem {
   status: 'pending' | 'processing' | 'completed' | 'error';
   data: StockMetadata | null;
   error: string | null;
+  embedded?: EmbeddedMetadata | null;
+  // Number of retries made for the current run (0 on the first try)
+  attempts?: number;
+  // Keyword lint issue keys the user chose to ignore for export
+  lintWaivers?: string[];
+  // Logos/brand marks the model spotted in the image itself
+  visibleLogos?: string[];
+  // People/animal classification, only run in content-policy mode
+  livingBeings?: LivingBeingCheck | null;
+  // Settings captured when the item was queued or overridden, so later panel edits don't leak into it
+  config?: GenerationSettings;
+  // Every version of `data`, oldest first; `historyIndex` points at the one currently in `data`
+  history?: MetadataVersion[];
+  historyIndex?: number;
+  // Perceptual hash taken at upload; null when the file couldn't be decoded as an image
+  fingerprint?: ImageFingerprint | null;
+  duplicate?: DuplicateDecision;
+  // Technical checks against the selected agency's requirements; null when the file couldn't be decoded
+  preflight?: PreflightReport | null;
+  // The user chose to process the file even though pre-flight failed
+  preflightOverride?: boolean;
+  analysisImage?: AnalysisImageStats;
+}
+
+export interface QueueSettings {
+  concurrency: number;
+  maxRetries: number;
 }
 
 export interface AnalysisState {
   items: BatchItem[];
   isProcessing: boolean;
+  isPaused: boolean;
   activeItemId: string | null;
 }
 
+export type ExportProfileId = 'generic' | 'adobe_stock' | 'shutterstock' | 'freepik' | 'dreamstime' | '123rf';
+
+export interface ExportOptions {
+  editorial: boolean;
+  mature: boolean;
+  illustration: boolean;
+}
+
+export type IpRiskCategory = 'brand' | 'character' | 'artist' | 'landmark';
+
+export interface IpRiskTerm {
+  term: string;
+  category: IpRiskCategory;
+  // Generic wording that keeps the meaning without the protected name ('' removes it)
+  replacement: string;
+  // For names that are also ordinary words ("marvel", "tesla"): only the capitalised spelling counts
+  caseSensitive?: boolean;
+}
+
 export type SupportedMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf';
\ No newline at end of file
@@ -0,0 +1,128 @@
+// Downscales and re-encodes images before they are sent to the model; the original file is never touched
+// Models look at images at well under 2000px, so larger uploads only cost transfer time and tokens.
+
+import { AnalysisImageSettings, AnalysisImageStats, BatchItem } from '../types';
+
+const ANALYSIS_IMAGE_STORAGE_KEY = 'stockprompt_analysis_image';
+
+export const ANALYSIS_MAX_EDGE_OPTIONS = [1024, 1568, 2048, 3072];
+export const ANALYSIS_QUALITY_OPTIONS = [0.7, 0.8, 0.85, 0.9, 0.95];
+
+export const DEFAULT_ANALYSIS_IMAGE_SETTINGS: AnalysisImageSettings = {
+  enabled: true,
+  maxEdge: 1568,
+  quality: 0.85,
+};
+
+export const loadAnalysisImageSettings = (): AnalysisImageSettings => {
+  try {
+    const saved = localStorage.getItem(ANALYSIS_IMAGE_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_ANALYSIS_IMAGE_SETTINGS, ...(JSON.parse(saved) as AnalysisImageSettings) };
+  } catch (e) {
+    console.error("Invalid saved analysis image settings", e);
+  }
+  return DEFAULT_ANALYSIS_IMAGE_SETTINGS;
+};
+
+export const saveAnalysisImageSettings = (settings: AnalysisImageSettings) => {
+  localStorage.setItem(ANALYSIS_IMAGE_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface PreparedAnalysisImage {
+  file: File;
+  stats: AnalysisImageStats;
+}
+
+const toJpegBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+// The file to send plus what preparing it saved; falls back to the original whenever the copy wouldn't help
+export const prepareAnalysisImage = async (
+  file: File,
+  settings: AnalysisImageSettings
+): Promise<PreparedAnalysisImage> => {
+  const started = performance.now();
+  const unchanged = (width = 0, height = 0) => ({
+    file,
+    stats: {
+      downscaled: false,
+      originalBytes: file.size,
+      sentBytes: file.size,
+      originalWidth: width,
+      originalHeight: height,
+      width,
+      height,
+      prepareMs: Math.round(performance.now() - started),
+    },
+  });
+  if (!file.type.startsWith('image/')) return unchanged();
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    console.error("Could not decode image for analysis", e);
+    return unchanged();
+  }
+  const { width: originalWidth, height: originalHeight } = bitmap;
+  if (!settings.enabled) {
+    bitmap.close();
+    return unchanged(originalWidth, originalHeight);
+  }
+
+  const scale = Math.min(1, settings.maxEdge / Math.max(originalWidth, originalHeight));
+  const width = Math.max(1, Math.round(originalWidth * scale));
+  const height = Math.max(1, Math.round(originalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return unchanged(originalWidth, originalHeight);
+  }
+  // JPEG has no alpha; transparent PNG areas would otherwise turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await toJpegBlob(canvas, settings.quality);
+  if (!blob || blob.size >= file.size) return unchanged(originalWidth, originalHeight);
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return {
+    file: new File([blob], name, { type: 'image/jpeg' }),
+    stats: {
+      downscaled: true,
+      originalBytes: file.size,
+      sentBytes: blob.size,
+      originalWidth,
+      originalHeight,
+      width,
+      height,
+      prepareMs: Math.round(performance.now() - started),
+    },
+  };
+};
+
+export interface AnalysisImageSummary {
+  savedBytes: number;
+  // Average request time per group, undefined when the batch has no finished request in that group
+  averageRequestMs: { downscaled?: number; original?: number };
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+// Batch totals, so the request time of one item can be read against files sent at full size
+export const summarizeAnalysisImages = (items: BatchItem[]): AnalysisImageSummary => {
+  const stats = items.map(item => item.analysisImage).filter((s): s is AnalysisImageStats => !!s);
+  const requestTimes = (downscaled: boolean) =>
+    stats.filter(s => s.downscaled === downscaled && s.requestMs !== undefined).map(s => s.requestMs!);
+  return {
+    savedBytes: stats.reduce((sum, s) => sum + s.originalBytes - s.sentBytes, 0),
+    averageRequestMs: { downscaled: average(requestTimes(true)), original: average(requestTimes(false)) },
+  };
+};
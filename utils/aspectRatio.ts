@@ -0,0 +1,76 @@
+// Aspect ratio for each item, measured from the decoded image and snapped to what the target model supports
+// The global setting is only an override; "auto" lets every image keep its own shape.
+
+import { BatchItem, PromptConfig, TargetModel } from '../types';
+
+export const AUTO_ASPECT_RATIO = 'auto';
+// Used when an item couldn't be decoded and there is nothing to measure
+export const FALLBACK_ASPECT_RATIO = '1:1';
+
+// Offered in the selectors; any other w:h can still be typed in as a custom ratio
+export const PRESET_ASPECT_RATIOS = ['1:1', '16:9', '4:3', '3:2', '2:3', '9:16'];
+
+// Fixed ratio lists; models missing here take any ratio (Midjourney --ar, SD/Flux sizes, Leonardo custom sizes)
+const SUPPORTED_RATIOS: Partial<Record<TargetModel, string[]>> = {
+  ideogram: ['1:1', '3:2', '2:3', '4:3', '3:4', '16:9', '9:16', '16:10', '10:16', '3:1', '1:3'],
+  imagen: ['1:1', '4:3', '3:4', '16:9', '9:16'],
+  firefly: ['1:1', '4:3', '3:4', '16:9', '9:16'],
+  dalle: ['1:1', '16:9', '9:16'],
+};
+
+// Free-ratio models get the simplest w:h within this relative error of the real shape
+const CUSTOM_RATIO_TOLERANCE = 0.01;
+const MAX_CUSTOM_TERM = 21;
+const FALLBACK_CUSTOM_TOLERANCE = 0.05;
+
+export const parseAspectRatio = (value: string): number | null => {
+  const match = /^\s*(\d+)\s*:\s*(\d+)\s*$/.exec(value);
+  if (!match) return null;
+  const [w, h] = [Number(match[1]), Number(match[2])];
+  return w > 0 && h > 0 ? w / h : null;
+};
+
+export const isValidAspectRatio = (value: string) => parseAspectRatio(value) !== null;
+
+export const getSupportedAspectRatios = (model: TargetModel): string[] | null => SUPPORTED_RATIOS[model] || null;
+
+// Compared on a log scale so 2:1 and 1:2 are equally far from 1:1
+export const nearestAspectRatio = (ratio: number, options: string[]): string =>
+  options.reduce((best, option) =>
+    Math.abs(Math.log(parseAspectRatio(option)! / ratio)) < Math.abs(Math.log(parseAspectRatio(best)! / ratio)) ? option : best
+  );
+
+// Smallest terms first, so 6000×4000 becomes 3:2 and 2048×1365 is still 3:2
+const toCustomRatio = (ratio: number): string => {
+  let best = { w: 1, h: 1, error: Infinity };
+  for (let h = 1; h <= MAX_CUSTOM_TERM; h++) {
+    const w = Math.round(ratio * h);
+    if (w < 1 || w > MAX_CUSTOM_TERM) continue;
+    const error = Math.abs(w / h / ratio - 1);
+    if (error <= CUSTOM_RATIO_TOLERANCE) return `${w}:${h}`;
+    if (error < best.error) best = { w, h, error };
+  }
+  if (best.error <= FALLBACK_CUSTOM_TOLERANCE) return `${best.w}:${best.h}`;
+  // Panoramas too long for small terms
+  return ratio > 1 ? `${Math.round(ratio)}:1` : `1:${Math.round(1 / ratio)}`;
+};
+
+export const snapAspectRatio = (width: number, height: number, model: TargetModel): string => {
+  if (width <= 0 || height <= 0) return FALLBACK_ASPECT_RATIO;
+  const supported = getSupportedAspectRatios(model);
+  return supported ? nearestAspectRatio(width / height, supported) : toCustomRatio(width / height);
+};
+
+// Decoded size from the pre-flight read, or from the fingerprint when pre-flight couldn't run
+export const getItemDimensions = (item: BatchItem): { width: number; height: number } | null =>
+  item.preflight?.info || item.fingerprint || null;
+
+export const resolveAspectRatio = (config: Pick<PromptConfig, 'aspectRatio' | 'targetModel'>, item?: BatchItem): string => {
+  if (config.aspectRatio !== AUTO_ASPECT_RATIO) return config.aspectRatio;
+  const dimensions = item && getItemDimensions(item);
+  return dimensions ? snapAspectRatio(dimensions.width, dimensions.height, config.targetModel) : FALLBACK_ASPECT_RATIO;
+};
+
+// The config an item is actually generated with: "auto" replaced by the item's own ratio
+export const withItemAspectRatio = (config: PromptConfig, item?: BatchItem): PromptConfig =>
+  config.aspectRatio === AUTO_ASPECT_RATIO ? { ...config, aspectRatio: resolveAspectRatio(config, item) } : config;
@@ -0,0 +1,117 @@
+// Keyword frequency and coverage across a whole batch
+// Surfaces the patterns agency reviewers reject: generic tags on every file, thin tagging and copy-pasted titles.
+
+import { BatchItem } from '../types';
+import { normalizeKeyword } from './keywordLinter';
+
+export interface TermUsage {
+  // Display form: the first spelling seen in the batch
+  term: string;
+  count: number;
+  itemIds: string[];
+}
+
+export interface SparseItem {
+  itemId: string;
+  distinctKeywords: number;
+}
+
+export interface BatchAnalytics {
+  analyzedCount: number;
+  // Most used first
+  keywords: TermUsage[];
+  categories: TermUsage[];
+  // Keywords on nearly every item, which says nothing about any one of them
+  genericKeywords: TermUsage[];
+  sparseItems: SparseItem[];
+  medianDistinctKeywords: number;
+  duplicateTitles: TermUsage[];
+}
+
+export type AnalyticsFilterKind = 'keyword' | 'category' | 'title' | 'sparse';
+
+export interface AnalyticsFilter {
+  kind: AnalyticsFilterKind;
+  // Term as displayed; empty for the sparse filter
+  value: string;
+}
+
+// Share of items a keyword must appear on to count as generic
+const GENERIC_SHARE = 0.9;
+// Too few items for "almost every item" to mean anything
+const MIN_ITEMS_FOR_GENERIC = 3;
+// Fewer distinct keywords than this share of the batch median counts as thin tagging
+const SPARSE_SHARE = 0.6;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const sortByUsage = (usage: Map<string, TermUsage>) =>
+  Array.from(usage.values()).sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+
+const countTerm = (usage: Map<string, TermUsage>, key: string, term: string, itemId: string) => {
+  const entry = usage.get(key);
+  if (!entry) {
+    usage.set(key, { term, count: 1, itemIds: [itemId] });
+  } else if (!entry.itemIds.includes(itemId)) {
+    entry.count++;
+    entry.itemIds.push(itemId);
+  }
+};
+
+export const analyzeBatch = (items: BatchItem[]): BatchAnalytics => {
+  const analyzed = items.filter(item => item.status === 'completed' && item.data);
+  const keywords = new Map<string, TermUsage>();
+  const categories = new Map<string, TermUsage>();
+  const titles = new Map<string, TermUsage>();
+  const distinctCounts = new Map<string, number>();
+
+  analyzed.forEach(item => {
+    const data = item.data!;
+    data.keywords.forEach(keyword => {
+      if (keyword.trim()) countTerm(keywords, keyword.trim().toLowerCase(), keyword.trim(), item.id);
+    });
+    if (data.category?.trim()) countTerm(categories, data.category.trim().toLowerCase(), data.category.trim(), item.id);
+    if (data.title?.trim()) countTerm(titles, data.title.trim().toLowerCase().replace(/\s+/g, ' '), data.title.trim(), item.id);
+    // Singular/plural and spacing variants don't add coverage
+    distinctCounts.set(item.id, new Set(data.keywords.map(normalizeKeyword).filter(Boolean)).size);
+  });
+
+  const sortedKeywords = sortByUsage(keywords);
+  const medianDistinctKeywords = median(Array.from(distinctCounts.values()));
+  const sparseLimit = medianDistinctKeywords * SPARSE_SHARE;
+
+  return {
+    analyzedCount: analyzed.length,
+    keywords: sortedKeywords,
+    categories: sortByUsage(categories),
+    genericKeywords: analyzed.length >= MIN_ITEMS_FOR_GENERIC
+      ? sortedKeywords.filter(usage => usage.count >= analyzed.length * GENERIC_SHARE)
+      : [],
+    sparseItems: Array.from(distinctCounts.entries())
+      .filter(([, count]) => count < sparseLimit)
+      .map(([itemId, distinctKeywords]) => ({ itemId, distinctKeywords }))
+      .sort((a, b) => a.distinctKeywords - b.distinctKeywords),
+    medianDistinctKeywords,
+    duplicateTitles: sortByUsage(titles).filter(usage => usage.count > 1),
+  };
+};
+
+// Items matching a filter, looked up in fresh analytics so edits are reflected immediately
+export const getFilteredItemIds = (analytics: BatchAnalytics, filter: AnalyticsFilter): string[] => {
+  const key = filter.value.trim().toLowerCase();
+  switch (filter.kind) {
+    case 'keyword':
+      return analytics.keywords.find(usage => usage.term.toLowerCase() === key)?.itemIds || [];
+    case 'category':
+      return analytics.categories.find(usage => usage.term.toLowerCase() === key)?.itemIds || [];
+    case 'title':
+      return analytics.duplicateTitles.find(usage => usage.term.toLowerCase().replace(/\s+/g, ' ') === key.replace(/\s+/g, ' '))?.itemIds || [];
+    case 'sparse':
+      return analytics.sparseItems.map(item => item.itemId);
+  }
+};
@@ -0,0 +1,94 @@
+// Deterministic bulk edits applied to many items at once
+// Every operation is optional; an empty field means "leave this alone".
+
+import { BatchItem, StockMetadata } from '../types';
+import { splitPromptParameters, joinPromptParameters } from './modelParameters';
+import { diffMetadata, MetadataFieldDiff } from './metadataHistory';
+
+export type BulkTextField = 'title' | 'description' | 'ai_prompt';
+
+export interface BulkEditOperations {
+  addKeywords: string[];
+  removeKeywords: string[];
+  find: string;
+  replace: string;
+  findFields: BulkTextField[];
+  matchCase: boolean;
+  category: string;
+  // Added to the descriptive part of the prompt, before any --flags or parameter lines
+  promptSuffix: string;
+}
+
+export const EMPTY_BULK_EDIT: BulkEditOperations = {
+  addKeywords: [],
+  removeKeywords: [],
+  find: '',
+  replace: '',
+  findFields: ['title', 'description', 'ai_prompt'],
+  matchCase: false,
+  category: '',
+  promptSuffix: '',
+};
+
+export interface BulkEditPreview {
+  itemId: string;
+  before: StockMetadata;
+  after: StockMetadata;
+  diffs: MetadataFieldDiff[];
+}
+
+// Comma-separated input to a clean keyword list
+export const parseKeywordInput = (input: string) => input.split(',').map(k => k.trim()).filter(Boolean);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const appendToPrompt = (prompt: string, suffix: string) => {
+  const { body, parameters } = splitPromptParameters(prompt);
+  const joined = body ? `${body.replace(/[\s,]+$/, '')}, ${suffix}` : suffix;
+  return joinPromptParameters(joined, parameters);
+};
+
+export const applyBulkEdit = (data: StockMetadata, operations: BulkEditOperations): StockMetadata => {
+  let result = { ...data };
+
+  if (operations.find) {
+    const pattern = new RegExp(escapeRegExp(operations.find), operations.matchCase ? 'g' : 'gi');
+    operations.findFields.forEach(field => {
+      // A function replacement keeps "$1" and friends in the replacement literal
+      result = { ...result, [field]: (result[field] || '').replace(pattern, () => operations.replace) };
+    });
+  }
+
+  if (operations.removeKeywords.length > 0 || operations.addKeywords.length > 0) {
+    const removed = new Set(operations.removeKeywords.map(k => k.toLowerCase()));
+    const keywords = result.keywords.filter(k => !removed.has(k.toLowerCase()));
+    const existing = new Set(keywords.map(k => k.toLowerCase()));
+    operations.addKeywords.forEach(keyword => {
+      if (!existing.has(keyword.toLowerCase())) {
+        existing.add(keyword.toLowerCase());
+        keywords.push(keyword);
+      }
+    });
+    result = { ...result, keywords };
+  }
+
+  if (operations.category.trim()) {
+    result = { ...result, category: operations.category.trim() };
+  }
+
+  if (operations.promptSuffix.trim()) {
+    result = { ...result, ai_prompt: appendToPrompt(result.ai_prompt, operations.promptSuffix.trim()) };
+  }
+
+  return result;
+};
+
+// Only items whose metadata would actually change are listed
+export const previewBulkEdit = (items: BatchItem[], operations: BulkEditOperations): BulkEditPreview[] =>
+  items
+    .filter(item => item.status === 'completed' && item.data)
+    .map(item => {
+      const after = applyBulkEdit(item.data!, operations);
+      return { itemId: item.id, before: item.data!, after, diffs: diffMetadata(item.data!, after) };
+    })
+    .filter(preview => preview.diffs.length > 0);
@@ -0,0 +1,56 @@
+// Named generation-settings presets, saved in this browser
+// A preset holds everything in PromptConfig except the provider, so API keys never end up in one.
+
+import { ConfigPreset, GenerationSettings, PromptConfig } from '../types';
+import { DEFAULT_MODEL_PARAMETERS } from './modelParameters';
+
+const PRESETS_STORAGE_KEY = 'stockprompt_config_presets';
+
+export const loadConfigPresets = (): ConfigPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (saved) return (JSON.parse(saved) as ConfigPreset[]).filter(p => p && p.name && p.settings);
+  } catch (e) {
+    console.error("Invalid saved config presets", e);
+  }
+  return [];
+};
+
+export const saveConfigPresets = (presets: ConfigPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const toGenerationSettings = ({ provider, ...settings }: PromptConfig): GenerationSettings => settings;
+
+// Settings saved by an older version may lack newer fields; the base config fills the gaps
+export const applyGenerationSettings = (config: PromptConfig, settings: GenerationSettings): PromptConfig => ({
+  ...config,
+  ...settings,
+  modelParams: { ...DEFAULT_MODEL_PARAMETERS, ...settings.modelParams },
+  provider: config.provider,
+});
+
+// Saving under an existing name replaces that preset instead of adding a twin
+export const upsertPreset = (presets: ConfigPreset[], name: string, settings: GenerationSettings): ConfigPreset[] => {
+  const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+  if (existing) return presets.map(p => p.id === existing.id ? { ...p, settings } : p);
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+  return [...presets, { id, name, settings }];
+};
+
+// Key order differs between freshly built and JSON-loaded settings, so compare a sorted serialization
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const isSameSettings = (a: GenerationSettings, b: GenerationSettings) => stableStringify(a) === stableStringify(b);
+
+export const findMatchingPreset = (presets: ConfigPreset[], settings: GenerationSettings) =>
+  presets.find(p => isSameSettings(p.settings, settings));
@@ -0,0 +1,64 @@
+// Living-being content policy (inanimate-only mode)
+// Flags prompts that still describe people or animals and summarizes a batch's compliance.
+
+import { BatchItem } from '../types';
+
+// Only words that mean a person on their own; "clock hands", "cliff face", "3D model", "a couple of
+// cups" or "figure 1" describe objects, so those terms are left to the image classifier
+const PEOPLE_TERMS = [
+  'person', 'people', 'man', 'men', 'woman', 'women', 'boy', 'girl', 'child', 'children', 'kid', 'kids',
+  'baby', 'toddler', 'teen', 'teenager', 'adult', 'human', 'humans', 'portrait', 'selfie',
+  'family', 'crowd', 'worker', 'businessman', 'businesswoman', 'lady', 'gentleman',
+  'doctor', 'nurse', 'student', 'athlete', 'silhouette',
+];
+
+const ANIMAL_TERMS = [
+  'animal', 'animals', 'pet', 'pets', 'dog', 'dogs', 'puppy', 'cat', 'cats', 'kitten', 'bird', 'birds',
+  'horse', 'cow', 'sheep', 'goat', 'fish', 'insect', 'butterfly', 'bee', 'lion', 'tiger', 'elephant',
+  'bear', 'deer', 'fox', 'wolf', 'rabbit', 'monkey', 'owl', 'eagle', 'duck', 'chicken', 'wildlife',
+  'creature', 'snake', 'frog', 'whale', 'dolphin',
+];
+
+const buildPattern = (terms: string[]) => new RegExp(`\\b(${terms.join('|')})\\b`, 'gi');
+
+const PEOPLE_PATTERN = buildPattern(PEOPLE_TERMS);
+const ANIMAL_PATTERN = buildPattern(ANIMAL_TERMS);
+
+// "without people", "no animals" and the like are exactly what we want, not a violation
+const NEGATED_PATTERN = /\b(?:no|without|devoid of|free of|empty of)\s+(?:any\s+)?(?:\w+\s+)?(?:people|person|humans?|animals?|figures?|crowds?)\b/gi;
+
+export const findLivingBeingTerms = (text: string): string[] => {
+  const cleaned = text.replace(NEGATED_PATTERN, ' ');
+  const found = [...(cleaned.match(PEOPLE_PATTERN) || []), ...(cleaned.match(ANIMAL_PATTERN) || [])];
+  return Array.from(new Set(found.map(t => t.toLowerCase())));
+};
+
+export const hasLivingBeings = (item: BatchItem) =>
+  !!item.livingBeings && (item.livingBeings.people || item.livingBeings.animals);
+
+export interface ComplianceSummary {
+  checked: number;
+  withPeople: number;
+  withAnimals: number;
+  // Completed prompts that still mention people/animals
+  promptViolations: number;
+  compliant: number;
+}
+
+export const getComplianceSummary = (items: BatchItem[]): ComplianceSummary => {
+  const summary: ComplianceSummary = { checked: 0, withPeople: 0, withAnimals: 0, promptViolations: 0, compliant: 0 };
+
+  for (const item of items) {
+    if (item.livingBeings) {
+      summary.checked++;
+      if (item.livingBeings.people) summary.withPeople++;
+      if (item.livingBeings.animals) summary.withAnimals++;
+    }
+    if (item.status === 'completed' && item.data) {
+      if (findLivingBeingTerms(item.data.ai_prompt).length > 0) summary.promptViolations++;
+      else summary.compliant++;
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,261 @@
+// Agency-specific CSV export profiles
+// Each profile emits the exact upload CSV an agency accepts: column names/order,
+// category codes, keyword caps and per-field character limits.
+
+import { BatchItem, ExportOptions, ExportProfileId, StockMetadata } from '../types';
+import { TARGET_MODEL_LABELS } from './promptTemplates';
+import { getTranslatedLanguages } from './languages';
+
+export interface ExportProfile {
+  id: ExportProfileId;
+  label: string;
+  delimiter: string;
+  maxKeywords?: number;
+  minKeywords?: number;
+  // Agency prefers single-word keywords over phrases
+  singleWordKeywords?: boolean;
+  // Append Title/Description/Keywords columns per translated language; agency uploaders reject unknown columns
+  localizedColumns?: boolean;
+  headers: string[];
+  buildRow: (item: BatchItem, data: StockMetadata, options: ExportOptions) => string[];
+}
+
+// Adobe Stock category IDs (https://helpx.adobe.com/stock/contributor/help/titles-and-keywords.html)
+export const ADOBE_STOCK_CATEGORIES: { id: number; name: string; aliases: string[] }[] = [
+  { id: 1, name: 'Animals', aliases: ['animal', 'wildlife', 'pet'] },
+  { id: 2, name: 'Buildings and Architecture', aliases: ['building', 'architecture', 'interior', 'landmark'] },
+  { id: 3, name: 'Business', aliases: ['business', 'finance', 'office', 'corporate'] },
+  { id: 4, name: 'Drinks', aliases: ['drink', 'beverage', 'coffee'] },
+  { id: 5, name: 'The Environment', aliases: ['environment', 'ecology', 'climate'] },
+  { id: 6, name: 'States of Mind', aliases: ['mind', 'emotion', 'concept', 'abstract'] },
+  { id: 7, name: 'Food', aliases: ['food', 'cuisine', 'cooking'] },
+  { id: 8, name: 'Graphic Resources', aliases: ['graphic', 'background', 'texture', 'pattern', 'illustration', 'design'] },
+  { id: 9, name: 'Hobbies and Leisure', aliases: ['hobby', 'hobbies', 'leisure', 'recreation'] },
+  { id: 10, name: 'Industry', aliases: ['industry', 'industrial', 'manufacturing', 'construction'] },
+  { id: 11, name: 'Landscapes', aliases: ['landscape', 'nature', 'scenery', 'outdoor'] },
+  { id: 12, name: 'Lifestyle', aliases: ['lifestyle', 'home', 'fashion', 'beauty'] },
+  { id: 13, name: 'People', aliases: ['people', 'person', 'portrait'] },
+  { id: 14, name: 'Plants and Flowers', aliases: ['plant', 'flower', 'floral', 'botanical'] },
+  { id: 15, name: 'Culture and Religion', aliases: ['culture', 'religion', 'tradition', 'holiday'] },
+  { id: 16, name: 'Science', aliases: ['science', 'medical', 'healthcare', 'education'] },
+  { id: 17, name: 'Social Issues', aliases: ['social'] },
+  { id: 18, name: 'Sports', aliases: ['sport', 'fitness'] },
+  { id: 19, name: 'Technology', aliases: ['technology', 'tech', 'digital', 'computer'] },
+  { id: 20, name: 'Transport', aliases: ['transport', 'vehicle', 'car', 'automotive'] },
+  { id: 21, name: 'Travel', aliases: ['travel', 'tourism', 'vacation'] },
+];
+
+// Shutterstock accepts up to two of these category names per asset
+export const SHUTTERSTOCK_CATEGORIES: { name: string; aliases: string[] }[] = [
+  { name: 'Abstract', aliases: ['abstract', 'concept'] },
+  { name: 'Animals/Wildlife', aliases: ['animal', 'wildlife', 'pet'] },
+  { name: 'Arts', aliases: ['art', 'illustration', 'painting'] },
+  { name: 'Backgrounds/Textures', aliases: ['background', 'texture', 'pattern', 'graphic'] },
+  { name: 'Beauty/Fashion', aliases: ['beauty', 'fashion'] },
+  { name: 'Buildings/Landmarks', aliases: ['building', 'architecture', 'landmark'] },
+  { name: 'Business/Finance', aliases: ['business', 'finance', 'office', 'corporate'] },
+  { name: 'Education', aliases: ['education', 'school'] },
+  { name: 'Food and drink', aliases: ['food', 'drink', 'beverage', 'cuisine'] },
+  { name: 'Healthcare/Medical', aliases: ['health', 'medical'] },
+  { name: 'Holidays', aliases: ['holiday', 'christmas', 'celebration'] },
+  { name: 'Industrial', aliases: ['industry', 'industrial', 'manufacturing'] },
+  { name: 'Interiors', aliases: ['interior', 'room'] },
+  { name: 'Miscellaneous', aliases: [] },
+  { name: 'Nature', aliases: ['nature', 'landscape', 'plant', 'flower', 'environment'] },
+  { name: 'Objects', aliases: ['object', 'still life', 'product'] },
+  { name: 'Parks/Outdoor', aliases: ['park', 'outdoor', 'garden'] },
+  { name: 'People', aliases: ['people', 'person', 'portrait', 'lifestyle'] },
+  { name: 'Religion', aliases: ['religion', 'religious', 'spiritual'] },
+  { name: 'Science', aliases: ['science', 'laboratory'] },
+  { name: 'Signs/Symbols', aliases: ['sign', 'symbol', 'icon'] },
+  { name: 'Sports/Recreation', aliases: ['sport', 'recreation', 'fitness', 'hobby'] },
+  { name: 'Technology', aliases: ['technology', 'tech', 'digital', 'computer'] },
+  { name: 'Transportation', aliases: ['transport', 'vehicle', 'car', 'travel'] },
+  { name: 'Vintage', aliases: ['vintage', 'retro'] },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, with an optional plural, so "cars" matches "car" but "cartoon" doesn't
+const matchesAlias = (text: string, aliases: string[]) =>
+  aliases.some(alias => new RegExp(`\\b${escapeRegExp(alias)}(?:s|es)?\\b`, 'i').test(text));
+
+export const getAdobeCategoryId = (category: string): number | null => {
+  const exact = ADOBE_STOCK_CATEGORIES.find(c => c.name.toLowerCase() === category.trim().toLowerCase());
+  if (exact) return exact.id;
+  const fuzzy = ADOBE_STOCK_CATEGORIES.find(c => matchesAlias(category, c.aliases));
+  return fuzzy ? fuzzy.id : null;
+};
+
+// Primary category comes from the model's category, the secondary one from the keywords
+export const getShutterstockCategories = (data: StockMetadata): string[] => {
+  const result: string[] = [];
+  const primary = SHUTTERSTOCK_CATEGORIES.find(c => matchesAlias(data.category, c.aliases));
+  if (primary) result.push(primary.name);
+
+  for (const keyword of data.keywords) {
+    const secondary = SHUTTERSTOCK_CATEGORIES.find(c => !result.includes(c.name) && matchesAlias(keyword, c.aliases));
+    if (secondary) {
+      result.push(secondary.name);
+      break;
+    }
+  }
+
+  return result.length > 0 ? result.slice(0, 2) : ['Miscellaneous'];
+};
+
+// Cut text to a character limit without splitting words
+export const truncateText = (text: string, maxLength: number): string => {
+  const clean = (text || '').trim();
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, '');
+};
+
+const limitKeywords = (keywords: string[], max?: number) => {
+  const unique = Array.from(new Set(keywords.map(k => k.trim()).filter(Boolean)));
+  return max ? unique.slice(0, max) : unique;
+};
+
+const yesNo = (value: boolean) => value ? 'yes' : 'no';
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'generic',
+    label: 'Generic (All Fields)',
+    delimiter: ',',
+    localizedColumns: true,
+    headers: ['Filename', 'Title', 'Description', 'Keywords', 'Category', 'AI Prompt', 'Negative Prompt', 'Technical Settings'],
+    buildRow: (item, d) => [
+      item.file.name,
+      d.title,
+      d.description,
+      d.keywords.join(', '),
+      d.category,
+      d.ai_prompt,
+      d.negative_prompt || '',
+      d.technical_settings || '',
+    ],
+  },
+  {
+    id: 'adobe_stock',
+    label: 'Adobe Stock',
+    delimiter: ',',
+    maxKeywords: 49,
+    headers: ['Filename', 'Title', 'Keywords', 'Category', 'Releases'],
+    buildRow: (item, d) => {
+      const categoryId = getAdobeCategoryId(d.category);
+      return [
+        item.file.name,
+        truncateText(d.title, 200),
+        limitKeywords(d.keywords, 49).join(', '),
+        categoryId ? String(categoryId) : '',
+        '',
+      ];
+    },
+  },
+  {
+    id: 'shutterstock',
+    label: 'Shutterstock',
+    delimiter: ',',
+    maxKeywords: 50,
+    minKeywords: 7,
+    headers: ['Filename', 'Description', 'Keywords', 'Categories', 'Editorial', 'Mature content', 'illustration'],
+    buildRow: (item, d, options) => [
+      item.file.name,
+      truncateText(d.description || d.title, 200),
+      limitKeywords(d.keywords, 50).join(','),
+      getShutterstockCategories(d).join(','),
+      yesNo(options.editorial),
+      yesNo(options.mature),
+      yesNo(options.illustration),
+    ],
+  },
+  {
+    id: 'freepik',
+    label: 'Freepik',
+    delimiter: ';',
+    maxKeywords: 50,
+    headers: ['File name', 'Title', 'Keywords', 'Prompt', 'Base-Model'],
+    buildRow: (item, d) => [
+      item.file.name,
+      truncateText(d.title, 100),
+      limitKeywords(d.keywords, 50).join(', '),
+      d.ai_prompt,
+      d.used_model ? TARGET_MODEL_LABELS[d.used_model] || d.used_model : '',
+    ],
+  },
+  {
+    id: 'dreamstime',
+    label: 'Dreamstime',
+    delimiter: ',',
+    maxKeywords: 80,
+    minKeywords: 5,
+    singleWordKeywords: true,
+    // Category columns take Dreamstime's numeric IDs; left empty so they can be picked in the uploader
+    headers: ['Filename', 'Image Name', 'Description', 'Category 1', 'Category 2', 'Category 3', 'keywords', 'Free', 'W-EL', 'P-EL', 'SR-EL', 'SR-Price', 'Editorial', 'MR doc Ids', 'Pr Docs'],
+    buildRow: (item, d, options) => [
+      item.file.name,
+      truncateText(d.title, 115),
+      truncateText(d.description, 2000),
+      '',
+      '',
+      '',
+      limitKeywords(d.keywords, 80).join(','),
+      '0',
+      '0',
+      '0',
+      '0',
+      '0',
+      options.editorial ? '1' : '0',
+      '',
+      '',
+    ],
+  },
+  {
+    id: '123rf',
+    label: '123RF',
+    delimiter: ',',
+    maxKeywords: 50,
+    singleWordKeywords: true,
+    headers: ['oldfilename', '123rf_filename', 'description', 'keywords', 'country'],
+    buildRow: (item, d) => [
+      item.file.name,
+      '',
+      truncateText(d.description || d.title, 200),
+      limitKeywords(d.keywords, 50).join(','),
+      '',
+    ],
+  },
+];
+
+export const getExportProfile = (id: ExportProfileId): ExportProfile =>
+  EXPORT_PROFILES.find(p => p.id === id) || EXPORT_PROFILES[0];
+
+// Escape quotes for CSV
+const escapeCell = (text: string) => `"${(text || '').replace(/"/g, '""')}"`;
+
+export const buildCsvContent = (items: BatchItem[], profileId: ExportProfileId, options: ExportOptions): string => {
+  const profile = getExportProfile(profileId);
+  const completedItems = items.filter(i => i.status === 'completed' && i.data);
+
+  const languages = profile.localizedColumns ? getTranslatedLanguages(completedItems.map(i => i.data!.translations)) : [];
+  const headers = [
+    ...profile.headers,
+    ...languages.flatMap(lang => {
+      const code = lang.toUpperCase();
+      return [`Title (${code})`, `Description (${code})`, `Keywords (${code})`];
+    }),
+  ];
+
+  const rows = completedItems.map(item => {
+    const localized = languages.flatMap(lang => {
+      const t = item.data!.translations?.[lang];
+      return t ? [t.title, t.description, t.keywords.join(', ')] : ['', '', ''];
+    });
+    return [...profile.buildRow(item, item.data!, options), ...localized].map(escapeCell).join(profile.delimiter);
+  });
+
+  return [headers.join(profile.delimiter), ...rows].join('\n');
+};
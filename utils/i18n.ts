@@ -0,0 +1,65 @@
+// UI localization: locale catalogs, {placeholder} interpolation and plural forms
+// Components read strings through useI18n(); services and utils use t(), which follows the same active locale.
+
+import { id } from '../locales/id';
+import { en } from '../locales/en';
+
+export type Locale = 'id' | 'en';
+
+// Plural variants picked with Intl.PluralRules from the `count` param; Indonesian only needs `other`
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  other: string;
+}
+
+export type MessageKey = keyof typeof id;
+export type LocaleCatalog = Record<MessageKey, string | PluralMessage>;
+export type TranslateParams = Record<string, string | number>;
+
+const LOCALE_STORAGE_KEY = 'stockprompt_locale';
+
+export const LOCALES: Record<Locale, { label: string; short: string }> = {
+  id: { label: 'Bahasa Indonesia', short: 'ID' },
+  en: { label: 'English', short: 'EN' },
+};
+
+const CATALOGS: Record<Locale, LocaleCatalog> = { id, en };
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const selectPlural = (locale: Locale, message: PluralMessage, count: number) => {
+  if (count === 0 && message.zero !== undefined) return message.zero;
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  const category = pluralRules.get(locale)!.select(count);
+  return (category === 'one' && message.one) || message.other;
+};
+
+export const translate = (locale: Locale, key: MessageKey, params: TranslateParams = {}): string => {
+  const message = CATALOGS[locale][key] ?? CATALOGS.id[key] ?? key;
+  const template = typeof message === 'string' ? message : selectPlural(locale, message, Number(params.count ?? 0));
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// Saved choice first, then the browser language; everything that isn't Indonesian gets English
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (saved && saved in LOCALES) return saved as Locale;
+    return navigator.language.toLowerCase().startsWith('id') ? 'id' : 'en';
+  } catch {
+    return 'id';
+  }
+};
+
+let activeLocale: Locale = loadLocale();
+
+export const getLocale = () => activeLocale;
+
+export const setLocale = (locale: Locale) => {
+  activeLocale = locale;
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+// For code outside React (service errors, queue callbacks)
+export const t = (key: MessageKey, params?: TranslateParams) => translate(activeLocale, key, params);
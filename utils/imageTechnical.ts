@@ -0,0 +1,237 @@
+// Reads the technical properties agencies check on upload: size, colour profile, JPEG quality and upscaling
+// Container details come from the file bytes; dimensions and detail come from decoding the image once.
+
+import { ColorSpace, ImageTechnicalInfo } from '../types';
+import { isJpeg, parseJpeg, startsWithAscii } from './jpegSegments';
+
+const MARKER_APP2 = 0xffe2;
+const MARKER_DQT = 0xffdb;
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+// IJG standard luminance quantization table (quality 50); only the sum matters for the estimate
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const STANDARD_LUMINANCE_SUM = STANDARD_LUMINANCE.reduce((sum, v) => sum + v, 0);
+
+// Centre crop analysed at 1:1 for the upscaling check
+const DETAIL_SAMPLE_SIZE = 512;
+// Below this average two-pixel difference the crop is too flat to say anything
+const MIN_DETAIL_CONTRAST = 1.5;
+
+interface ColorInfo {
+  colorSpace: ColorSpace;
+  colorProfileName?: string;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) => {
+  let text = '';
+  for (let i = start; i < Math.min(end, bytes.length) && bytes[i] !== 0; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+// Profile description from the 'desc' tag (ICC v2 textDescription or v4 multiLocalizedUnicode)
+const readIccDescription = (profile: Uint8Array): string | undefined => {
+  const tagCount = readUint32(profile, 128);
+  for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= profile.length; i++) {
+    const entry = 132 + i * 12;
+    if (readAscii(profile, entry, entry + 4) !== 'desc') continue;
+    const offset = readUint32(profile, entry + 4);
+    const type = readAscii(profile, offset, offset + 4);
+    if (type === 'desc') {
+      return readAscii(profile, offset + 12, offset + 12 + readUint32(profile, offset + 8)).trim();
+    }
+    if (type === 'mluc' && readUint32(profile, offset + 8) > 0) {
+      const length = readUint32(profile, offset + 20);
+      const start = offset + readUint32(profile, offset + 24);
+      let text = '';
+      for (let j = start; j + 1 < Math.min(start + length, profile.length); j += 2) {
+        text += String.fromCharCode((profile[j] << 8) | profile[j + 1]);
+      }
+      return text.replace(/\0+$/, '').trim();
+    }
+  }
+  return undefined;
+};
+
+export const classifyIccProfile = (profile: Uint8Array): ColorInfo => {
+  const dataSpace = readAscii(profile, 16, 20);
+  const name = readIccDescription(profile);
+  if (dataSpace === 'CMYK') return { colorSpace: 'cmyk', colorProfileName: name };
+  if (dataSpace === 'GRAY') return { colorSpace: 'gray', colorProfileName: name };
+  if (!name) return { colorSpace: 'other_rgb' };
+  if (/srgb/i.test(name)) return { colorSpace: 'srgb', colorProfileName: name };
+  if (/adobe\s*rgb|compatible with adobe/i.test(name)) return { colorSpace: 'adobe_rgb', colorProfileName: name };
+  if (/p3/i.test(name)) return { colorSpace: 'display_p3', colorProfileName: name };
+  return { colorSpace: 'other_rgb', colorProfileName: name };
+};
+
+// Quality on the IJG 1-100 scale, from how much the luminance table is scaled against the standard one
+export const estimateJpegQuality = (luminanceTable: number[]): number => {
+  const scale = (luminanceTable.reduce((sum, v) => sum + v, 0) * 100) / STANDARD_LUMINANCE_SUM;
+  const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+  return Math.round(Math.min(100, Math.max(1, quality)));
+};
+
+const readJpegDetails = (bytes: Uint8Array): ColorInfo & { jpegQuality?: number } => {
+  const { segments } = parseJpeg(bytes);
+  let colorInfo: ColorInfo = { colorSpace: 'untagged' };
+  let jpegQuality: number | undefined;
+
+  // Large profiles are split over several APP2 segments, numbered from 1
+  const iccChunks = segments
+    .filter(s => s.marker === MARKER_APP2 && startsWithAscii(s.data, ICC_HEADER))
+    .sort((a, b) => a.data[ICC_HEADER.length] - b.data[ICC_HEADER.length])
+    .map(s => s.data.subarray(ICC_HEADER.length + 2));
+  if (iccChunks.length > 0) {
+    const profile = new Uint8Array(iccChunks.reduce((sum, c) => sum + c.length, 0));
+    iccChunks.reduce((offset, chunk) => { profile.set(chunk, offset); return offset + chunk.length; }, 0);
+    colorInfo = classifyIccProfile(profile);
+  }
+
+  // Frame header: component count says CMYK or grayscale even without a profile
+  const frame = segments.find(s => s.marker >= 0xffc0 && s.marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(s.marker));
+  if (frame && frame.data[5] === 4) colorInfo = { ...colorInfo, colorSpace: 'cmyk' };
+  if (frame && frame.data[5] === 1 && colorInfo.colorSpace === 'untagged') colorInfo = { colorSpace: 'gray' };
+
+  for (const segment of segments.filter(s => s.marker === MARKER_DQT)) {
+    let offset = 0;
+    while (offset < segment.data.length) {
+      const precision = segment.data[offset] >> 4;
+      const tableId = segment.data[offset] & 0x0f;
+      const size = precision ? 128 : 64;
+      if (tableId === 0) {
+        const table: number[] = [];
+        for (let i = 0; i < 64; i++) {
+          const at = offset + 1 + (precision ? i * 2 : i);
+          table.push(precision ? (segment.data[at] << 8) | segment.data[at + 1] : segment.data[at]);
+        }
+        jpegQuality = estimateJpegQuality(table);
+      }
+      offset += 1 + size;
+    }
+  }
+
+  return { ...colorInfo, jpegQuality };
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof DecompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+const readPngColor = async (bytes: Uint8Array): Promise<ColorInfo> => {
+  let offset = 8;
+  let isGray = false;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = readAscii(bytes, offset + 4, offset + 8);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    // Colour types 0 and 4 are grayscale
+    if (type === 'IHDR') isGray = data[9] === 0 || data[9] === 4;
+    if (type === 'sRGB') return { colorSpace: 'srgb', colorProfileName: 'sRGB' };
+    if (type === 'iCCP') {
+      const name = readAscii(data, 0, 80);
+      // Profile name, NUL, compression method, then the zlib-compressed profile
+      const profile = await inflate(data.subarray(name.length + 2));
+      return profile ? classifyIccProfile(profile) : { colorSpace: /srgb/i.test(name) ? 'srgb' : 'other_rgb', colorProfileName: name };
+    }
+    if (type === 'IDAT') break;
+    offset += 12 + length;
+  }
+  return { colorSpace: isGray ? 'gray' : 'untagged' };
+};
+
+const readWebpColor = (bytes: Uint8Array): ColorInfo => {
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, offset + 4);
+    const length = (bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)) >>> 0;
+    if (type === 'ICCP') return classifyIccProfile(bytes.subarray(offset + 8, offset + 8 + length));
+    offset += 8 + length + (length % 2);
+  }
+  return { colorSpace: 'untagged' };
+};
+
+// Upscaled images interpolate between source pixels, so neighbouring pixels differ about half as much as pixels two apart
+const measureDetailRatio = (bitmap: ImageBitmap): number | undefined => {
+  const width = Math.min(DETAIL_SAMPLE_SIZE, bitmap.width);
+  const height = Math.min(DETAIL_SAMPLE_SIZE, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context || width < 3 || height < 3) return undefined;
+  context.drawImage(bitmap, (bitmap.width - width) / 2, (bitmap.height - height) / 2, width, height, 0, 0, width, height);
+
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+  }
+
+  let near = 0;
+  let far = 0;
+  let samples = 0;
+  for (let y = 0; y < height - 2; y++) {
+    for (let x = 0; x < width - 2; x++) {
+      const i = y * width + x;
+      near += Math.abs(gray[i + 1] - gray[i]) + Math.abs(gray[i + width] - gray[i]);
+      far += Math.abs(gray[i + 2] - gray[i]) + Math.abs(gray[i + width * 2] - gray[i]);
+      samples += 2;
+    }
+  }
+  if (far / samples < MIN_DETAIL_CONTRAST) return undefined;
+  return near / far;
+};
+
+// Pass an already decoded bitmap to skip decoding the file again; it's left open for the caller
+export const readImageTechnicalInfo = async (file: File, decoded?: ImageBitmap): Promise<ImageTechnicalInfo | null> => {
+  if (!file.type.startsWith('image/')) return null;
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let colorInfo: ColorInfo = { colorSpace: 'untagged' };
+    let jpegQuality: number | undefined;
+    try {
+      if (isJpeg(bytes)) {
+        const { jpegQuality: quality, ...color } = readJpegDetails(bytes);
+        colorInfo = color;
+        jpegQuality = quality;
+      } else if (file.type === 'image/png') colorInfo = await readPngColor(bytes);
+      else if (file.type === 'image/webp') colorInfo = readWebpColor(bytes);
+    } catch (e) {
+      // A damaged container still decodes in most browsers; keep the pixel checks
+      console.error("Could not read image container details", e);
+    }
+
+    const bitmap = decoded || await createImageBitmap(file);
+    const detailRatio = measureDetailRatio(bitmap);
+    const info: ImageTechnicalInfo = { width: bitmap.width, height: bitmap.height, fileSize: file.size, ...colorInfo, jpegQuality, detailRatio };
+    if (!decoded) bitmap.close();
+    return info;
+  } catch (e) {
+    console.error("Image pre-flight failed", e);
+    return null;
+  }
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// "3:2" when the pixels reduce cleanly, otherwise the ratio as a decimal
+export const formatAspectRatio = (width: number, height: number) => {
+  const divisor = gcd(width, height);
+  const w = width / divisor;
+  const h = height / divisor;
+  return w <= 32 && h <= 32 ? `${w}:${h}` : `${(width / height).toFixed(2)}:1`;
+};
@@ -0,0 +1,260 @@
+// Trademark, brand and IP-risk detection on generated metadata
+// Agencies reject assets that name brands, copyrighted characters, artists or landmarks that need
+// a property release. Findings point at the offending text and carry a generic replacement.
+
+import { IpRiskCategory, IpRiskTerm, StockMetadata } from '../types';
+
+export type IpRiskField = 'title' | 'description' | 'ai_prompt' | 'keywords';
+
+export interface IpRiskFinding {
+  term: string;
+  category: IpRiskCategory;
+  replacement: string;
+  // Text fields the term was found in; empty when it was only seen in the image
+  fields: IpRiskField[];
+  // Exact spellings as they appear in the metadata
+  matches: string[];
+  visibleInImage: boolean;
+  caseSensitive?: boolean;
+}
+
+export const IP_RISK_CATEGORIES: IpRiskCategory[] = ['brand', 'character', 'artist', 'landmark'];
+
+const brand = (term: string, replacement: string): IpRiskTerm => ({ term, category: 'brand', replacement });
+const character = (term: string, replacement: string): IpRiskTerm => ({ term, category: 'character', replacement });
+// Names that double as everyday words: "an architectural marvel", "a 3 tesla MRI scanner"
+const ambiguous = (term: IpRiskTerm): IpRiskTerm => ({ ...term, caseSensitive: true });
+const artist = (term: string, replacement: string): IpRiskTerm => ({ term, category: 'artist', replacement });
+const landmark = (term: string, replacement: string): IpRiskTerm => ({ term, category: 'landmark', replacement });
+
+export const DEFAULT_IP_RISK_TERMS: IpRiskTerm[] = [
+  brand('iPhone', 'smartphone'),
+  brand('iPad', 'tablet'),
+  brand('MacBook', 'laptop'),
+  brand('Apple Watch', 'smartwatch'),
+  brand('AirPods', 'wireless earbuds'),
+  brand('Samsung', 'electronics'),
+  brand('PlayStation', 'game console'),
+  brand('Xbox', 'game console'),
+  brand('Nintendo', 'video game'),
+  brand('Coca-Cola', 'cola'),
+  brand('Pepsi', 'soda'),
+  brand('Starbucks', 'coffee shop'),
+  brand("McDonald's", 'fast food'),
+  brand('Nike', 'sportswear'),
+  brand('Adidas', 'sportswear'),
+  brand('Rolex', 'luxury watch'),
+  brand('Gucci', 'designer fashion'),
+  brand('Louis Vuitton', 'designer handbag'),
+  brand('Chanel', 'designer fashion'),
+  ambiguous(brand('Tesla', 'electric car')),
+  brand('Ferrari', 'sports car'),
+  brand('Porsche', 'sports car'),
+  brand('Lamborghini', 'sports car'),
+  brand('BMW', 'car'),
+  brand('Mercedes-Benz', 'car'),
+  brand('Harley-Davidson', 'motorcycle'),
+  brand('Jeep', 'off-road vehicle'),
+  brand('Lego', 'building blocks'),
+  brand('Barbie', 'fashion doll'),
+  brand('Post-it', 'sticky note'),
+  brand('Velcro', 'hook and loop fastener'),
+  brand('Kleenex', 'tissue'),
+  brand('Jacuzzi', 'hot tub'),
+  brand('Frisbee', 'flying disc'),
+  brand('Polaroid', 'instant photo'),
+  brand('Google', 'search engine'),
+  brand('Facebook', 'social media'),
+  brand('Instagram', 'social media'),
+  brand('TikTok', 'social media'),
+  brand('YouTube', 'online video'),
+  brand('Netflix', 'streaming'),
+  brand('Disney', 'fairytale'),
+  ambiguous(brand('Marvel', 'comic book')),
+  brand('Pixar', '3D animated'),
+  brand('Studio Ghibli', 'hand-drawn anime'),
+  character('Mickey Mouse', 'cartoon mouse'),
+  character('Hello Kitty', 'cute cartoon cat'),
+  character('Pikachu', 'cute yellow creature'),
+  character('Pokemon', 'cute creature'),
+  character('Spider-Man', 'superhero'),
+  character('Batman', 'masked vigilante'),
+  character('Superman', 'superhero'),
+  character('Iron Man', 'armored superhero'),
+  character('Darth Vader', 'dark armored villain'),
+  character('Star Wars', 'space opera'),
+  character('Harry Potter', 'young wizard'),
+  character('Hogwarts', 'magic school'),
+  character('Super Mario', 'plumber character'),
+  character('Shrek', 'friendly ogre'),
+  ambiguous(character('Elsa', 'ice princess')),
+  ambiguous(character('Minion', 'small yellow creature')),
+  artist('Van Gogh', 'post-impressionist'),
+  artist('Picasso', 'cubist'),
+  artist('Monet', 'impressionist'),
+  artist('Salvador Dali', 'surrealist'),
+  artist('Andy Warhol', 'pop art'),
+  artist('Banksy', 'street art'),
+  artist('Hokusai', 'ukiyo-e'),
+  artist('Alphonse Mucha', 'art nouveau'),
+  artist('Frida Kahlo', 'folk art portrait'),
+  artist('Greg Rutkowski', 'epic fantasy painting'),
+  artist('Artgerm', 'stylized portrait'),
+  artist('Wes Anderson', 'symmetrical pastel'),
+  artist('Tim Burton', 'gothic whimsical'),
+  landmark('Eiffel Tower', 'iron lattice tower'),
+  landmark('Sydney Opera House', 'modern concert hall'),
+  landmark('Hollywood Sign', 'hillside sign'),
+  landmark('Burj Khalifa', 'supertall skyscraper'),
+  landmark('Empire State Building', 'art deco skyscraper'),
+  landmark('Chrysler Building', 'art deco skyscraper'),
+  landmark('Flatiron Building', 'historic skyscraper'),
+  landmark('Louvre Pyramid', 'glass pyramid'),
+  landmark('Atomium', 'modern monument'),
+  landmark('Space Needle', 'observation tower'),
+  landmark('Transamerica Pyramid', 'pyramid skyscraper'),
+  landmark('Rockefeller Center', 'city plaza'),
+  landmark('Marina Bay Sands', 'waterfront hotel'),
+  landmark('Petronas Towers', 'twin skyscrapers'),
+];
+
+const CUSTOM_TERMS_STORAGE_KEY = 'stockprompt_ip_terms';
+
+export const loadCustomIpTerms = (): IpRiskTerm[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_TERMS_STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as IpRiskTerm[];
+  } catch (e) {
+    console.error("Invalid saved IP risk terms", e);
+  }
+  return [];
+};
+
+export const saveCustomIpTerms = (terms: IpRiskTerm[]) => {
+  localStorage.setItem(CUSTOM_TERMS_STORAGE_KEY, JSON.stringify(terms));
+};
+
+// Custom terms override bundled ones with the same name
+export const getIpRiskTerms = (customTerms: IpRiskTerm[] = []): IpRiskTerm[] => {
+  const custom = new Set(customTerms.map(t => t.term.toLowerCase()));
+  return [...customTerms, ...DEFAULT_IP_RISK_TERMS.filter(t => !custom.has(t.term.toLowerCase()))];
+};
+
+// Whole-word and case-insensitive unless asked otherwise; "Spider-Man", "spider man" and "spiderman" all match
+const buildTermPattern = (term: string, caseSensitive = false) => {
+  const body = term
+    .trim()
+    .split(/[\s-]+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/'/g, "['\u2019]?"))
+    .join('[\\s-]?');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}s?(?![\\p{L}\\p{N}])`, caseSensitive ? 'gu' : 'giu');
+};
+
+const STYLE_TRIGGERS = ['in the style of', 'in the manner of', 'inspired by', 'style of'];
+
+// Either case for each letter, so only the trigger ignores case and the name must still be capitalised
+const anyCase = (phrase: string) => phrase.replace(/\p{L}/gu, c => `[${c.toLowerCase()}${c.toUpperCase()}]`);
+
+// "in the style of Jane Doe" flags artist references even when the name is not on the list
+const STYLE_REFERENCE_PATTERN = new RegExp(
+  `\\b(?:${STYLE_TRIGGERS.map(anyCase).join('|')})\\s+([A-Z][\\p{L}.'-]*(?:\\s+[A-Z][\\p{L}.'-]*){0,3})`,
+  'gu'
+);
+
+const normalizeName = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+export const checkIpRisk = (data: StockMetadata, terms: IpRiskTerm[], visibleLogos: string[] = []): IpRiskFinding[] => {
+  const findings: IpRiskFinding[] = [];
+  const texts: Record<Exclude<IpRiskField, 'keywords'>, string> = {
+    title: data.title,
+    description: data.description,
+    ai_prompt: data.ai_prompt,
+  };
+
+  for (const term of terms) {
+    const pattern = buildTermPattern(term.term, term.caseSensitive);
+    const fields: IpRiskField[] = [];
+    const matches = new Set<string>();
+
+    (Object.keys(texts) as (keyof typeof texts)[]).forEach(field => {
+      const found = texts[field].match(pattern);
+      if (found) {
+        fields.push(field);
+        found.forEach(m => matches.add(m));
+      }
+    });
+
+    const keywordHits = data.keywords.flatMap(k => k.match(pattern) || []);
+    if (keywordHits.length > 0) {
+      fields.push('keywords');
+      keywordHits.forEach(m => matches.add(m));
+    }
+
+    const visibleInImage = visibleLogos.some(logo => normalizeName(logo) === normalizeName(term.term));
+    if (fields.length > 0 || visibleInImage) {
+      findings.push({ ...term, fields, matches: Array.from(matches), visibleInImage });
+    }
+  }
+
+  // Logos the model saw that no term covers still need a human look
+  const known = new Set(findings.map(f => normalizeName(f.term)));
+  visibleLogos
+    .filter(logo => !known.has(normalizeName(logo)))
+    .forEach(logo => {
+      known.add(normalizeName(logo));
+      findings.push({ term: logo, category: 'brand', replacement: '', fields: [], matches: [], visibleInImage: true });
+    });
+
+  for (const match of data.ai_prompt.matchAll(STYLE_REFERENCE_PATTERN)) {
+    const name = match[1].trim();
+    if (known.has(normalizeName(name))) continue;
+    if (findings.some(f => f.category === 'artist' && normalizeName(name).includes(normalizeName(f.term)))) continue;
+    known.add(normalizeName(name));
+    findings.push({ term: name, category: 'artist', replacement: '', fields: ['ai_prompt'], matches: [match[0]], visibleInImage: false });
+  }
+
+  return findings;
+};
+
+const tidyText = (text: string) =>
+  text
+    .replace(/\s+([,.;:])/g, '$1')
+    .replace(/([,;:])\s*(?=[,.;:])/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, '')
+    .trim();
+
+// Prompts carry syntax such as "cat::2", "(cat:1.2)" and "--ar 16:9", so only commas left behind are tidied
+const tidyPrompt = (text: string) =>
+  text
+    .replace(/\s+,/g, ',')
+    .replace(/,\s*(?=,)/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+    .trim();
+
+// Swap a finding's term for its replacement everywhere; an empty replacement drops it
+export const applyIpReplacement = (data: StockMetadata, finding: IpRiskFinding): StockMetadata => {
+  // Full matched phrases first so "in the style of X" goes as a whole
+  const patterns = [...finding.matches, finding.term].map(text => buildTermPattern(text, finding.caseSensitive));
+  const substitute = (text: string) => patterns.reduce((result, p) => result.replace(p, finding.replacement), text);
+  const replace = (text: string) => tidyText(substitute(text));
+
+  const seen = new Set<string>();
+  const keywords = data.keywords
+    .map(replace)
+    .filter(k => {
+      const key = k.toLowerCase();
+      if (!k || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    ...data,
+    title: replace(data.title),
+    description: replace(data.description),
+    ai_prompt: tidyPrompt(substitute(data.ai_prompt)),
+    keywords,
+  };
+};
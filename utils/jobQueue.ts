@@ -0,0 +1,175 @@
+// Concurrent job queue with retry/backoff, pause, resume and cancel
+// Jobs are identified by id; results are reported through callbacks so the
+// caller (App) stays in charge of its own React state.
+
+export interface JobQueueOptions<T extends { id: string }, R> {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  run: (job: T) => Promise<R>;
+  isRetryable: (error: unknown) => boolean;
+  onStart?: (job: T, attempt: number) => void;
+  onRetry?: (job: T, attempt: number, delayMs: number, error: unknown) => void;
+  onSuccess?: (job: T, result: R) => void;
+  onFailure?: (job: T, error: unknown) => void;
+  onCancel?: (job: T) => void;
+  onIdle?: () => void;
+}
+
+export interface JobQueue<T> {
+  enqueue: (jobs: T[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Drops jobs that haven't started (or are waiting to retry); running jobs finish normally
+  remove: (ids: string[]) => void;
+  setConcurrency: (concurrency: number) => void;
+  setMaxRetries: (maxRetries: number) => void;
+  isPaused: () => boolean;
+}
+
+// Thrown from run to drop a job that no longer needs doing; it is reported through onCancel, not as a failure
+export class JobSkippedError extends Error {
+  constructor() {
+    super("Job skipped");
+    this.name = "JobSkippedError";
+  }
+}
+
+interface QueuedJob<T> {
+  job: T;
+  attempt: number;
+}
+
+// Exponential backoff with a little jitter so parallel workers don't retry in lockstep
+export const getBackoffDelay = (attempt: number, baseDelayMs: number) =>
+  baseDelayMs * Math.pow(2, attempt - 1) + Math.floor(Math.random() * 500);
+
+export const createJobQueue = <T extends { id: string }, R>(options: JobQueueOptions<T, R>): JobQueue<T> => {
+  const settings = { concurrency: options.concurrency, maxRetries: options.maxRetries };
+  const waiting: QueuedJob<T>[] = [];
+  const running = new Map<string, T>();
+  const retryTimers = new Map<string, { timer: ReturnType<typeof setTimeout>; job: T }>();
+  let paused = false;
+  // Bumped on cancel so results of in-flight jobs from before the cancel are dropped
+  let generation = 0;
+
+  const isIdle = () => waiting.length === 0 && running.size === 0 && retryTimers.size === 0;
+
+  const checkIdle = () => {
+    if (isIdle()) options.onIdle?.();
+  };
+
+  const runJob = async ({ job, attempt }: QueuedJob<T>) => {
+    const jobGeneration = generation;
+    running.set(job.id, job);
+    options.onStart?.(job, attempt);
+
+    try {
+      const result = await options.run(job);
+      if (jobGeneration !== generation) return;
+      options.onSuccess?.(job, result);
+    } catch (error) {
+      if (jobGeneration !== generation) return;
+      if (error instanceof JobSkippedError) {
+        options.onCancel?.(job);
+      } else if (attempt < settings.maxRetries && options.isRetryable(error)) {
+        const delay = getBackoffDelay(attempt + 1, options.baseDelayMs);
+        options.onRetry?.(job, attempt + 1, delay, error);
+        const timer = setTimeout(() => {
+          retryTimers.delete(job.id);
+          // Retries jump the line so a job doesn't wait behind the whole batch again
+          waiting.unshift({ job, attempt: attempt + 1 });
+          pump();
+        }, delay);
+        retryTimers.set(job.id, { timer, job });
+      } else {
+        options.onFailure?.(job, error);
+      }
+    } finally {
+      if (jobGeneration === generation) {
+        running.delete(job.id);
+        pump();
+      }
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running.size < settings.concurrency && waiting.length > 0) {
+      runJob(waiting.shift()!);
+    }
+    checkIdle();
+  };
+
+  return {
+    enqueue: (jobs) => {
+      const busy = new Set([...running.keys(), ...retryTimers.keys()]);
+      for (const job of jobs) {
+        if (busy.has(job.id)) continue;
+        // Re-enqueueing a job that is still waiting refreshes its payload but keeps its place
+        const queued = waiting.find(q => q.job.id === job.id);
+        if (queued) queued.job = job;
+        else waiting.push({ job, attempt: 0 });
+      }
+      pump();
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: () => {
+      generation++;
+      const cancelled = [
+        ...waiting.map(q => q.job),
+        ...running.values(),
+        ...Array.from(retryTimers.values()).map(r => r.job),
+      ];
+      retryTimers.forEach(({ timer }) => clearTimeout(timer));
+      retryTimers.clear();
+      waiting.length = 0;
+      running.clear();
+      paused = false;
+      cancelled.forEach(job => options.onCancel?.(job));
+      options.onIdle?.();
+    },
+    remove: (ids) => {
+      const removed = new Set(ids);
+      for (let i = waiting.length - 1; i >= 0; i--) {
+        if (removed.has(waiting[i].job.id)) waiting.splice(i, 1);
+      }
+      removed.forEach(id => {
+        const retry = retryTimers.get(id);
+        if (retry) {
+          clearTimeout(retry.timer);
+          retryTimers.delete(id);
+        }
+      });
+      checkIdle();
+    },
+    setConcurrency: (concurrency) => {
+      settings.concurrency = Math.max(1, concurrency);
+      pump();
+    },
+    setMaxRetries: (maxRetries) => {
+      settings.maxRetries = Math.max(0, maxRetries);
+    },
+    isPaused: () => paused,
+  };
+};
+
+// Maps items through an async function with at most `limit` calls in flight; results keep the input order
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
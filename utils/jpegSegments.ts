@@ -0,0 +1,158 @@
+// Helper utility to split a JPEG into its marker segments without decoding pixels
+
+export interface JpegSegment {
+  marker: number;
+  // Segment payload without the marker and length bytes
+  data: Uint8Array;
+}
+
+export interface ParsedJpeg {
+  segments: JpegSegment[];
+  // Everything from the SOS marker to the end of the file (entropy-coded image data)
+  imageData: Uint8Array;
+}
+
+export const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+export const EXIF_HEADER = 'Exif\0\0';
+export const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+export const IPTC_RESOURCE_ID = 0x0404;
+
+export const MARKER_APP1 = 0xffe1;
+export const MARKER_APP13 = 0xffed;
+const MARKER_SOS = 0xffda;
+
+export const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+export const startsWithAscii = (data: Uint8Array, text: string) => {
+  if (data.length < text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (data[i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+export const parseJpeg = (bytes: Uint8Array): ParsedJpeg => {
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('Corrupt JPEG marker');
+    }
+    const marker = (bytes[offset] << 8) | bytes[offset + 1];
+    if (marker === MARKER_SOS) {
+      return { segments, imageData: bytes.subarray(offset) };
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, data: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+
+  throw new Error('JPEG image data not found');
+};
+
+// Metadata segments all sit in front of the image data; read in steps of this size until the SOS marker
+const HEADER_READ_SIZE = 128 * 1024;
+
+// Only the bytes up to and including the SOS marker, so large photos aren't loaded whole just for their metadata.
+// parseJpeg works on the result; its imageData is then cut short.
+export const readJpegHeader = async (file: Blob): Promise<Uint8Array> => {
+  let bytes = new Uint8Array(0);
+  let offset = 2;
+  for (;;) {
+    if (offset + 4 > bytes.length) {
+      if (bytes.length >= file.size) return bytes;
+      // Segment lengths say exactly how far the next marker is, so a large XMP packet is read in one go
+      const end = Math.min(file.size, Math.max(offset + 4, bytes.length + HEADER_READ_SIZE));
+      const chunk = new Uint8Array(await file.slice(bytes.length, end).arrayBuffer());
+      const grown = new Uint8Array(bytes.length + chunk.length);
+      grown.set(bytes);
+      grown.set(chunk, bytes.length);
+      bytes = grown;
+      continue;
+    }
+    if (bytes[offset] !== 0xff) return bytes;
+    const marker = (bytes[offset] << 8) | bytes[offset + 1];
+    if (marker === MARKER_SOS) return bytes.subarray(0, offset + 4);
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+};
+
+export const serializeJpeg = ({ segments, imageData }: ParsedJpeg): Uint8Array => {
+  const total = 2 + segments.reduce((sum, s) => sum + 4 + s.data.length, 0) + imageData.length;
+  const out = new Uint8Array(total);
+  out[0] = 0xff;
+  out[1] = 0xd8;
+  let offset = 2;
+
+  for (const segment of segments) {
+    const length = segment.data.length + 2;
+    if (length > 0xffff) {
+      throw new Error('JPEG segment too large');
+    }
+    out[offset] = segment.marker >> 8;
+    out[offset + 1] = segment.marker & 0xff;
+    out[offset + 2] = length >> 8;
+    out[offset + 3] = length & 0xff;
+    out.set(segment.data, offset + 4);
+    offset += 4 + segment.data.length;
+  }
+
+  out.set(imageData, offset);
+  return out;
+};
+
+export interface PhotoshopResource {
+  id: number;
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+export const readPhotoshopResources = (segment: Uint8Array): PhotoshopResource[] => {
+  const resources: PhotoshopResource[] = [];
+  let offset = PHOTOSHOP_HEADER.length;
+
+  while (offset + 12 <= segment.length && startsWithAscii(segment.subarray(offset), '8BIM')) {
+    const id = (segment[offset + 4] << 8) | segment[offset + 5];
+    const nameLength = segment[offset + 6];
+    // Pascal string, padded to an even length including the length byte
+    const namePadded = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2;
+    const name = segment.subarray(offset + 6, offset + 6 + namePadded);
+    const sizeOffset = offset + 6 + namePadded;
+    const size = ((segment[sizeOffset] << 24) | (segment[sizeOffset + 1] << 16) | (segment[sizeOffset + 2] << 8) | segment[sizeOffset + 3]) >>> 0;
+    const data = segment.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+    resources.push({ id, name, data });
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+
+  return resources;
+};
+
+export interface IptcDataset {
+  record: number;
+  dataset: number;
+  value: Uint8Array;
+}
+
+// 1:90 Coded Character Set value for UTF-8 (ESC % G)
+export const IPTC_UTF8_CHARSET = new Uint8Array([0x1b, 0x25, 0x47]);
+
+export const readIptcDatasets = (data: Uint8Array): IptcDataset[] => {
+  const datasets: IptcDataset[] = [];
+  let offset = 0;
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const length = (data[offset + 3] << 8) | data[offset + 4];
+    datasets.push({ record: data[offset + 1], dataset: data[offset + 2], value: data.subarray(offset + 5, offset + 5 + length) });
+    offset += 5 + length;
+  }
+  return datasets;
+};
+
+// Without a 1:90 UTF-8 declaration IPTC text is Latin-1, as written by older tools
+export const isUtf8Iptc = (datasets: IptcDataset[]) =>
+  datasets.some(d => d.record === 1 && d.dataset === 90 && d.value.length === 3 && d.value.every((b, i) => b === IPTC_UTF8_CHARSET[i]));
@@ -0,0 +1,157 @@
+// Keyword linter enforcing agency rules before export
+// Each issue carries an optional fix so the UI can auto-fix one issue or all of them at once.
+
+import { ExportProfileId, StockMetadata } from '../types';
+import { getExportProfile } from './exportProfiles';
+import { t } from './i18n';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+export type LintRule = 'near_duplicate' | 'multi_word' | 'banned_term' | 'too_many' | 'too_few' | 'out_of_context';
+
+export interface KeywordLintIssue {
+  // Stable identifier used to waive a specific issue
+  key: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  keywords: string[];
+  fix?: (keywords: string[]) => string[];
+}
+
+// Spammy, self-referential or platform terms that agencies reject as keywords
+export const BANNED_KEYWORDS = [
+  'best', 'top', 'free', 'cheap', 'hd', '4k', '8k', 'high quality', 'high resolution', 'royalty free',
+  'award winning', 'trending', 'artstation', 'unreal engine', 'octane render', 'masterpiece',
+  'stock', 'stock photo', 'stock image', 'image', 'picture', 'photo', 'wallpaper',
+  'shutterstock', 'adobe stock', 'getty', 'istock', 'freepik', 'dreamstime', '123rf',
+  'midjourney', 'dall-e', 'stable diffusion', 'ai generated',
+];
+
+const singularize = (word: string) => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ses|xes|zes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Case, hyphenation, spacing and plural insensitive comparison key
+export const normalizeKeyword = (keyword: string) =>
+  keyword
+    .toLowerCase()
+    .replace(/[-_]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join('');
+
+const words = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(singularize);
+
+export const lintKeywords = (data: StockMetadata, profileId: ExportProfileId): KeywordLintIssue[] => {
+  const profile = getExportProfile(profileId);
+  const issues: KeywordLintIssue[] = [];
+  const keywords = data.keywords;
+
+  // Near-duplicates: keep the first occurrence, drop the variants
+  const firstByKey = new Map<string, string>();
+  for (const keyword of keywords) {
+    const key = normalizeKeyword(keyword);
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, keyword);
+    } else {
+      issues.push({
+        key: `near_duplicate:${keyword}`,
+        rule: 'near_duplicate',
+        severity: 'warning',
+        message: t('lint.nearDuplicate', { keyword, first }),
+        keywords: [keyword],
+        // Exact repeats share the text, so drop by position: the first match after the kept keyword
+        fix: (list) => {
+          const keptAt = list.findIndex(k => normalizeKeyword(k) === key);
+          const dropAt = list.findIndex((k, i) => i > keptAt && k === keyword);
+          return dropAt === -1 ? list : list.filter((_, i) => i !== dropAt);
+        },
+      });
+    }
+  }
+
+  const banned = keywords.filter(k => BANNED_KEYWORDS.includes(k.toLowerCase().trim()));
+  if (banned.length > 0) {
+    issues.push({
+      key: `banned_term:${banned.join('|')}`,
+      rule: 'banned_term',
+      severity: 'error',
+      message: t('lint.banned', { terms: banned.join(', ') }),
+      keywords: banned,
+      fix: (list) => list.filter(k => !banned.includes(k)),
+    });
+  }
+
+  if (profile.singleWordKeywords) {
+    const phrases = keywords.filter(k => k.trim().includes(' '));
+    if (phrases.length > 0) {
+      issues.push({
+        key: `multi_word:${phrases.join('|')}`,
+        rule: 'multi_word',
+        severity: 'warning',
+        message: t('lint.multiWord', { profile: profile.label, terms: phrases.join(', ') }),
+        keywords: phrases,
+        fix: (list) => {
+          const seen = new Set<string>();
+          return list
+            .flatMap(k => phrases.includes(k) ? k.split(/\s+/) : [k])
+            .filter(k => {
+              const key = k.toLowerCase();
+              if (!k || seen.has(key)) return false;
+              seen.add(key);
+              return true;
+            });
+        },
+      });
+    }
+  }
+
+  if (profile.maxKeywords && keywords.length > profile.maxKeywords) {
+    const max = profile.maxKeywords;
+    issues.push({
+      key: `too_many:${max}`,
+      rule: 'too_many',
+      severity: 'error',
+      message: t('lint.tooMany', { count: keywords.length, profile: profile.label, max }),
+      keywords: keywords.slice(max),
+      fix: (list) => list.slice(0, max),
+    });
+  }
+
+  if (profile.minKeywords && keywords.length < profile.minKeywords) {
+    issues.push({
+      key: `too_few:${profile.minKeywords}`,
+      rule: 'too_few',
+      severity: 'error',
+      message: t('lint.tooFew', { profile: profile.label, min: profile.minKeywords, count: keywords.length }),
+      keywords: [],
+    });
+  }
+
+  const context = new Set(words(`${data.title} ${data.description}`));
+  const outOfContext = keywords.filter(k => !words(k).some(w => context.has(w)));
+  if (outOfContext.length > 0) {
+    issues.push({
+      key: `out_of_context:${outOfContext.join('|')}`,
+      rule: 'out_of_context',
+      severity: 'info',
+      message: t('lint.outOfContext', { terms: outOfContext.join(', ') }),
+      keywords: outOfContext,
+    });
+  }
+
+  return issues;
+};
+
+export const applyLintFixes = (keywords: string[], issues: KeywordLintIssue[]): string[] =>
+  issues.reduce((list, issue) => issue.fix ? issue.fix(list) : list, keywords);
+
+// Errors that still block export once waivers are taken into account
+export const getBlockingIssues = (issues: KeywordLintIssue[], waivedKeys: string[] = []) =>
+  issues.filter(issue => issue.severity === 'error' && !waivedKeys.includes(issue.key));
@@ -0,0 +1,182 @@
+// Personal keyword vocabulary: usage counts for autocomplete and synonym groups for normalization
+// Every keyword that stays on a completed result is counted; synonyms map variants to one preferred spelling.
+
+import { KeywordVocabulary, StockMetadata } from '../types';
+import { t } from './i18n';
+
+const VOCABULARY_STORAGE_KEY = 'stockprompt_keyword_vocabulary';
+
+export const EMPTY_VOCABULARY: KeywordVocabulary = { usage: {}, synonymGroups: [] };
+
+const cleanTerm = (term: string) => term.trim().replace(/\s+/g, ' ');
+
+export const loadKeywordVocabulary = (): KeywordVocabulary => {
+  try {
+    const saved = localStorage.getItem(VOCABULARY_STORAGE_KEY);
+    if (saved) return { ...EMPTY_VOCABULARY, ...(JSON.parse(saved) as KeywordVocabulary) };
+  } catch (e) {
+    console.error("Invalid saved keyword vocabulary", e);
+  }
+  return EMPTY_VOCABULARY;
+};
+
+export const saveKeywordVocabulary = (vocabulary: KeywordVocabulary) => {
+  localStorage.setItem(VOCABULARY_STORAGE_KEY, JSON.stringify(vocabulary));
+};
+
+// Lowercase variant -> preferred spelling; the preferred term maps to itself
+export const getPreferredTerms = (vocabulary: KeywordVocabulary): Map<string, string> => {
+  const preferred = new Map<string, string>();
+  vocabulary.synonymGroups.forEach(group => {
+    if (group.length === 0) return;
+    group.forEach(term => {
+      // A term listed in two groups keeps the first group's preference
+      if (!preferred.has(term.toLowerCase())) preferred.set(term.toLowerCase(), group[0]);
+    });
+  });
+  return preferred;
+};
+
+export const recordKeywordUsage = (vocabulary: KeywordVocabulary, keywords: string[]): KeywordVocabulary => {
+  if (keywords.length === 0) return vocabulary;
+  const preferred = getPreferredTerms(vocabulary);
+  const usage = { ...vocabulary.usage };
+  keywords.forEach(keyword => {
+    const term = cleanTerm(preferred.get(keyword.trim().toLowerCase()) || keyword).toLowerCase();
+    if (term) usage[term] = (usage[term] || 0) + 1;
+  });
+  return { ...vocabulary, usage };
+};
+
+// Takes a count back when the user deletes a keyword the model suggested; terms that reach zero are dropped
+export const unrecordKeywordUsage = (vocabulary: KeywordVocabulary, keywords: string[]): KeywordVocabulary => {
+  if (keywords.length === 0) return vocabulary;
+  const preferred = getPreferredTerms(vocabulary);
+  const usage = { ...vocabulary.usage };
+  keywords.forEach(keyword => {
+    const term = cleanTerm(preferred.get(keyword.trim().toLowerCase()) || keyword).toLowerCase();
+    if (!usage[term]) return;
+    if (usage[term] > 1) usage[term] -= 1;
+    else delete usage[term];
+  });
+  return { ...vocabulary, usage };
+};
+
+export const removeVocabularyTerm = (vocabulary: KeywordVocabulary, term: string): KeywordVocabulary => {
+  const { [term]: removed, ...usage } = vocabulary.usage;
+  return { ...vocabulary, usage };
+};
+
+// Swap variants for their preferred spelling and drop the duplicates that creates
+export const normalizeKeywords = (keywords: string[], vocabulary: KeywordVocabulary): { keywords: string[]; replaced: [string, string][] } => {
+  const preferred = getPreferredTerms(vocabulary);
+  const seen = new Set<string>();
+  const replaced: [string, string][] = [];
+  const result: string[] = [];
+
+  keywords.forEach(keyword => {
+    const target = preferred.get(keyword.trim().toLowerCase());
+    const next = target && target.toLowerCase() !== keyword.trim().toLowerCase() ? target : keyword;
+    if (next !== keyword) replaced.push([keyword, next]);
+    if (!seen.has(next.toLowerCase())) {
+      seen.add(next.toLowerCase());
+      result.push(next);
+    }
+  });
+
+  return { keywords: result, replaced };
+};
+
+// Applied to fresh model output; replacements are listed with the other automatic repairs
+export const normalizeMetadataKeywords = (data: StockMetadata, vocabulary: KeywordVocabulary): StockMetadata => {
+  if (vocabulary.synonymGroups.length === 0) return data;
+  const { keywords, replaced } = normalizeKeywords(data.keywords, vocabulary);
+  if (replaced.length === 0) return data;
+  return {
+    ...data,
+    keywords,
+    repairs: [...(data.repairs || []), ...replaced.map(([from, to]) => `Normalized keyword '${from}' to '${to}'`)],
+  };
+};
+
+// Prefix matches rank above matches later in the term, then by usage; a typed synonym suggests its preferred term
+export const suggestKeywords = (vocabulary: KeywordVocabulary, input: string, exclude: string[] = [], limit = 8): string[] => {
+  const query = input.trim().toLowerCase();
+  if (!query) return [];
+  const excluded = new Set(exclude.map(k => k.toLowerCase()));
+  const preferred = getPreferredTerms(vocabulary);
+  const candidates = new Map<string, number>();
+
+  const consider = (term: string, rank: number) => {
+    const key = term.toLowerCase();
+    if (excluded.has(key)) return;
+    const current = candidates.get(key);
+    if (current === undefined || rank < current) candidates.set(key, rank);
+  };
+
+  Object.keys(vocabulary.usage).forEach(term => {
+    if (term.startsWith(query)) consider(term, 0);
+    else if (term.includes(` ${query}`)) consider(term, 1);
+    else if (term.includes(query)) consider(term, 2);
+  });
+  preferred.forEach((target, variant) => {
+    if (variant.startsWith(query)) consider(target, 0);
+  });
+
+  return Array.from(candidates.entries())
+    .sort(([a, rankA], [b, rankB]) => rankA - rankB || (vocabulary.usage[b] || 0) - (vocabulary.usage[a] || 0) || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([term]) => preferred.get(term) || term);
+};
+
+// One group per line: preferred term first, then its variants, comma-separated
+export const formatSynonymGroups = (groups: string[][]) => groups.map(group => group.join(', ')).join('\n');
+
+export const parseSynonymGroups = (text: string): string[][] =>
+  text
+    .split('\n')
+    .map(line => {
+      const seen = new Set<string>();
+      return line.split(',').map(cleanTerm).filter(term => {
+        if (!term || seen.has(term.toLowerCase())) return false;
+        seen.add(term.toLowerCase());
+        return true;
+      });
+    })
+    .filter(group => group.length >= 2);
+
+export const exportKeywordVocabulary = (vocabulary: KeywordVocabulary): string =>
+  JSON.stringify({ version: 1, ...vocabulary }, null, 2);
+
+// Accepts an exported vocabulary (.json) or a plain keyword list (one per line or comma/semicolon-separated)
+export const importKeywordVocabulary = (base: KeywordVocabulary, text: string): KeywordVocabulary => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error(t('vocabulary.invalidFile'));
+    }
+    if (!parsed || typeof parsed.usage !== 'object') throw new Error(t('vocabulary.invalidFile'));
+
+    const usage = { ...base.usage };
+    Object.entries(parsed.usage as Record<string, unknown>).forEach(([term, count]) => {
+      const key = cleanTerm(term).toLowerCase();
+      if (key && typeof count === 'number') usage[key] = Math.max(usage[key] || 0, count);
+    });
+    const known = new Set(base.synonymGroups.map(group => group[0].toLowerCase()));
+    const groups = (Array.isArray(parsed.synonymGroups) ? parsed.synonymGroups : [])
+      .filter((group: unknown): group is string[] => Array.isArray(group) && group.length >= 2 && group.every(term => typeof term === 'string'))
+      .filter((group: string[]) => !known.has(group[0].toLowerCase()));
+    return { usage, synonymGroups: [...base.synonymGroups, ...groups] };
+  }
+
+  // Listed terms become known without counting as used
+  const usage = { ...base.usage };
+  trimmed.split(/[\n,;]+/).map(cleanTerm).filter(Boolean).forEach(term => {
+    const key = term.toLowerCase();
+    if (!(key in usage)) usage[key] = 0;
+  });
+  return { ...base, usage };
+};
@@ -0,0 +1,18 @@
+// Languages available for localized titles, descriptions and keywords
+
+import { MetadataLanguage, StockMetadata } from '../types';
+
+export const METADATA_LANGUAGES: Record<MetadataLanguage, { label: string; englishName: string }> = {
+  id: { label: 'Bahasa Indonesia', englishName: 'Indonesian' },
+  de: { label: 'Deutsch', englishName: 'German' },
+  ja: { label: '日本語', englishName: 'Japanese' },
+  es: { label: 'Español', englishName: 'Spanish' },
+  fr: { label: 'Français', englishName: 'French' },
+  pt: { label: 'Português', englishName: 'Portuguese' },
+};
+
+export const ALL_METADATA_LANGUAGES = Object.keys(METADATA_LANGUAGES) as MetadataLanguage[];
+
+// Languages that have a translation in at least one of the given results, in a stable order
+export const getTranslatedLanguages = (translations: StockMetadata['translations'][]): MetadataLanguage[] =>
+  ALL_METADATA_LANGUAGES.filter(lang => translations.some(t => t?.[lang]));
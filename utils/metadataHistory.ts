@@ -0,0 +1,167 @@
+// Version history for an item's metadata, so undo/redo and restore never lose hand-curated work
+// Consecutive manual edits (typing in a field) are folded into one version until the user pauses.
+
+import { BatchItem, MetadataChange, MetadataLanguage, MetadataVersion, StockMetadata } from '../types';
+import { ALL_METADATA_LANGUAGES } from './languages';
+
+const MAX_VERSIONS = 50;
+const MANUAL_EDIT_MERGE_MS = 2000;
+
+const createVersion = (data: StockMetadata, change: MetadataChange): MetadataVersion => ({
+  id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+  data,
+  createdAt: Date.now(),
+  ...change,
+});
+
+// Items completed before history was kept start their timeline at their current data
+const getHistory = (item: BatchItem): { history: MetadataVersion[]; index: number } => {
+  if (item.history && item.history.length > 0) {
+    return { history: item.history, index: item.historyIndex ?? item.history.length - 1 };
+  }
+  return item.data ? { history: [createVersion(item.data, { kind: 'generated' })], index: 0 } : { history: [], index: -1 };
+};
+
+export const recordVersion = (item: BatchItem, data: StockMetadata, change: MetadataChange): Partial<BatchItem> => {
+  const { history, index } = getHistory(item);
+  // Blur handlers and re-applied fixes can report an unchanged value; that's not a version (and mustn't drop redo)
+  if (change.kind !== 'generated' && history[index] && JSON.stringify(history[index].data) === JSON.stringify(data)) return {};
+  const isAtHead = index === history.length - 1;
+  // A new change after an undo drops the redo branch
+  const kept = history.slice(0, index + 1);
+  const head = kept[kept.length - 1];
+
+  if (change.kind === 'manual' && isAtHead && head?.kind === 'manual' && Date.now() - head.createdAt < MANUAL_EDIT_MERGE_MS) {
+    kept[kept.length - 1] = { ...head, data, createdAt: Date.now() };
+  } else {
+    kept.push(createVersion(data, change));
+  }
+
+  const trimmed = kept.slice(-MAX_VERSIONS);
+  return { data, history: trimmed, historyIndex: trimmed.length - 1 };
+};
+
+export const canUndo = (item: BatchItem) => getHistory(item).index > 0;
+
+export const canRedo = (item: BatchItem) => {
+  const { history, index } = getHistory(item);
+  return index < history.length - 1;
+};
+
+export const moveInHistory = (item: BatchItem, delta: number): Partial<BatchItem> | null => {
+  const { history, index } = getHistory(item);
+  const next = index + delta;
+  if (next < 0 || next >= history.length) return null;
+  return { data: history[next].data, history, historyIndex: next };
+};
+
+// Restoring adds the old data as a new version, so everything in between stays reachable
+export const restoreVersion = (item: BatchItem, versionId: string): Partial<BatchItem> | null => {
+  const { history } = getHistory(item);
+  const position = history.findIndex(v => v.id === versionId);
+  if (position < 0) return null;
+  return recordVersion(item, history[position].data, { kind: 'restore', detail: String(position + 1) });
+};
+
+export type MetadataTextField = 'title' | 'description' | 'ai_prompt' | 'negative_prompt' | 'category' | 'technical_settings';
+
+export interface DiffToken {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+export interface MetadataFieldDiff {
+  field: MetadataTextField | 'keywords';
+  // Set for fields of a translation
+  language?: MetadataLanguage;
+  tokens?: DiffToken[];
+  added?: string[];
+  removed?: string[];
+  // Same keywords in a different order (e.g. after sorting)
+  reordered?: boolean;
+}
+
+const TEXT_FIELDS: MetadataTextField[] = ['title', 'description', 'ai_prompt', 'negative_prompt', 'category', 'technical_settings'];
+
+// Above this many LCS cells the diff just shows old and new text whole
+const MAX_DIFF_CELLS = 250000;
+
+// Word-level diff via longest common subsequence; whitespace is kept as its own token
+export const diffWords = (before: string, after: string): DiffToken[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ text: before, type: 'removed' as const }] : []),
+      ...(after ? [{ text: after, type: 'added' as const }] : []),
+    ];
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  const push = (text: string, type: DiffToken['type']) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ text, type });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return tokens;
+};
+
+const diffKeywords = (before: string[], after: string[]): Pick<MetadataFieldDiff, 'added' | 'removed' | 'reordered'> | null => {
+  const beforeSet = new Set(before.map(k => k.toLowerCase()));
+  const afterSet = new Set(after.map(k => k.toLowerCase()));
+  const added = after.filter(k => !beforeSet.has(k.toLowerCase()));
+  const removed = before.filter(k => !afterSet.has(k.toLowerCase()));
+  if (added.length > 0 || removed.length > 0) return { added, removed };
+  return before.join('\n') !== after.join('\n') ? { added: [], removed: [], reordered: true } : null;
+};
+
+// Field-by-field changes going from `before` to `after`; unchanged fields are left out
+export const diffMetadata = (before: StockMetadata, after: StockMetadata): MetadataFieldDiff[] => {
+  const diffs: MetadataFieldDiff[] = [];
+
+  TEXT_FIELDS.forEach(field => {
+    const a = before[field] || '';
+    const b = after[field] || '';
+    if (a !== b) diffs.push({ field, tokens: diffWords(a, b) });
+  });
+
+  const keywords = diffKeywords(before.keywords, after.keywords);
+  if (keywords) diffs.push({ field: 'keywords', ...keywords });
+
+  ALL_METADATA_LANGUAGES.forEach(language => {
+    const a = before.translations?.[language];
+    const b = after.translations?.[language];
+    if (!a && !b) return;
+    (['title', 'description'] as const).forEach(field => {
+      const textA = a?.[field] || '';
+      const textB = b?.[field] || '';
+      if (textA !== textB) diffs.push({ field, language, tokens: diffWords(textA, textB) });
+    });
+    const localizedKeywords = diffKeywords(a?.keywords || [], b?.keywords || []);
+    if (localizedKeywords) diffs.push({ field: 'keywords', language, ...localizedKeywords });
+  });
+
+  return diffs;
+};
@@ -0,0 +1,254 @@
+// Read existing EXIF, IPTC and XMP metadata from uploaded JPEG files
+// Used to seed generation with real camera settings and previously written captions/keywords.
+
+import { CameraExposure, EmbeddedMetadata } from '../types';
+import {
+  EXIF_HEADER,
+  IPTC_RESOURCE_ID,
+  MARKER_APP1,
+  MARKER_APP13,
+  PHOTOSHOP_HEADER,
+  XMP_HEADER,
+  isJpeg,
+  isUtf8Iptc,
+  parseJpeg,
+  readIptcDatasets,
+  readJpegHeader,
+  readPhotoshopResources,
+  startsWithAscii,
+} from './jpegSegments';
+
+// EXIF tag IDs
+const TAG = {
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  xpTitle: 0x9c9b,
+  xpKeywords: 0x9c9e,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+};
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = string | number | number[] | Uint8Array;
+
+const readIfd = (view: DataView, ifdOffset: number, little: boolean): Map<number, ExifValue> => {
+  const entries = new Map<number, ExifValue>();
+  if (ifdOffset + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(ifdOffset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * components;
+    if (size === 0) continue;
+
+    const valueOffset = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    switch (type) {
+      case 2: {
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, size);
+        entries.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, '').trim());
+        break;
+      }
+      case 3:
+        entries.set(tag, components === 1 ? view.getUint16(valueOffset, little) : Array.from({ length: components }, (_, n) => view.getUint16(valueOffset + n * 2, little)));
+        break;
+      case 4:
+      case 9:
+        entries.set(tag, view.getUint32(valueOffset, little));
+        break;
+      case 5:
+      case 10: {
+        const values = Array.from({ length: components }, (_, n) => {
+          const numerator = view.getUint32(valueOffset + n * 8, little);
+          const denominator = view.getUint32(valueOffset + n * 8 + 4, little);
+          return denominator ? numerator / denominator : 0;
+        });
+        entries.set(tag, components === 1 ? values[0] : values);
+        break;
+      }
+      default:
+        entries.set(tag, new Uint8Array(view.buffer, view.byteOffset + valueOffset, size));
+    }
+  }
+
+  return entries;
+};
+
+// Windows XP* tags are UCS-2 little-endian byte arrays
+const decodeXpString = (value: ExifValue | undefined): string | undefined => {
+  if (!(value instanceof Uint8Array)) return undefined;
+  return new TextDecoder('utf-16le').decode(value).replace(/\0+$/, '').trim() || undefined;
+};
+
+const asNumber = (value: ExifValue | undefined): number | undefined =>
+  typeof value === 'number' ? value : Array.isArray(value) ? value[0] : undefined;
+
+const asString = (value: ExifValue | undefined): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const toDecimalDegrees = (value: ExifValue | undefined, ref: ExifValue | undefined): number | null => {
+  if (!Array.isArray(value) || value.length < 3) return null;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+interface ExifResult {
+  exposure: CameraExposure | null;
+  gps: EmbeddedMetadata['gps'];
+  title?: string;
+  description?: string;
+  keywords: string[];
+}
+
+const readExif = (segment: Uint8Array): ExifResult => {
+  const tiff = segment.subarray(EXIF_HEADER.length);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = tiff[0] === 0x49; // "II" = Intel byte order
+
+  const ifd0 = readIfd(view, view.getUint32(4, little), little);
+  const exifPointer = asNumber(ifd0.get(TAG.exifPointer));
+  const gpsPointer = asNumber(ifd0.get(TAG.gpsPointer));
+  const exif = exifPointer ? readIfd(view, exifPointer, little) : new Map<number, ExifValue>();
+  const gpsIfd = gpsPointer ? readIfd(view, gpsPointer, little) : new Map<number, ExifValue>();
+
+  const exposure: CameraExposure = {
+    make: asString(ifd0.get(TAG.make)),
+    model: asString(ifd0.get(TAG.model)),
+    lens: asString(exif.get(TAG.lensModel)),
+    iso: asNumber(exif.get(TAG.iso)),
+    fNumber: asNumber(exif.get(TAG.fNumber)),
+    exposureTime: asNumber(exif.get(TAG.exposureTime)),
+    focalLength: asNumber(exif.get(TAG.focalLength)),
+    dateTaken: asString(exif.get(TAG.dateTimeOriginal)),
+  };
+  const hasExposure = Object.values(exposure).some(v => v !== undefined);
+
+  const latitude = toDecimalDegrees(gpsIfd.get(TAG.gpsLatitude), gpsIfd.get(TAG.gpsLatitudeRef));
+  const longitude = toDecimalDegrees(gpsIfd.get(TAG.gpsLongitude), gpsIfd.get(TAG.gpsLongitudeRef));
+
+  const xpKeywords = decodeXpString(ifd0.get(TAG.xpKeywords));
+
+  return {
+    exposure: hasExposure ? exposure : null,
+    gps: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+    title: decodeXpString(ifd0.get(TAG.xpTitle)),
+    description: asString(ifd0.get(TAG.imageDescription)),
+    keywords: xpKeywords ? xpKeywords.split(';').map(k => k.trim()).filter(Boolean) : [],
+  };
+};
+
+const readIptc = (segment: Uint8Array): { title?: string; description?: string; keywords: string[] } => {
+  const resource = readPhotoshopResources(segment).find(r => r.id === IPTC_RESOURCE_ID);
+  const result: { title?: string; description?: string; keywords: string[] } = { keywords: [] };
+  if (!resource) return result;
+
+  const datasets = readIptcDatasets(resource.data);
+  const decoder = new TextDecoder(isUtf8Iptc(datasets) ? 'utf-8' : 'latin1');
+
+  for (const { record, dataset, value: bytes } of datasets) {
+    if (record !== 2) continue;
+    const value = decoder.decode(bytes).trim();
+    if (dataset === 5 && value) result.title = value;
+    if (dataset === 105 && value && !result.title) result.title = value;
+    if (dataset === 120 && value) result.description = value;
+    if (dataset === 25 && value) result.keywords.push(value);
+  }
+
+  return result;
+};
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const readXmpList = (xmp: string, property: string): string[] => {
+  const block = xmp.match(new RegExp(`<${property}[^>]*>([\\s\\S]*?)</${property}>`));
+  if (!block) return [];
+  return Array.from(block[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g))
+    .map(match => decodeXmlEntities(match[1]).trim())
+    .filter(Boolean);
+};
+
+const readXmp = (segment: Uint8Array): { title?: string; description?: string; keywords: string[] } => {
+  const xmp = new TextDecoder().decode(segment.subarray(XMP_HEADER.length));
+  return {
+    title: readXmpList(xmp, 'dc:title')[0],
+    description: readXmpList(xmp, 'dc:description')[0],
+    keywords: readXmpList(xmp, 'dc:subject'),
+  };
+};
+
+export const readEmbeddedMetadata = async (file: File): Promise<EmbeddedMetadata | null> => {
+  if (file.type !== 'image/jpeg') return null;
+
+  try {
+    const bytes = await readJpegHeader(file);
+    if (!isJpeg(bytes)) return null;
+
+    const { segments } = parseJpeg(bytes);
+    const exifSegment = segments.find(s => s.marker === MARKER_APP1 && startsWithAscii(s.data, EXIF_HEADER));
+    const xmpSegment = segments.find(s => s.marker === MARKER_APP1 && startsWithAscii(s.data, XMP_HEADER));
+    const iptcSegment = segments.find(s => s.marker === MARKER_APP13 && startsWithAscii(s.data, PHOTOSHOP_HEADER));
+
+    const exif = exifSegment ? readExif(exifSegment.data) : null;
+    const iptc = iptcSegment ? readIptc(iptcSegment.data) : null;
+    const xmp = xmpSegment ? readXmp(xmpSegment.data) : null;
+
+    // XMP is the most complete source, then IPTC, then the EXIF/Windows fields
+    const keywords = xmp?.keywords.length ? xmp.keywords : iptc?.keywords.length ? iptc.keywords : exif?.keywords || [];
+    const metadata: EmbeddedMetadata = {
+      exposure: exif?.exposure || null,
+      gps: exif?.gps || null,
+      title: xmp?.title || iptc?.title || exif?.title,
+      description: xmp?.description || iptc?.description || exif?.description,
+      keywords: Array.from(new Set(keywords)),
+    };
+
+    const isEmpty = !metadata.exposure && !metadata.gps && !metadata.title && !metadata.description && metadata.keywords.length === 0;
+    return isEmpty ? null : metadata;
+  } catch (error) {
+    console.warn("Could not read embedded metadata", error);
+    return null;
+  }
+};
+
+export const formatExposure = (exposure: CameraExposure): string => {
+  const parts: string[] = [];
+  const camera = [exposure.make, exposure.model].filter(Boolean).join(' ');
+  if (camera) parts.push(camera);
+  if (exposure.lens) parts.push(exposure.lens);
+  if (exposure.focalLength) parts.push(`${Math.round(exposure.focalLength)}mm`);
+  if (exposure.fNumber) parts.push(`f/${Number(exposure.fNumber.toFixed(1))}`);
+  if (exposure.exposureTime) {
+    parts.push(exposure.exposureTime >= 1 ? `${exposure.exposureTime}s` : `1/${Math.round(1 / exposure.exposureTime)}s`);
+  }
+  if (exposure.iso) parts.push(`ISO ${exposure.iso}`);
+  return parts.join(', ');
+};
+
+// True when the EXIF block carries actual exposure values, not just a camera name
+export const hasExposureSettings = (exposure: CameraExposure | null | undefined): exposure is CameraExposure =>
+  !!exposure && (exposure.iso !== undefined || exposure.fNumber !== undefined || exposure.exposureTime !== undefined || exposure.focalLength !== undefined);
@@ -0,0 +1,209 @@
+// Embed stock metadata into JPEG files as XMP and IPTC
+// Only the APP1 (XMP) and APP13 (IPTC) segments are rewritten, merged with what the file already has;
+// the compressed image data is copied byte-for-byte, so pixels are never re-encoded.
+
+import { StockMetadata } from '../types';
+import { t } from './i18n';
+import {
+  IPTC_RESOURCE_ID,
+  IPTC_UTF8_CHARSET,
+  IptcDataset,
+  JpegSegment,
+  MARKER_APP1,
+  MARKER_APP13,
+  PHOTOSHOP_HEADER,
+  PhotoshopResource,
+  XMP_HEADER,
+  isJpeg,
+  isUtf8Iptc,
+  parseJpeg,
+  readIptcDatasets,
+  readPhotoshopResources,
+  serializeJpeg,
+  startsWithAscii,
+} from './jpegSegments';
+
+const encoder = new TextEncoder();
+
+// IPTC IIM field limits in bytes
+const IPTC_LIMITS = {
+  objectName: 64,
+  headline: 256,
+  keyword: 64,
+  caption: 2000,
+};
+
+export const canEmbedMetadata = (file: File) => file.type === 'image/jpeg';
+
+const NS = {
+  xmlns: 'http://www.w3.org/2000/xmlns/',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+};
+
+// Starting point for files without XMP; merged the same way as an existing packet
+const EMPTY_XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="${NS.rdf}"><rdf:Description rdf:about=""/></rdf:RDF></x:xmpmeta>`;
+
+// Replaces dc:title, dc:description and dc:subject; every other property in the packet is kept.
+// Headline and category are only filled in when the file has none.
+const mergeXmpPacket = (existing: string | null, data: StockMetadata): string => {
+  const source = existing ? existing.replace(/<\?xpacket[^?]*\?>/g, '').trim() : EMPTY_XMP;
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  const rdf = doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+  if (doc.getElementsByTagName('parsererror').length > 0 || !rdf) {
+    // Rewriting an unreadable packet would drop the contributor's other fields
+    throw new Error(t('error.xmpUnreadable'));
+  }
+
+  ['title', 'description', 'subject'].forEach(name =>
+    Array.from(doc.getElementsByTagNameNS(NS.dc, name)).forEach(element => element.parentNode?.removeChild(element))
+  );
+  const descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+  let target = descriptions[0];
+  if (!target) {
+    target = doc.createElementNS(NS.rdf, 'rdf:Description');
+    target.setAttributeNS(NS.rdf, 'rdf:about', '');
+    rdf.appendChild(target);
+  }
+  target.setAttributeNS(NS.xmlns, 'xmlns:dc', NS.dc);
+
+  const element = (ns: string, name: string, ...children: Node[]) => {
+    const node = doc.createElementNS(ns, name);
+    children.forEach(child => node.appendChild(child));
+    return node;
+  };
+  const langAlt = (text: string) => {
+    const li = element(NS.rdf, 'rdf:li', doc.createTextNode(text));
+    li.setAttributeNS(NS.xml, 'xml:lang', 'x-default');
+    return element(NS.rdf, 'rdf:Alt', li);
+  };
+  target.appendChild(element(NS.dc, 'dc:title', langAlt(data.title)));
+  target.appendChild(element(NS.dc, 'dc:description', langAlt(data.description)));
+  target.appendChild(element(NS.dc, 'dc:subject', element(NS.rdf, 'rdf:Bag',
+    ...data.keywords.map(keyword => element(NS.rdf, 'rdf:li', doc.createTextNode(keyword)))
+  )));
+
+  // Simple properties may be written as elements or as attributes of any rdf:Description
+  const hasProperty = (ns: string, name: string) =>
+    doc.getElementsByTagNameNS(ns, name).length > 0 || descriptions.some(d => d.hasAttributeNS(ns, name));
+  const photoshopFields: [string, string][] = [['Headline', data.title], ['Category', data.category]];
+  photoshopFields
+    .filter(([name, value]) => value && !hasProperty(NS.photoshop, name))
+    .forEach(([name, value]) => {
+      target.setAttributeNS(NS.xmlns, 'xmlns:photoshop', NS.photoshop);
+      target.appendChild(element(NS.photoshop, `photoshop:${name}`, doc.createTextNode(value)));
+    });
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+${new XMLSerializer().serializeToString(doc.documentElement)}
+<?xpacket end="w"?>`;
+};
+
+// Cut a UTF-8 byte sequence without splitting a multi-byte character
+const truncateUtf8 = (text: string, maxBytes: number): Uint8Array => {
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  bytes = bytes.subarray(0, end);
+  return bytes;
+};
+
+const iptcDataset = (record: number, dataset: number, value: Uint8Array): number[] => [
+  0x1c, record, dataset, value.length >> 8, value.length & 0xff, ...value,
+];
+
+// Datasets the writer owns: 2:05 Object Name, 2:25 Keywords, 2:120 Caption
+const REPLACED_IPTC_DATASETS = new Set([5, 25, 120]);
+
+const mergeIptcBlock = (existing: IptcDataset[], data: StockMetadata): Uint8Array => {
+  // The block is rewritten as UTF-8, so text kept from a Latin-1 block is transcoded
+  const decoder = isUtf8Iptc(existing) ? null : new TextDecoder('latin1');
+  const kept = existing
+    .filter(d => !(d.record === 1 && d.dataset === 90) && !(d.record === 2 && REPLACED_IPTC_DATASETS.has(d.dataset)))
+    .map(d => decoder && d.record === 2 && d.dataset !== 0 ? { ...d, value: encoder.encode(decoder.decode(d.value)) } : d);
+  const has = (record: number, dataset: number) => kept.some(d => d.record === record && d.dataset === dataset);
+
+  const datasets: IptcDataset[] = [
+    ...kept,
+    { record: 1, dataset: 90, value: IPTC_UTF8_CHARSET },
+    // 2:00 Record Version
+    ...(has(2, 0) ? [] : [{ record: 2, dataset: 0, value: new Uint8Array([0x00, 0x04]) }]),
+    { record: 2, dataset: 5, value: truncateUtf8(data.title, IPTC_LIMITS.objectName) },
+    ...(has(2, 105) ? [] : [{ record: 2, dataset: 105, value: truncateUtf8(data.title, IPTC_LIMITS.headline) }]),
+    ...data.keywords.map(keyword => ({ record: 2, dataset: 25, value: truncateUtf8(keyword, IPTC_LIMITS.keyword) })),
+    { record: 2, dataset: 120, value: truncateUtf8(data.description, IPTC_LIMITS.caption) },
+  ];
+
+  // IIM expects record, then dataset order; the sort is stable so repeated keywords keep theirs
+  const bytes: number[] = [];
+  datasets
+    .sort((a, b) => a.record - b.record || a.dataset - b.dataset)
+    .forEach(d => bytes.push(...iptcDataset(d.record, d.dataset, d.value)));
+  return new Uint8Array(bytes);
+};
+
+const writePhotoshopSegment = (resources: PhotoshopResource[]): Uint8Array => {
+  const parts: number[] = [...encoder.encode(PHOTOSHOP_HEADER)];
+  for (const resource of resources) {
+    parts.push(...encoder.encode('8BIM'), resource.id >> 8, resource.id & 0xff, ...resource.name);
+    const size = resource.data.length;
+    parts.push((size >>> 24) & 0xff, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff, ...resource.data);
+    if (size % 2 === 1) parts.push(0);
+  }
+  return new Uint8Array(parts);
+};
+
+const isXmpSegment = (segment: JpegSegment) =>
+  segment.marker === MARKER_APP1 && startsWithAscii(segment.data, XMP_HEADER);
+
+const isPhotoshopSegment = (segment: JpegSegment) =>
+  segment.marker === MARKER_APP13 && startsWithAscii(segment.data, PHOTOSHOP_HEADER);
+
+export const embedMetadataInJpeg = async (file: File, data: StockMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isJpeg(bytes)) {
+    throw new Error(t('error.jpegOnly'));
+  }
+
+  const parsed = parseJpeg(bytes);
+
+  // Keep every non-IPTC Photoshop resource (e.g. clipping paths) from the original file
+  const existingPhotoshop = parsed.segments.find(isPhotoshopSegment);
+  const resources = existingPhotoshop ? readPhotoshopResources(existingPhotoshop.data) : [];
+  const iptcResource = resources.find(r => r.id === IPTC_RESOURCE_ID);
+  const existingXmp = parsed.segments.find(isXmpSegment);
+
+  const segments = parsed.segments.filter(s => !isXmpSegment(s) && !isPhotoshopSegment(s));
+
+  const xmpSegment: JpegSegment = {
+    marker: MARKER_APP1,
+    data: encoder.encode(XMP_HEADER + mergeXmpPacket(
+      existingXmp ? new TextDecoder().decode(existingXmp.data.subarray(XMP_HEADER.length)) : null,
+      data
+    )),
+  };
+  const photoshopSegment: JpegSegment = {
+    marker: MARKER_APP13,
+    data: writePhotoshopSegment([
+      ...resources.filter(r => r.id !== IPTC_RESOURCE_ID),
+      {
+        id: IPTC_RESOURCE_ID,
+        name: iptcResource?.name || new Uint8Array([0, 0]),
+        data: mergeIptcBlock(iptcResource ? readIptcDatasets(iptcResource.data) : [], data),
+      },
+    ]),
+  };
+
+  // Metadata goes right after the leading JFIF/EXIF application segments
+  let insertAt = 0;
+  while (insertAt < segments.length && (segments[insertAt].marker === 0xffe0 || segments[insertAt].marker === MARKER_APP1)) {
+    insertAt++;
+  }
+  segments.splice(insertAt, 0, xmpSegment, photoshopSegment);
+
+  const output = serializeJpeg({ segments, imageData: parsed.imageData });
+  return new Blob([output as BlobPart], { type: 'image/jpeg' });
+};
@@ -0,0 +1,240 @@
+// Midjourney parameter parser and linter
+// Splits an ai_prompt into body and --parameters, validates them against the target
+// version and rewrites single parameters in place (e.g. --ar from the aspect-ratio selector).
+
+import { TargetModel } from '../types';
+import { t } from './i18n';
+
+export interface MidjourneyParam {
+  // Canonical name without dashes, e.g. "ar" for --aspect
+  name: string;
+  // Name exactly as written, e.g. "aspect"
+  written: string;
+  value: string;
+}
+
+export interface ParsedMidjourneyPrompt {
+  body: string;
+  params: MidjourneyParam[];
+}
+
+export type MjIssueSeverity = 'error' | 'warning';
+
+export interface MjParamIssue {
+  // Index into ParsedMidjourneyPrompt.params
+  paramIndex: number;
+  severity: MjIssueSeverity;
+  message: string;
+  fix?: (params: MidjourneyParam[]) => MidjourneyParam[];
+}
+
+const ALIASES: Record<string, string> = {
+  aspect: 'ar',
+  version: 'v',
+  s: 'stylize',
+  c: 'chaos',
+  q: 'quality',
+  w: 'weird',
+  p: 'profile',
+};
+
+// Parameters that take no value
+// Raw mode is not one of them: it is written --style raw
+const FLAGS = new Set(['tile', 'draft', 'relax', 'fast', 'turbo']);
+
+type ParamSpec = {
+  // Which targets accept the parameter; all Midjourney targets when omitted
+  models?: TargetModel[];
+  validate?: (value: string, model: TargetModel) => string | null;
+};
+
+const numberIn = (min: number, max: number) => (value: string) => {
+  const n = Number(value);
+  return value !== '' && !isNaN(n) && n >= min && n <= max ? null : t('mj.numberRange', { min, max });
+};
+
+const oneOf = (allowed: string[]) => (value: string) =>
+  allowed.includes(value) ? null : t('mj.oneOf', { values: allowed.join(', ') });
+
+const PARAM_SPECS: Record<string, ParamSpec> = {
+  ar: { validate: (value) => /^\d+:\d+$/.test(value) ? null : t('mj.ratioFormat') },
+  v: { models: ['midjourney', 'midjourney_v7'], validate: numberIn(1, 7) },
+  niji: { models: ['niji'], validate: oneOf(['4', '5', '6']) },
+  stylize: { validate: numberIn(0, 1000) },
+  chaos: { validate: numberIn(0, 100) },
+  weird: { validate: numberIn(0, 3000) },
+  quality: {
+    validate: (value, model) => model === 'midjourney_v7'
+      ? oneOf(['1', '2', '4'])(value)
+      : oneOf(['.25', '0.25', '.5', '0.5', '1'])(value),
+  },
+  style: {
+    validate: (value, model) => model === 'niji'
+      ? oneOf(['raw', 'cute', 'expressive', 'scenic', 'original'])(value)
+      : oneOf(['raw'])(value),
+  },
+  seed: { validate: numberIn(0, 4294967295) },
+  stop: { validate: numberIn(10, 100) },
+  iw: { validate: (value, model) => numberIn(0, model === 'midjourney_v7' ? 3 : 2)(value) },
+  no: { validate: (value) => value.trim() ? null : t('mj.needsTerm') },
+  repeat: { validate: numberIn(1, 40) },
+  sref: {},
+  sw: { validate: numberIn(0, 1000) },
+  sv: {},
+  cref: { models: ['midjourney', 'niji'] },
+  cw: { models: ['midjourney', 'niji'], validate: numberIn(0, 100) },
+  oref: { models: ['midjourney_v7'] },
+  ow: { models: ['midjourney_v7'], validate: numberIn(1, 1000) },
+  exp: { models: ['midjourney_v7'], validate: numberIn(0, 100) },
+  draft: { models: ['midjourney_v7'] },
+  profile: {},
+  tile: {},
+  relax: {},
+  fast: {},
+  turbo: {},
+};
+
+const EXPECTED_VERSION: Partial<Record<TargetModel, MidjourneyParam>> = {
+  midjourney: { name: 'v', written: 'v', value: '6.0' },
+  midjourney_v7: { name: 'v', written: 'v', value: '7' },
+  niji: { name: 'niji', written: 'niji', value: '6' },
+};
+
+export const parseMidjourneyPrompt = (prompt: string): ParsedMidjourneyPrompt => {
+  const start = prompt.search(/(^|\s)--[a-z]/i);
+  if (start === -1) return { body: prompt.trim(), params: [] };
+
+  const body = prompt.slice(0, start).trim();
+  const params: MidjourneyParam[] = prompt
+    .slice(start)
+    .split(/(?:^|\s)--(?=[a-z])/i)
+    .map(chunk => chunk.trim())
+    .filter(Boolean)
+    .map(chunk => {
+      const [written, ...rest] = chunk.split(/\s+/);
+      const key = written.toLowerCase();
+      const name = ALIASES[key] || key;
+      // Flags never take a value, so anything after them belongs to nothing and is dropped
+      return { name, written, value: FLAGS.has(name) ? '' : rest.join(' ') };
+    });
+
+  return { body, params };
+};
+
+export const formatMidjourneyParam = (param: MidjourneyParam) =>
+  param.value ? `--${param.written} ${param.value}` : `--${param.written}`;
+
+export const serializeMidjourneyPrompt = ({ body, params }: ParsedMidjourneyPrompt): string =>
+  [body, ...params.map(formatMidjourneyParam)].filter(Boolean).join(' ');
+
+// Replace the value of a parameter where it already is, or append it
+export const setMidjourneyParam = (prompt: string, name: string, value: string): string => {
+  const parsed = parseMidjourneyPrompt(prompt);
+  const index = parsed.params.findIndex(p => p.name === name);
+  const params = index === -1
+    ? [...parsed.params, { name, written: name, value }]
+    : parsed.params.map((p, i) => i === index ? { ...p, value } : p);
+  return serializeMidjourneyPrompt({ ...parsed, params });
+};
+
+export const lintMidjourneyParams = (
+  parsed: ParsedMidjourneyPrompt,
+  model: TargetModel,
+  expectedAspectRatio?: string
+): MjParamIssue[] => {
+  const issues: MjParamIssue[] = [];
+  const { params } = parsed;
+  const firstIndex = new Map<string, number>();
+
+  params.forEach((param, index) => {
+    const spec = PARAM_SPECS[param.name];
+
+    // Duplicates: Midjourney silently uses one of them, which is rarely the one you meant
+    const first = firstIndex.get(param.name);
+    if (first !== undefined) {
+      issues.push({
+        paramIndex: index,
+        severity: 'error',
+        message: t('mj.repeated', { param: param.written, value: params[first].value }),
+        fix: (list) => list.filter((_, i) => i !== index),
+      });
+      return;
+    }
+    firstIndex.set(param.name, index);
+
+    if (!spec && param.name === 'raw') {
+      const hasStyle = params.some(p => p.name === 'style');
+      issues.push({
+        paramIndex: index,
+        severity: 'error',
+        message: t('mj.rawIsStyle'),
+        fix: (list) => hasStyle
+          ? list.filter((_, i) => i !== index)
+          : list.map((p, i) => i === index ? { name: 'style', written: 'style', value: 'raw' } : p),
+      });
+      return;
+    }
+
+    if (!spec) {
+      issues.push({
+        paramIndex: index,
+        severity: 'warning',
+        message: t('mj.unknown', { param: param.written }),
+        fix: (list) => list.filter((_, i) => i !== index),
+      });
+      return;
+    }
+
+    if (spec.models && !spec.models.includes(model)) {
+      issues.push({
+        paramIndex: index,
+        severity: 'error',
+        message: t('mj.unsupported', { param: param.written }),
+        fix: (list) => list.filter((_, i) => i !== index),
+      });
+      return;
+    }
+
+    const problem = spec.validate && !FLAGS.has(param.name) ? spec.validate(param.value, model) : null;
+    if (problem) {
+      issues.push({ paramIndex: index, severity: 'error', message: t('mj.invalidValue', { param: param.written, problem }) });
+    }
+  });
+
+  const expectedVersion = EXPECTED_VERSION[model];
+  const versionIndex = params.findIndex(p => p.name === 'v' || p.name === 'niji');
+  if (expectedVersion && versionIndex !== -1) {
+    const current = params[versionIndex];
+    const matches = current.name === expectedVersion.name
+      && Math.floor(Number(current.value)) === Math.floor(Number(expectedVersion.value));
+    if (!matches && !issues.some(i => i.paramIndex === versionIndex)) {
+      issues.push({
+        paramIndex: versionIndex,
+        severity: 'warning',
+        message: t('mj.versionMismatch', { param: current.written, value: current.value, expected: formatMidjourneyParam(expectedVersion) }),
+        fix: (list) => list.map((p, i) => i === versionIndex ? expectedVersion : p),
+      });
+    }
+  }
+
+  const arIndex = params.findIndex(p => p.name === 'ar');
+  if (expectedAspectRatio && arIndex !== -1 && params[arIndex].value !== expectedAspectRatio
+    && !issues.some(i => i.paramIndex === arIndex)) {
+    issues.push({
+      paramIndex: arIndex,
+      severity: 'warning',
+      message: t('mj.ratioMismatch', { value: params[arIndex].value, expected: expectedAspectRatio }),
+      fix: (list) => list.map((p, i) => i === arIndex ? { ...p, value: expectedAspectRatio } : p),
+    });
+  }
+
+  return issues;
+};
+
+// Fixes remove or replace params by index, so apply from the last index backwards
+export const applyMjParamFixes = (parsed: ParsedMidjourneyPrompt, issues: MjParamIssue[]): string => {
+  const params = [...issues]
+    .sort((a, b) => b.paramIndex - a.paramIndex)
+    .reduce((list, issue) => issue.fix ? issue.fix(list) : list, parsed.params);
+  return serializeMidjourneyPrompt({ ...parsed, params });
+};
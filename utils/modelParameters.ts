@@ -0,0 +1,184 @@
+// Native parameters for each target model family
+// The model is told which parameters to use, but the final suffix is always rewritten here
+// so the emitted ai_prompt is exactly what the target tool expects.
+
+import { IdeogramStyle, MagicPromptMode, ModelParameters, PersonGeneration, PromptConfig, TargetModel } from '../types';
+import { formatMidjourneyParam, parseMidjourneyPrompt } from './midjourneyParams';
+
+export type ModelFamily = 'midjourney' | 'stable_diffusion' | 'flux' | 'natural';
+
+export const DEFAULT_MODEL_PARAMETERS: ModelParameters = {
+  styleRaw: false,
+  stylize: 100,
+  chaos: 0,
+  exclude: '',
+  sampler: 'DPM++ 2M Karras',
+  steps: 30,
+  cfgScale: 7,
+  guidance: 3.5,
+  ideogramStyle: 'auto',
+  magicPrompt: 'auto',
+  enhancePrompt: true,
+  personGeneration: 'allow_adult',
+  leonardoPreset: 'Stock Photo',
+};
+
+export const SD_SAMPLERS = [
+  'DPM++ 2M Karras',
+  'DPM++ SDE Karras',
+  'DPM++ 2M SDE Karras',
+  'Euler a',
+  'Euler',
+  'DDIM',
+  'UniPC',
+];
+
+// The names each tool shows in its own (English) UI; they go into the parameter line as written,
+// while ConfigPanel shows translated labels from the locale catalogs
+export const IDEOGRAM_STYLE_LABELS: Record<IdeogramStyle, string> = {
+  auto: 'Auto',
+  general: 'General',
+  realistic: 'Realistic',
+  design: 'Design',
+  render_3d: '3D Render',
+  anime: 'Anime',
+};
+
+export const MAGIC_PROMPT_LABELS: Record<MagicPromptMode, string> = { auto: 'Auto', on: 'On', off: 'Off' };
+
+export const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+  dont_allow: "Don't allow",
+  allow_adult: 'Allow adults',
+  allow_all: 'Allow all',
+};
+
+export const LEONARDO_PRESETS = [
+  'Stock Photo',
+  'Photography',
+  'Cinematic',
+  'Dynamic',
+  'Creative',
+  'Portrait',
+  'Illustration',
+  'Vibrant',
+  'None',
+];
+
+export const getModelFamily = (model: TargetModel): ModelFamily => {
+  switch (model) {
+    case 'midjourney':
+    case 'midjourney_v7':
+    case 'niji':
+      return 'midjourney';
+    case 'stable_diffusion':
+    case 'sd15':
+      return 'stable_diffusion';
+    case 'flux':
+      return 'flux';
+    default:
+      return 'natural';
+  }
+};
+
+// Natural-language targets whose generators still take settings next to the prompt
+export const hasNativeParameters = (model: TargetModel) =>
+  getModelFamily(model) !== 'natural' || model === 'ideogram' || model === 'imagen' || model === 'leonardo';
+
+// Targets with a separate negative prompt field (Midjourney uses --no instead)
+export const supportsNegativePrompt = (model?: TargetModel) =>
+  !!model && (getModelFamily(model) === 'stable_diffusion' || model === 'leonardo' || model === 'ideogram');
+
+// Targets that understand (token:1.3) attention weights
+export const supportsTokenWeights = (model?: TargetModel) =>
+  !!model && getModelFamily(model) === 'stable_diffusion';
+
+const MIDJOURNEY_VERSION: Partial<Record<TargetModel, string>> = {
+  midjourney: '--v 6.0',
+  midjourney_v7: '--v 7',
+  niji: '--niji 6',
+};
+
+// Pixel size for an aspect ratio; SD 1.5 is trained at 512px, SDXL/Flux at ~1 megapixel
+export const getGenerationSize = (model: TargetModel, aspectRatio: string): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 1;
+  const snap = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+  if (model === 'sd15') {
+    return ratio >= 1
+      ? { width: snap(512 * ratio, 8), height: 512 }
+      : { width: 512, height: snap(512 / ratio, 8) };
+  }
+  const area = 1024 * 1024;
+  const width = snap(Math.sqrt(area * ratio), 64);
+  return { width, height: snap(area / width, 64) };
+};
+
+export const formatModelParameters = (config: Pick<PromptConfig, 'targetModel' | 'aspectRatio' | 'modelParams'>): string => {
+  const p = config.modelParams;
+  switch (getModelFamily(config.targetModel)) {
+    case 'midjourney': {
+      const parts = [`--ar ${config.aspectRatio}`, MIDJOURNEY_VERSION[config.targetModel]!];
+      if (p.styleRaw) parts.push('--style raw');
+      if (p.stylize !== DEFAULT_MODEL_PARAMETERS.stylize) parts.push(`--stylize ${p.stylize}`);
+      if (p.chaos > 0) parts.push(`--chaos ${p.chaos}`);
+      if (p.exclude.trim()) parts.push(`--no ${p.exclude.trim()}`);
+      return parts.join(' ');
+    }
+    case 'stable_diffusion': {
+      const { width, height } = getGenerationSize(config.targetModel, config.aspectRatio);
+      return `Steps: ${p.steps}, Sampler: ${p.sampler}, CFG scale: ${p.cfgScale}, Size: ${width}x${height}`;
+    }
+    case 'flux': {
+      const { width, height } = getGenerationSize(config.targetModel, config.aspectRatio);
+      return `Steps: ${p.steps}, Distilled CFG Scale: ${p.guidance}, Size: ${width}x${height}`;
+    }
+    default:
+      break;
+  }
+  // Settings for these live in the generator's UI, so they go on their own line after the prompt
+  switch (config.targetModel) {
+    case 'ideogram':
+      return `Aspect ratio: ${config.aspectRatio}, Style: ${IDEOGRAM_STYLE_LABELS[p.ideogramStyle]}, Magic Prompt: ${MAGIC_PROMPT_LABELS[p.magicPrompt]}`;
+    case 'imagen':
+      return `Aspect ratio: ${config.aspectRatio}, Enhance prompt: ${p.enhancePrompt ? 'On' : 'Off'}, Person generation: ${PERSON_GENERATION_LABELS[p.personGeneration]}`;
+    case 'leonardo': {
+      const { width, height } = getGenerationSize(config.targetModel, config.aspectRatio);
+      return `Preset style: ${p.leonardoPreset}, Size: ${width}x${height}`;
+    }
+    default:
+      return '';
+  }
+};
+
+const PARAMETER_LINE = /^\s*(Steps|Sampler|CFG scale|Size|Seed|Aspect ratio|Preset style):/i;
+
+// Separate the descriptive part of a prompt from its trailing parameters
+export const splitPromptParameters = (prompt: string): { body: string; parameters: string } => {
+  const lines = prompt.split('\n');
+  const parameterLines = lines.filter(line => PARAMETER_LINE.test(line));
+  const text = lines.filter(line => !PARAMETER_LINE.test(line)).join('\n');
+  const flagStart = text.search(/\s--(?=[a-z])/i);
+  const body = (flagStart === -1 ? text : text.slice(0, flagStart)).trim();
+  const flags = flagStart === -1 ? '' : text.slice(flagStart).trim();
+  return { body, parameters: [flags, ...parameterLines.map(l => l.trim())].filter(Boolean).join('\n') };
+};
+
+export const joinPromptParameters = (body: string, parameters: string) => {
+  if (!parameters) return body;
+  return parameters.startsWith('--') ? `${body} ${parameters}` : `${body}\n${parameters}`;
+};
+
+// Midjourney parameters the config sets; the rest (--tile, --sref, --q from a template) are kept as written
+const CONFIGURED_MIDJOURNEY_PARAMS = new Set(['ar', 'v', 'niji', 'style', 'stylize', 'chaos', 'no']);
+
+// Replace the parameters the config controls and append the configured ones
+export const applyModelParameters = (prompt: string, config: Pick<PromptConfig, 'targetModel' | 'aspectRatio' | 'modelParams'>): string => {
+  if (getModelFamily(config.targetModel) === 'midjourney') {
+    const { body, params } = parseMidjourneyPrompt(prompt);
+    const kept = params.filter(p => !CONFIGURED_MIDJOURNEY_PARAMS.has(p.name)).map(formatMidjourneyParam);
+    return [body, formatModelParameters(config), ...kept].filter(Boolean).join(' ');
+  }
+  const { body } = splitPromptParameters(prompt);
+  return joinPromptParameters(body, formatModelParameters(config));
+};
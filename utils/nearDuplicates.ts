@@ -0,0 +1,131 @@
+// Near-duplicate detection with a perceptual hash computed in the browser
+// Agencies reject "too similar" submissions, so these are caught before any API call is spent on them.
+
+import { BatchItem, ImageFingerprint } from '../types';
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail: 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hamming distance (out of 64) up to which two images count as near-duplicates
+export const DEFAULT_DUPLICATE_THRESHOLD = 8;
+export const MAX_DUPLICATE_THRESHOLD = 20;
+
+export interface DuplicateCluster {
+  itemIds: string[];
+  // The member worth keeping: most pixels, then largest file, then first uploaded
+  bestId: string;
+}
+
+// A single drawImage from full size to 9x8 samples a handful of pixels and aliases; halving at a
+// time averages every pixel in, so re-encodes and resizes of one photo still hash alike
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): CanvasRenderingContext2D | null => {
+  let current: CanvasImageSource = source;
+  let currentWidth = width;
+  let currentHeight = height;
+  for (;;) {
+    const nextWidth = Math.max(HASH_WIDTH, Math.ceil(currentWidth / 2));
+    const nextHeight = Math.max(HASH_HEIGHT, Math.ceil(currentHeight / 2));
+    const last = nextWidth === HASH_WIDTH && nextHeight === HASH_HEIGHT;
+    const canvas = document.createElement('canvas');
+    canvas.width = last ? HASH_WIDTH : nextWidth;
+    canvas.height = last ? HASH_HEIGHT : nextHeight;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(current, 0, 0, canvas.width, canvas.height);
+    if (last) return context;
+    current = canvas;
+    currentWidth = nextWidth;
+    currentHeight = nextHeight;
+  }
+};
+
+// Pass an already decoded bitmap to skip decoding the file again; it's left open for the caller
+export const computeImageFingerprint = async (file: File, decoded?: ImageBitmap): Promise<ImageFingerprint | null> => {
+  if (!file.type.startsWith('image/')) return null;
+  try {
+    const bitmap = decoded || await createImageBitmap(file);
+    const { width, height } = bitmap;
+    const context = drawThumbnail(bitmap, width, height);
+    if (!decoded) bitmap.close();
+    if (!context) return null;
+
+    const pixels = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+    const gray = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return { hash, width, height };
+  } catch (e) {
+    console.error("Perceptual hash failed", e);
+    return null;
+  }
+};
+
+const BIT_COUNTS = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+export const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    distance += BIT_COUNTS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+const pickBest = (members: BatchItem[]) =>
+  members.reduce((best, item) => {
+    const area = (item.fingerprint?.width || 0) * (item.fingerprint?.height || 0);
+    const bestArea = (best.fingerprint?.width || 0) * (best.fingerprint?.height || 0);
+    return area > bestArea || (area === bestArea && item.file.size > best.file.size) ? item : best;
+  });
+
+// Single-linkage grouping: a chain of similar frames ends up in one cluster even if its ends drift apart
+export const findDuplicateClusters = (items: BatchItem[], threshold: number): DuplicateCluster[] => {
+  const hashed = items.filter(item => item.fingerprint);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].fingerprint!.hash, hashed[j].fingerprint!.hash) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, BatchItem[]>();
+  hashed.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), item]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => ({ itemIds: members.map(item => item.id), bestId: pickBest(members).id }));
+};
+
+// Held and skipped items stay pending but are left out of "start pending"
+export const isWaitingOnDuplicate = (item: BatchItem) => item.duplicate === 'held' || item.duplicate === 'skipped';
+
+// New uploads that duplicate something are held, except the best of a cluster made only of new uploads
+export const getHeldDuplicateIds = (existing: BatchItem[], incoming: BatchItem[], threshold: number): Set<string> => {
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const held = new Set<string>();
+  findDuplicateClusters([...existing, ...incoming], threshold).forEach(cluster => {
+    const keepsExisting = cluster.itemIds.some(id => !incomingIds.has(id));
+    cluster.itemIds.forEach(id => {
+      if (incomingIds.has(id) && (keepsExisting || id !== cluster.bestId)) held.add(id);
+    });
+  });
+  return held;
+};
@@ -1,12 +1,14 @@
 // Helper utility to convert PDF pages to images
 // Using global window.pdfjsLib loaded from index.html
 
+import { t } from './i18n';
+
 export const convertPdfToImages = async (pdfFile: File): Promise<File[]> => {
   // @ts-ignore
   const pdfjsLib = window.pdfjsLib;
   
   if (!pdfjsLib) {
-    throw new Error("PDF Library not loaded. Please refresh the page.");
+    throw new Error(t("error.pdfNotLoaded"));
   }
 
   try {
@@ -48,6 +50,6 @@ export const convertPdfToImages = async (pdfFile: File): Promise<File[]> => {
     return images;
   } catch (error) {
     console.error("PDF Conversion Error:", error);
-    throw new Error("Gagal memproses file PDF. Pastikan file tidak rusak/terpassword.");
+    throw new Error(t("error.pdfFailed"));
   }
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+// Pre-flight checks of an image against an agency's technical submission requirements
+// Limits follow the agencies' contributor guides at the time of writing; they change, so keep them in one place.
+
+import { BatchItem, ExportProfileId, ImageTechnicalInfo, PreflightCheck, PreflightReport, PreflightStatus } from '../types';
+
+export interface PreflightRequirements {
+  minMegapixels: number;
+  maxMegapixels?: number;
+  maxFileSizeMb: number;
+  // Below this estimated JPEG quality the file warns; below half of it, it fails
+  minJpegQuality: number;
+}
+
+export const PREFLIGHT_REQUIREMENTS: Record<ExportProfileId, PreflightRequirements> = {
+  generic: { minMegapixels: 4, maxFileSizeMb: 50, minJpegQuality: 80 },
+  adobe_stock: { minMegapixels: 4, maxMegapixels: 100, maxFileSizeMb: 45, minJpegQuality: 80 },
+  shutterstock: { minMegapixels: 4, maxFileSizeMb: 50, minJpegQuality: 80 },
+  freepik: { minMegapixels: 4, maxFileSizeMb: 80, minJpegQuality: 80 },
+  dreamstime: { minMegapixels: 3, maxFileSizeMb: 80, minJpegQuality: 80 },
+  '123rf': { minMegapixels: 6, maxFileSizeMb: 30, minJpegQuality: 80 },
+};
+
+// Neighbouring pixels differing less than this share of pixels two apart suggests interpolation
+export const UPSCALE_DETAIL_RATIO = 0.58;
+
+const STATUS_RANK: Record<PreflightStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export const getMegapixels = (info: ImageTechnicalInfo) => (info.width * info.height) / 1_000_000;
+
+export const evaluatePreflight = (info: ImageTechnicalInfo, profileId: ExportProfileId): PreflightReport => {
+  const requirements = PREFLIGHT_REQUIREMENTS[profileId];
+  const megapixels = getMegapixels(info);
+  const checks: PreflightCheck[] = [];
+
+  checks.push({
+    id: 'megapixels',
+    status: megapixels < requirements.minMegapixels || (requirements.maxMegapixels !== undefined && megapixels > requirements.maxMegapixels)
+      ? 'fail'
+      : 'pass',
+  });
+
+  checks.push({ id: 'fileSize', status: info.fileSize > requirements.maxFileSizeMb * 1024 * 1024 ? 'fail' : 'pass' });
+
+  // Agencies convert to sRGB; wide-gamut files shift colour, CMYK is rejected outright
+  checks.push({
+    id: 'colorProfile',
+    status: info.colorSpace === 'cmyk' ? 'fail'
+      : info.colorSpace === 'srgb' || info.colorSpace === 'untagged' ? 'pass'
+      : 'warn',
+  });
+
+  if (info.jpegQuality !== undefined) {
+    checks.push({
+      id: 'jpegQuality',
+      status: info.jpegQuality < requirements.minJpegQuality / 2 ? 'fail'
+        : info.jpegQuality < requirements.minJpegQuality ? 'warn'
+        : 'pass',
+    });
+  }
+
+  // A heuristic, so it can only ever warn
+  if (info.detailRatio !== undefined) {
+    checks.push({ id: 'upscaling', status: info.detailRatio < UPSCALE_DETAIL_RATIO ? 'warn' : 'pass' });
+  }
+
+  const status = checks.reduce<PreflightStatus>((worst, check) => STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst, 'pass');
+  return { profileId, info, checks, status };
+};
+
+// Holding failed files back is opt-in; the generic profile only informs since there's no agency to reject the file
+export const isPreflightBlocked = (item: BatchItem, holdFailed: boolean) =>
+  holdFailed && item.preflight?.status === 'fail' && item.preflight.profileId !== 'generic' && !item.preflightOverride;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
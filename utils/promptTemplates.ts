@@ -0,0 +1,107 @@
+// User-editable prompt formatting templates, one per target model
+// Only overrides are stored; a model without one falls back to the bundled default.
+
+import { KeywordDensity, PromptTemplates, TargetModel } from '../types';
+import { t } from './i18n';
+
+export const TARGET_MODEL_LABELS: Record<TargetModel, string> = {
+  midjourney: 'Midjourney v6',
+  midjourney_v7: 'Midjourney v7',
+  niji: 'Niji Journey 6',
+  stable_diffusion: 'Stable Diffusion XL',
+  sd15: 'Stable Diffusion 1.5',
+  flux: 'Flux.1',
+  ideogram: 'Ideogram 2.0',
+  imagen: 'Google Imagen 3',
+  leonardo: 'Leonardo AI',
+  firefly: 'Adobe Firefly 3',
+  dalle: 'DALL-E 3',
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<TargetModel, string> = {
+  midjourney: `Format the 'ai_prompt' specifically for Midjourney v6. Use parameters like {parameters} at the end of the prompt. Use meaningful phrasing, avoiding filler words like "picture of".`,
+  midjourney_v7: `Format the 'ai_prompt' for Midjourney v7. Write a clear, natural-language description of the scene (v7 follows full sentences well), then end with the parameters {parameters}. Avoid filler words like "picture of".`,
+  niji: `Format the 'ai_prompt' for Niji Journey 6 (anime and illustration model). Describe the subject, art style, line work and color palette in short phrases, then end with the parameters {parameters}.`,
+  stable_diffusion: `Format the 'ai_prompt' for Stable Diffusion XL. Use comma-separated tags and phrases. Emphasize key elements with (parentheses) if needed. Ensure the style is described first.`,
+  sd15: `Format the 'ai_prompt' for Stable Diffusion 1.5. Use short comma-separated tags, quality tags first (e.g. "masterpiece, best quality, highly detailed"), then subject, setting, lighting and style. Use (tag:1.2) weighting for key elements.`,
+  flux: `Format the 'ai_prompt' for Flux.1. Use rich natural language in full sentences, describing subject, composition, lighting, camera and mood in order. Flux renders text well, so put any visible text in "quotes".`,
+  ideogram: `Format the 'ai_prompt' for Ideogram 2.0. Use a descriptive natural-language paragraph. If the design contains typography, put the exact text in "quotes" and describe font style and placement.`,
+  imagen: `Format the 'ai_prompt' for Google Imagen 3. Use a concise but specific natural-language description: subject, context/background, then style and lighting. Mention photography terms (lens, angle) for photoreal results.`,
+  leonardo: `Format the 'ai_prompt' for Leonardo AI (Phoenix). Use a descriptive natural-language prompt with clear subject, environment, lighting and art style, ending with a short list of style keywords.`,
+  firefly: `Format the 'ai_prompt' for Adobe Firefly Image 3. Use natural language, descriptive sentences focusing on lighting, composition, and mood.`,
+  dalle: `Format the 'ai_prompt' for DALL-E 3. Use a detailed, descriptive paragraph that paints a full scene including specific details about the subject and environment.`,
+};
+
+export const PROMPT_TEMPLATE_PLACEHOLDERS = ['aspectRatio', 'subject', 'density', 'model', 'parameters'] as const;
+
+const DENSITY_LABELS: Record<KeywordDensity, string> = {
+  low: 'low (15-20 keywords)',
+  standard: 'standard (30-40 keywords)',
+  high: 'high (50 keywords)',
+};
+
+export interface TemplateValues {
+  aspectRatio: string;
+  subject: string;
+  density: KeywordDensity;
+  model: TargetModel;
+  parameters: string;
+}
+
+// Unknown placeholders are left as-is so typos stay visible in the preview
+export const renderPromptTemplate = (template: string, values: TemplateValues): string => {
+  const resolved: Record<string, string> = {
+    aspectRatio: values.aspectRatio,
+    subject: values.subject,
+    density: DENSITY_LABELS[values.density],
+    model: TARGET_MODEL_LABELS[values.model],
+    parameters: values.parameters,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => resolved[key] ?? match);
+};
+
+export const getPromptTemplate = (model: TargetModel, templates: PromptTemplates = {}): string =>
+  templates[model]?.trim() ? templates[model]! : DEFAULT_PROMPT_TEMPLATES[model];
+
+const TEMPLATES_STORAGE_KEY = 'stockprompt_prompt_templates';
+
+export const loadPromptTemplates = (): PromptTemplates => {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (saved) return parsePromptTemplates(saved);
+  } catch (e) {
+    console.error("Invalid saved prompt templates", e);
+  }
+  return {};
+};
+
+export const savePromptTemplates = (templates: PromptTemplates) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Export every model's effective template so the file is complete on its own
+export const exportPromptTemplates = (templates: PromptTemplates): string => {
+  const all = (Object.keys(DEFAULT_PROMPT_TEMPLATES) as TargetModel[]).reduce((result, model) => {
+    result[model] = getPromptTemplate(model, templates);
+    return result;
+  }, {} as Record<TargetModel, string>);
+  return JSON.stringify({ version: 1, templates: all }, null, 2);
+};
+
+// Accepts an exported file or a bare { model: template } map; templates equal to the default are dropped
+export const parsePromptTemplates = (json: string): PromptTemplates => {
+  const parsed = JSON.parse(json);
+  const source = parsed && typeof parsed === 'object' && parsed.templates ? parsed.templates : parsed;
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    throw new Error(t('templates.invalidFile'));
+  }
+
+  const result: PromptTemplates = {};
+  for (const model of Object.keys(DEFAULT_PROMPT_TEMPLATES) as TargetModel[]) {
+    const value = source[model];
+    if (typeof value === 'string' && value.trim() && value !== DEFAULT_PROMPT_TEMPLATES[model]) {
+      result[model] = value;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,75 @@
+// Parse and rebuild Stable Diffusion style weighted prompts
+// Follows the AUTOMATIC1111 attention syntax: (token:1.3), (token) = x1.1, [token] = /1.1.
+
+export interface PromptToken {
+  text: string;
+  weight: number;
+}
+
+export const MIN_TOKEN_WEIGHT = 0.1;
+export const MAX_TOKEN_WEIGHT = 2;
+
+const ATTENTION_MULTIPLIER = 1.1;
+
+const roundWeight = (weight: number) => Math.round(weight * 100) / 100;
+
+export const clampWeight = (weight: number) =>
+  roundWeight(Math.min(MAX_TOKEN_WEIGHT, Math.max(MIN_TOKEN_WEIGHT, weight)));
+
+// Split on commas that are not inside brackets
+const splitTopLevel = (prompt: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of prompt) {
+    if (char === '(' || char === '[') depth++;
+    else if ((char === ')' || char === ']') && depth > 0) depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const parseToken = (raw: string): PromptToken => {
+  let text = raw.trim();
+  let weight = 1;
+
+  // Peel nested brackets from the outside in
+  for (;;) {
+    const explicit = text.match(/^\(([\s\S]+):\s*(-?\d*\.?\d+)\)$/);
+    if (explicit) {
+      text = explicit[1].trim();
+      weight *= parseFloat(explicit[2]);
+      continue;
+    }
+    if (text.startsWith('(') && text.endsWith(')')) {
+      text = text.slice(1, -1).trim();
+      weight *= ATTENTION_MULTIPLIER;
+      continue;
+    }
+    if (text.startsWith('[') && text.endsWith(']')) {
+      text = text.slice(1, -1).trim();
+      weight /= ATTENTION_MULTIPLIER;
+      continue;
+    }
+    break;
+  }
+
+  return { text, weight: roundWeight(weight) };
+};
+
+export const parseWeightedPrompt = (prompt: string): PromptToken[] =>
+  splitTopLevel(prompt).map(parseToken).filter(token => token.text);
+
+export const formatToken = ({ text, weight }: PromptToken) =>
+  weight === 1 ? text : `(${text}:${roundWeight(weight)})`;
+
+export const serializeWeightedPrompt = (tokens: PromptToken[]) => tokens.map(formatToken).join(', ');
+
+// Commonly used negatives for stock-quality diffusion output
+export const GENERIC_NEGATIVE_PROMPT = 'lowres, blurry, jpeg artifacts, noise, watermark, signature, text, logo, cropped, out of frame, deformed, distorted, bad anatomy, extra limbs, oversaturated, worst quality, low quality';